@@ -0,0 +1,15 @@
+-- Document library: one row per editing session (Durable Object id)
+CREATE TABLE IF NOT EXISTS documents (
+  id TEXT PRIMARY KEY,
+  title TEXT NOT NULL,
+  filename TEXT NOT NULL,
+  page_count INTEGER NOT NULL DEFAULT 0,
+  size INTEGER NOT NULL DEFAULT 0,
+  owner TEXT NOT NULL DEFAULT '',
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS documents_updated_at ON documents (updated_at);
+CREATE INDEX IF NOT EXISTS documents_created_at ON documents (created_at);
+CREATE INDEX IF NOT EXISTS documents_title ON documents (title COLLATE NOCASE);
@@ -0,0 +1,19 @@
+-- Accounts, and who may do what with each document
+CREATE TABLE IF NOT EXISTS users (
+  id TEXT PRIMARY KEY,
+  email TEXT NOT NULL UNIQUE COLLATE NOCASE,
+  name TEXT NOT NULL,
+  password_hash TEXT NOT NULL, -- PBKDF2-SHA256, base64
+  password_salt TEXT NOT NULL, -- base64
+  created_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS document_permissions (
+  document_id TEXT NOT NULL,
+  user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+  created_at TEXT NOT NULL,
+  PRIMARY KEY (document_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS document_permissions_user ON document_permissions (user_id);
@@ -0,0 +1,13 @@
+-- Links that open one document without an account
+CREATE TABLE IF NOT EXISTS share_links (
+  id TEXT PRIMARY KEY,
+  document_id TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE, -- SHA-256 of the token, base64url; the token itself is never stored
+  role TEXT NOT NULL CHECK (role IN ('view', 'comment', 'edit')),
+  created_by TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+  created_at TEXT NOT NULL,
+  expires_at TEXT, -- NULL never expires
+  revoked_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS share_links_document ON share_links (document_id);
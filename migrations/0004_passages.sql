@@ -0,0 +1,10 @@
+-- Each document's text in passages, with their embeddings for semantic search
+CREATE TABLE IF NOT EXISTS passages (
+  document_id TEXT NOT NULL,
+  seq INTEGER NOT NULL, -- order within the document
+  page INTEGER NOT NULL,
+  text TEXT NOT NULL,
+  model TEXT NOT NULL, -- vectors only compare with others from the same model
+  embedding BLOB NOT NULL, -- float32, little-endian
+  PRIMARY KEY (document_id, seq)
+);
@@ -0,0 +1,273 @@
+// Annotation model shared by the app (src/) and the worker (worker/).
+// Keep this module free of DOM and Workers APIs so both builds can import it.
+
+export const ANNOTATION_TYPES = [
+  "text", "rect", "image", "path", "text-replace", "comment", "highlight", "underline", "strikeout", "redact",
+] as const;
+
+export type AnnotationType = (typeof ANNOTATION_TYPES)[number];
+
+// Markup made from a text selection: one quad per selected line
+export const TEXT_MARKUP_TYPES = ["highlight", "underline", "strikeout"] as const;
+
+export type TextMarkupType = (typeof TEXT_MARKUP_TYPES)[number];
+
+export const DEFAULT_MARKUP_COLORS: Record<TextMarkupType, string> = {
+  highlight: "#ffff00",
+  underline: "#2563eb",
+  strikeout: "#dc2626",
+};
+
+export function isTextMarkup(type: string): type is TextMarkupType {
+  return (TEXT_MARKUP_TYPES as readonly string[]).includes(type);
+}
+
+/** What a redaction removes: its quads when it has them, otherwise its box. */
+export function redactedAreas(ann: PdfAnnotation): { x: number; y: number; width: number; height: number }[] {
+  if (ann.quads?.length) return ann.quads;
+  return ann.width && ann.height ? [{ x: ann.x, y: ann.y, width: ann.width, height: ann.height }] : [];
+}
+
+/**
+ * All geometry is in PDF user space points (origin bottom-left, y up, before
+ * /Rotate), see `src/lib/coordinates.ts`:
+ * - rect, image: (x, y) is the bottom-left corner of a width x height box
+ * - text, text-replace: (x, y) is the start of the baseline; the text reads
+ *   upright on the displayed page whatever its rotation
+ * - path: SVG path data, y down, relative to the origin (x, y)
+ * - comment: (x, y) is the top-left corner of the note icon; never drawn into
+ *   the page, exported as a PDF Text annotation instead
+ * - highlight, underline, strikeout: `quads` are the marked boxes, one per
+ *   line of text; (x, y, width, height) bounds them
+ * - redact: like rect, or like the markup types when it has quads. Export
+ *   removes everything under it from the page and covers the area in `color`
+ */
+export interface PdfAnnotation {
+  id: string;
+  type: AnnotationType;
+  page: number; // 1-based index
+  x: number;
+  y: number;
+  text?: string;
+  fontSize?: number;
+  width?: number;
+  height?: number;
+  image?: string;
+  path?: string;
+  strokeWidth?: number;
+  color?: string;
+  // Specific for text-replace: the user space box of the text being replaced
+  originalTextRect?: { x: number; y: number; width: number; height: number };
+  // Specific for comment: the note and its replies, oldest first
+  thread?: CommentEntry[];
+  // Specific for text markup and redact: one box per marked line, in user space
+  quads?: { x: number; y: number; width: number; height: number }[];
+  resolved?: boolean;
+}
+
+export interface CommentEntry {
+  id: string;
+  text: string;
+  // Stamped by PDFSession from the sender's identity; whatever the client sends is ignored
+  author?: string;
+  authorId?: string;
+  createdAt?: string; // ISO 8601
+}
+
+// Incremental edits exchanged with PDFSession over the WebSocket
+export type AnnotationOp =
+  | { type: "annotation-add"; annotation: PdfAnnotation }
+  | { type: "annotation-update"; id: string; changes: Partial<PdfAnnotation> }
+  | { type: "annotation-delete"; id: string }
+  // Appends to a comment's thread. Replies aren't undoable, so there is no inverse.
+  | { type: "comment-reply"; id: string; reply: CommentEntry };
+
+// Page indices are 0-based, matching `deletedPages`
+export type PageOp =
+  | { type: "page-delete"; page: number }
+  | { type: "page-restore"; page: number };
+
+export type EditOp = AnnotationOp | PageOp;
+
+export function applyAnnotationOp(annotations: PdfAnnotation[], op: AnnotationOp): PdfAnnotation[] {
+  switch (op.type) {
+    case "annotation-add":
+      // An add for an id we already hold replaces it instead of duplicating
+      return annotations.some(a => a.id === op.annotation.id)
+        ? annotations.map(a => (a.id === op.annotation.id ? op.annotation : a))
+        : [...annotations, op.annotation];
+    case "annotation-update":
+      return annotations.map(a => (a.id === op.id ? { ...a, ...op.changes, id: a.id } : a));
+    case "annotation-delete":
+      return annotations.filter(a => a.id !== op.id);
+    case "comment-reply":
+      return annotations.map(a => (a.id === op.id ? { ...a, thread: [...(a.thread ?? []), op.reply] } : a));
+  }
+}
+
+/**
+ * Builds the operation that reverses `op`, given the annotations as they were
+ * before it was applied. Returns null when `op` would not change anything.
+ */
+export function invertEditOp(annotations: PdfAnnotation[], op: EditOp): EditOp | null {
+  switch (op.type) {
+    case "page-delete":
+      return { type: "page-restore", page: op.page };
+    case "page-restore":
+      return { type: "page-delete", page: op.page };
+    case "annotation-add": {
+      const existing = annotations.find(a => a.id === op.annotation.id);
+      return existing
+        ? { type: "annotation-add", annotation: existing }
+        : { type: "annotation-delete", id: op.annotation.id };
+    }
+    case "annotation-update": {
+      const existing = annotations.find(a => a.id === op.id);
+      if (!existing) return null;
+      const previous: Partial<PdfAnnotation> = {};
+      for (const key of Object.keys(op.changes) as (keyof PdfAnnotation)[]) {
+        Object.assign(previous, { [key]: existing[key] });
+      }
+      return { type: "annotation-update", id: op.id, changes: previous };
+    }
+    case "annotation-delete": {
+      const existing = annotations.find(a => a.id === op.id);
+      return existing ? { type: "annotation-add", annotation: existing } : null;
+    }
+    case "comment-reply":
+      return null;
+  }
+}
+
+// --- Runtime validation ---
+
+export type Validation<T> = { ok: true; value: T } | { ok: false; error: string };
+
+export const MAX_ANNOTATION_TEXT = 10_000;
+export const MAX_PATH_DATA = 200_000;
+export const MAX_IMAGE_DATA_URL = 750_000;
+export const MAX_COMMENT_TEXT = 2_000;
+export const MAX_THREAD_LENGTH = 100;
+export const MAX_QUADS = 500;
+// Generous bound for coordinates; real pages top out at 14400pt
+const MAX_COORDINATE = 100_000;
+
+const ID_PATTERN = /^[\w-]{1,64}$/;
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+const IMAGE_PATTERN = /^data:image\/(png|jpeg);base64,[A-Za-z0-9+/=]+$/;
+const PATH_PATTERN = /^[MLHVCSQTAZmlhvcsqtaz0-9.,\s+\-eE]*$/;
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function isId(value: unknown): value is string {
+  return typeof value === "string" && ID_PATTERN.test(value);
+}
+
+function isCoordinate(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && Math.abs(value) <= MAX_COORDINATE;
+}
+
+function isPositive(value: unknown, max: number): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 && value <= max;
+}
+
+/** 1-based page number as used by `PdfAnnotation.page`. */
+export function isPageNumber(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 100_000;
+}
+
+function isBox(value: unknown): boolean {
+  return (
+    isRecord(value) &&
+    isCoordinate(value.x) &&
+    isCoordinate(value.y) &&
+    isPositive(value.width, MAX_COORDINATE) &&
+    isPositive(value.height, MAX_COORDINATE)
+  );
+}
+
+/** A thread entry as a client may send it; author fields are dropped (the session stamps them). */
+export function validateCommentEntry(value: unknown): Validation<CommentEntry> {
+  if (!isRecord(value) || !isId(value.id)) return { ok: false, error: "comment id is invalid" };
+  if (typeof value.text !== "string" || !value.text.trim() || value.text.length > MAX_COMMENT_TEXT) {
+    return { ok: false, error: `comment text must be 1-${MAX_COMMENT_TEXT} characters` };
+  }
+  return { ok: true, value: { id: value.id, text: value.text } };
+}
+
+function isStoredCommentEntry(value: unknown): boolean {
+  return (
+    validateCommentEntry(value).ok &&
+    isRecord(value) &&
+    (value.author === undefined || (typeof value.author === "string" && value.author.length <= 100)) &&
+    (value.authorId === undefined || (typeof value.authorId === "string" && value.authorId.length <= 100)) &&
+    (value.createdAt === undefined || (typeof value.createdAt === "string" && !Number.isNaN(Date.parse(value.createdAt))))
+  );
+}
+
+// One check per optional field; each returns an error message or null
+const FIELD_CHECKS: { [K in keyof PdfAnnotation]?: (value: unknown) => string | null } = {
+  page: v => (isPageNumber(v) ? null : "page must be a positive integer"),
+  x: v => (isCoordinate(v) ? null : "x must be a finite number"),
+  y: v => (isCoordinate(v) ? null : "y must be a finite number"),
+  text: v => (typeof v === "string" && v.length <= MAX_ANNOTATION_TEXT ? null : "text is invalid or too long"),
+  fontSize: v => (isPositive(v, 1000) ? null : "fontSize must be between 0 and 1000"),
+  width: v => (isPositive(v, MAX_COORDINATE) ? null : "width must be positive"),
+  height: v => (isPositive(v, MAX_COORDINATE) ? null : "height must be positive"),
+  strokeWidth: v => (isPositive(v, 100) ? null : "strokeWidth must be between 0 and 100"),
+  color: v => (typeof v === "string" && COLOR_PATTERN.test(v) ? null : "color must be #rrggbb"),
+  image: v =>
+    typeof v === "string" && v.length <= MAX_IMAGE_DATA_URL && IMAGE_PATTERN.test(v)
+      ? null
+      : "image must be a PNG or JPEG data URL under the size limit",
+  path: v =>
+    typeof v === "string" && v.length <= MAX_PATH_DATA && PATH_PATTERN.test(v) ? null : "path is invalid or too long",
+  originalTextRect: v => (isBox(v) ? null : "originalTextRect is invalid"),
+  quads: v => (Array.isArray(v) && v.length <= MAX_QUADS && v.every(isBox) ? null : "quads are invalid or too many"),
+  thread: v =>
+    Array.isArray(v) && v.length <= MAX_THREAD_LENGTH && v.every(isStoredCommentEntry) ? null : "thread is invalid or too long",
+  resolved: v => (typeof v === "boolean" ? null : "resolved must be a boolean"),
+};
+
+function checkFields(value: Record<string, unknown>): string | null {
+  for (const [key, fieldValue] of Object.entries(value)) {
+    if (key === "id" || key === "type") continue;
+    const check = FIELD_CHECKS[key as keyof PdfAnnotation];
+    if (!check) return `unknown field "${key}"`;
+    if (fieldValue === undefined) continue;
+    const error = check(fieldValue);
+    if (error) return error;
+  }
+  return null;
+}
+
+export function validateAnnotation(value: unknown): Validation<PdfAnnotation> {
+  if (!isRecord(value)) return { ok: false, error: "annotation must be an object" };
+  if (!isId(value.id)) return { ok: false, error: "annotation id is invalid" };
+  if (!ANNOTATION_TYPES.includes(value.type as AnnotationType)) return { ok: false, error: "annotation type is invalid" };
+  if (value.page === undefined || value.x === undefined || value.y === undefined) {
+    return { ok: false, error: "annotation needs page, x and y" };
+  }
+  if (value.type === "comment" && !(Array.isArray(value.thread) && value.thread.length)) {
+    return { ok: false, error: "a comment needs at least one entry" };
+  }
+  if (isTextMarkup(value.type as AnnotationType) && !(Array.isArray(value.quads) && value.quads.length)) {
+    return { ok: false, error: `a ${value.type} needs at least one quad` };
+  }
+  if (value.type === "redact" && !isBox(value) && !(Array.isArray(value.quads) && value.quads.length)) {
+    return { ok: false, error: "a redaction needs a width and height or at least one quad" };
+  }
+  const error = checkFields(value);
+  return error ? { ok: false, error } : { ok: true, value: value as unknown as PdfAnnotation };
+}
+
+/** Changes for an `annotation-update`. The id and type of an annotation never change. */
+export function validateAnnotationChanges(value: unknown): Validation<Partial<PdfAnnotation>> {
+  if (!isRecord(value)) return { ok: false, error: "changes must be an object" };
+  if ("id" in value || "type" in value) return { ok: false, error: "id and type cannot be changed" };
+  if ("thread" in value) return { ok: false, error: "threads only grow through comment-reply" };
+  const error = checkFields(value);
+  return error ? { ok: false, error } : { ok: true, value: value as Partial<PdfAnnotation> };
+}
@@ -0,0 +1,63 @@
+// Accounts and per-document roles, shared by the worker and the app.
+
+// Commenters only get in through share links; accounts are granted the others
+export const ROLES = ["owner", "editor", "commenter", "viewer"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export const SHARE_ROLES = ["view", "comment", "edit"] as const;
+
+export type ShareRole = (typeof SHARE_ROLES)[number];
+
+export const SHARE_ROLE_TO_ROLE: Record<ShareRole, Role> = {
+  view: "viewer",
+  comment: "commenter",
+  edit: "editor",
+};
+
+export interface ShareLink {
+  id: string;
+  documentId: string;
+  role: ShareRole;
+  createdAt: string; // ISO 8601
+  expiresAt: string | null;
+  revokedAt: string | null;
+}
+
+/** Returned once, when a link is created; only a hash of `token` is kept. */
+export interface CreatedShareLink extends ShareLink {
+  token: string;
+}
+
+/** GET /api/shares/resolve?token=, what a share link opens. */
+export interface ResolvedShare {
+  documentId: string;
+  role: ShareRole;
+  title: string;
+  filename: string;
+  expiresAt: string | null;
+}
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  name: string;
+}
+
+/** Returned by POST /api/auth/register and /api/auth/login. */
+export interface AuthResponse {
+  token: string;
+  user: AuthUser;
+}
+
+export const MIN_PASSWORD_LENGTH = 8;
+// Account names, and the names share link guests give themselves
+export const MAX_NAME_LENGTH = 40;
+
+export function canEdit(role: Role): boolean {
+  return role === "owner" || role === "editor";
+}
+
+export function canComment(role: Role): boolean {
+  return role !== "viewer";
+}
@@ -0,0 +1,21 @@
+// Questions about a document, answered from its own pages. PDFSession keeps
+// the conversation and shares it with everyone in the session.
+
+export const MAX_QUESTION_LENGTH = 2_000;
+
+/** A passage an answer was based on. */
+export interface ChatSource {
+  page: number; // 1-based
+  text: string;
+}
+
+export interface ChatMessage {
+  id: string;
+  role: "user" | "assistant";
+  text: string;
+  // Who asked, for questions
+  author?: string;
+  // What the answer was based on, for answers
+  sources?: ChatSource[];
+  createdAt: string; // ISO 8601
+}
@@ -0,0 +1,40 @@
+// Document library rows, as served by GET /api/documents.
+
+import type { Role } from "./auth";
+
+export interface DocumentSummary {
+  id: string; // PDFSession id
+  title: string;
+  filename: string;
+  pageCount: number;
+  size: number; // bytes, of the original upload
+  owner: string;
+  createdAt: string; // ISO 8601
+  updatedAt: string;
+  role: Role; // the requesting user's
+}
+
+export const DOCUMENT_SORTS = ["updated", "created", "title", "size"] as const;
+
+export type DocumentSort = (typeof DOCUMENT_SORTS)[number];
+
+export const MAX_DOCUMENTS_PAGE_SIZE = 100;
+
+export interface DocumentListResponse {
+  documents: DocumentSummary[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+/** A passage found by meaning, by the session's semantic search. */
+export interface PassageMatch {
+  page: number;
+  text: string;
+  score: number; // cosine similarity to the query, higher is closer
+}
+
+/** A passage found across the library, as served by GET /api/documents/search. */
+export interface LibraryMatch extends PassageMatch {
+  document: DocumentSummary;
+}
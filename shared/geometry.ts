@@ -0,0 +1,98 @@
+// Page geometry needed on both sides: the viewer (src/lib/coordinates.ts)
+// and PDF export, which runs in the browser and in the worker.
+
+export type PageRotation = 0 | 90 | 180 | 270;
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export function overlaps(a: Rect, b: Rect): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+export function normalizeRotation(degrees: number): PageRotation {
+  return ((((Math.round(degrees / 90) * 90) % 360) + 360) % 360) as PageRotation;
+}
+
+/** A page's visible box and rotation; src/lib/coordinates.ts explains display coordinates. */
+export interface PageGeometry {
+  // Visible page box in user space (the CropBox, as pdf.js reports it)
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: PageRotation;
+}
+
+/** Display point (top-left origin, y down, rotated) to user space. */
+export function displayToPage(g: PageGeometry, p: Point): Point {
+  // Distances from the left/top edges of the unrotated page
+  let left: number, top: number;
+  switch (g.rotation) {
+    case 0: left = p.x; top = p.y; break;
+    case 90: left = p.y; top = g.height - p.x; break;
+    case 180: left = g.width - p.x; top = g.height - p.y; break;
+    case 270: left = g.width - p.y; top = p.x; break;
+  }
+  return { x: g.x + left, y: g.y + g.height - top };
+}
+
+/** User space point to display point. Inverse of `displayToPage`. */
+export function pageToDisplay(g: PageGeometry, p: Point): Point {
+  const left = p.x - g.x;
+  const top = g.y + g.height - p.y;
+  switch (g.rotation) {
+    case 0: return { x: left, y: top };
+    case 90: return { x: g.height - top, y: left };
+    case 180: return { x: g.width - left, y: g.height - top };
+    case 270: return { x: top, y: g.width - left };
+  }
+}
+
+/**
+ * Content that should read upright on a rotated page (text, images) is drawn
+ * rotated by the page rotation around its anchor. For an upright box filling
+ * `rect`, this is the anchor pdf-lib expects (the box's own bottom-left corner).
+ */
+export function uprightAnchor(rect: Rect, rotation: PageRotation): Point {
+  switch (rotation) {
+    case 0: return { x: rect.x, y: rect.y };
+    case 90: return { x: rect.x + rect.width, y: rect.y };
+    case 180: return { x: rect.x + rect.width, y: rect.y + rect.height };
+    case 270: return { x: rect.x, y: rect.y + rect.height };
+  }
+}
+
+/**
+ * Where an underline or strikeout is drawn through a quad. Both run along the
+ * text, which reads upright on the displayed page, so on a page rotated by 90°
+ * they're vertical in user space and "below the text" is towards +x.
+ */
+export function markupLine(
+  quad: Rect,
+  kind: "underline" | "strikeout",
+  rotation: PageRotation
+): { start: Point; end: Point; thickness: number } {
+  const { x, y, width, height } = quad;
+  const sideways = rotation % 180 !== 0;
+  const thickness = Math.max(0.5, (sideways ? width : height) / 14);
+  const horizontal = (lineY: number) => ({ start: { x, y: lineY }, end: { x: x + width, y: lineY }, thickness });
+  const vertical = (lineX: number) => ({ start: { x: lineX, y }, end: { x: lineX, y: y + height }, thickness });
+
+  if (kind === "strikeout") return sideways ? vertical(x + width / 2) : horizontal(y + height / 2);
+  switch (rotation) {
+    case 0: return horizontal(y + thickness);
+    case 90: return vertical(x + width - thickness);
+    case 180: return horizontal(y + height - thickness);
+    case 270: return vertical(x + thickness);
+  }
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { PDFDocument, StandardFonts } from "pdf-lib";
+import { encodePng, recognizePages, type OcrEngine, type OcrImage, type OcrLine } from "./ocr";
+import { searchText, type PageText } from "./text-search";
+
+// Page 1 is a scan filling the page, page 2 has text of its own, page 3 is another scan
+async function scannedPdf(): Promise<PDFDocument> {
+  const pdfDoc = await PDFDocument.create();
+  const scan = await pdfDoc.embedPng(await encodePng(new Uint8Array(4 * 6).fill(200), 4, 6, 1));
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  pdfDoc.addPage([400, 600]).drawImage(scan, { x: 0, y: 0, width: 400, height: 600 });
+  pdfDoc.addPage([400, 600]).drawText("Typed text", { x: 50, y: 500, size: 12, font });
+  pdfDoc.addPage([400, 600]).drawImage(scan, { x: 0, y: 0, width: 400, height: 600 });
+  // Images are only written out on save
+  return PDFDocument.load(await pdfDoc.save());
+}
+
+// Answers the same lines for every image it's shown, and records them
+function stubEngine(lines: OcrLine[]): OcrEngine & { images: OcrImage[] } {
+  const images: OcrImage[] = [];
+  return {
+    images,
+    async recognize(image) {
+      images.push(image);
+      return lines;
+    },
+  };
+}
+
+async function recognize(engine: OcrEngine, done = new Set<number>()) {
+  const pages: PageText[] = [];
+  const complete = await recognizePages(await scannedPdf(), engine, done, (page, runs) => pages.push({ page, runs }));
+  return { pages, complete };
+}
+
+describe("recognizePages", () => {
+  it("reads the scanned pages and places their lines where the engine saw them", async () => {
+    const engine = stubEngine([{ text: "Invoice 1234", box: { x: 0.1, y: 0.1, width: 0.5, height: 0.05 } }]);
+    const { pages, complete } = await recognize(engine);
+
+    expect(complete).toBe(true);
+    expect(engine.images).toHaveLength(2);
+    expect(engine.images[0].mimeType).toBe("image/png");
+    expect(pages.map(({ page }) => page)).toEqual([1, 3]);
+
+    const result = searchText(pages, { text: "Invoice", regex: false, caseSensitive: true });
+    if (!result.ok) throw new Error(result.error);
+    const [box] = result.value.hits[0].quads;
+    // A tenth of the way in from the left and down from the top of a 400 x 600 page
+    expect(box.x).toBeCloseTo(40, 0);
+    expect(box.y + box.height).toBeGreaterThan(500);
+    expect(box.y + box.height).toBeLessThanOrEqual(540 + 1e-6);
+  });
+
+  it("skips pages already done", async () => {
+    const engine = stubEngine([{ text: "Line" }]);
+    const { pages } = await recognize(engine, new Set([1]));
+    expect(pages.map(({ page }) => page)).toEqual([3]);
+    expect(engine.images).toHaveLength(1);
+  });
+
+  it("leaves pages the engine fails on for next time", async () => {
+    let calls = 0;
+    const engine: OcrEngine = {
+      async recognize() {
+        if (++calls === 1) throw new Error("model unavailable");
+        return [{ text: "Second scan" }];
+      },
+    };
+    const { pages, complete } = await recognize(engine);
+    expect(complete).toBe(false);
+    expect(pages.map(({ page, runs }) => [page, runs.map(run => run.text)])).toEqual([[3, ["Second scan"]]]);
+  });
+});
@@ -0,0 +1,237 @@
+// Text recognition for scanned pages, which are a single image and no text.
+// Recognized lines become text runs like the ones pdf.js extracts, so search,
+// summaries and the find bar treat them as the page's text, and export writes
+// them into the page as invisible text over the image.
+import {
+  beginText,
+  endText,
+  popGraphicsState,
+  pushGraphicsState,
+  setCharacterSqueeze,
+  setFontAndSize,
+  setTextMatrix,
+  setTextRenderingMode,
+  showText,
+  TextRenderingMode,
+  type PDFDocument,
+  type PDFFont,
+  type PDFPage,
+} from "pdf-lib";
+import { overlaps, type Rect } from "./geometry";
+import { imageData, readPageContents, type Matrix, type PageContents } from "./pdf-redact";
+import type { TextRun } from "./text-search";
+
+export interface OcrImage {
+  data: Uint8Array;
+  mimeType: "image/jpeg" | "image/png";
+}
+
+/** A line of recognized text. `box` is in fractions of the image, origin top-left. */
+export interface OcrLine {
+  text: string;
+  box?: Rect;
+}
+
+/**
+ * Reads the text off an image. PDFSession runs the one `worker/providers.ts`
+ * gives it, backed by Workers AI unless replaced; anything that can return
+ * lines will do.
+ */
+export interface OcrEngine {
+  recognize(image: OcrImage): Promise<OcrLine[]>;
+}
+
+/** Where on a page a scan is drawn, and its data. */
+export interface PageScan {
+  ctm: Matrix;
+  image: OcrImage;
+}
+
+// A page is a scan when it has no text and one image covers at least this much of it
+const MIN_SCAN_COVERAGE = 0.5;
+// Bigger images than this don't go to the engine
+export const MAX_SCAN_BYTES = 8_000_000;
+// Glyphs sit this far up a line box, relative to its height
+const BASELINE_OFFSET = 0.2;
+// Height of lines the engine didn't place, in fractions of the image: about 10pt on a letter page
+const UNPLACED_LINE_HEIGHT = 0.015;
+
+function area(ctm: Matrix): number {
+  const [a, b, c, d] = ctm;
+  return Math.abs(a * d - b * c);
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+async function deflate(bytes: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+  const stream = new CompressionStream("deflate");
+  const writer = stream.writable.getWriter();
+  writer.write(bytes);
+  writer.close();
+  return new Uint8Array(await new Response(stream.readable).arrayBuffer());
+}
+
+/** Gray or RGB pixels, 8 bits each, as a PNG file. */
+export async function encodePng(pixels: Uint8Array, width: number, height: number, components: 1 | 3): Promise<Uint8Array> {
+  const stride = width * components;
+  // Every row starts with its filter type, 0 for none
+  const raw = new Uint8Array((stride + 1) * height);
+  for (let row = 0; row < height; row++) raw.set(pixels.subarray(row * stride, (row + 1) * stride), row * (stride + 1) + 1);
+
+  const chunk = (type: string, data: Uint8Array) => {
+    const out = new Uint8Array(12 + data.length);
+    const view = new DataView(out.buffer);
+    view.setUint32(0, data.length);
+    for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+    out.set(data, 8);
+    view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+    return out;
+  };
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header[8] = 8;
+  header[9] = components === 1 ? 0 : 2;
+
+  const parts = [
+    Uint8Array.of(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a),
+    chunk("IHDR", header),
+    chunk("IDAT", await deflate(raw)),
+    chunk("IEND", new Uint8Array()),
+  ];
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+/**
+ * The scanned image on a page that has no text of its own, or null when the
+ * page has text, no image big enough, or one we can't hand to an engine.
+ */
+export async function findScan(contents: PageContents, pageSize: { width: number; height: number }): Promise<PageScan | null> {
+  if (contents.glyphs.some(glyph => glyph.text.trim())) return null;
+  const [largest] = [...contents.images].sort((a, b) => area(b.ctm) - area(a.ctm));
+  if (!largest || area(largest.ctm) < MIN_SCAN_COVERAGE * pageSize.width * pageSize.height) return null;
+
+  const data = imageData(largest.image);
+  if (!data) return null;
+  const image: OcrImage = "jpeg" in data
+    ? { data: data.jpeg, mimeType: "image/jpeg" }
+    : { data: await encodePng(data.pixels, data.width, data.height, data.components), mimeType: "image/png" };
+  return image.data.length <= MAX_SCAN_BYTES ? { ctm: largest.ctm, image } : null;
+}
+
+/**
+ * Places recognized lines where the scan shows them, as text runs in user
+ * space. Lines the engine gave no box are spread down the image in order,
+ * which keeps them searchable even if selecting them is approximate.
+ */
+export function ocrRuns(lines: OcrLine[], ctm: Matrix): TextRun[] {
+  const [a, b, c, d, e, f] = ctm;
+  const across = Math.hypot(a, b), up = Math.hypot(c, d);
+  if (!across || !up) return [];
+  const ux = a / across, uy = b / across, vx = c / up, vy = d / up;
+
+  return lines.filter(line => line.text.trim()).map((line, i, all) => {
+    const box = line.box ?? {
+      x: 0.05, y: 0.05 + (0.9 * i) / all.length, width: 0.9, height: Math.min(UNPLACED_LINE_HEIGHT, (0.9 / all.length) * 0.8),
+    };
+    // Images fill the unit square with their first row at the top
+    const left = box.x, bottom = 1 - box.y - box.height + box.height * BASELINE_OFFSET;
+    const height = box.height * up;
+    return {
+      text: line.text.trim(),
+      transform: [ux * height, uy * height, vx * height, vy * height, a * left + c * bottom + e, b * left + d * bottom + f],
+      width: box.width * across,
+      height,
+      eol: true,
+    };
+  });
+}
+
+/**
+ * Reads the text off each scanned page of `pdfDoc` with `engine`, skipping
+ * pages in `done` (1-based), and hands each page's runs to `onPage` as soon
+ * as they're read. Pages the engine fails on are left for next time; the
+ * answer is whether there were none.
+ */
+export async function recognizePages(
+  pdfDoc: PDFDocument,
+  engine: OcrEngine,
+  done: Set<number>,
+  onPage: (page: number, runs: TextRun[]) => void
+): Promise<boolean> {
+  const contents = readPageContents(pdfDoc);
+  let failed = false;
+  for (const [i, page] of pdfDoc.getPages().entries()) {
+    if (done.has(i + 1)) continue;
+    const scan = await findScan(contents[i], page.getSize());
+    if (!scan) continue;
+    let runs: TextRun[];
+    try {
+      runs = ocrRuns(await engine.recognize(scan.image), scan.ctm);
+    } catch (e) {
+      console.error(`OCR failed on page ${i + 1}`, e);
+      failed = true;
+      continue;
+    }
+    onPage(i + 1, runs);
+  }
+  return !failed;
+}
+
+/**
+ * Writes `runs` into the page as invisible text (render mode 3), each squeezed
+ * to the width it was recognized at, so viewers can select and search the
+ * scan. Characters the font can't encode are left out, and so are runs that
+ * touch any of `redacted`: a redaction mustn't leave its text behind.
+ */
+export function addTextLayer(page: PDFPage, runs: TextRun[], font: PDFFont, redacted: Rect[]) {
+  const supported = new Set(font.getCharacterSet());
+  const key = page.node.newFontDictionary(font.name, font.ref);
+
+  for (const run of runs) {
+    const text = Array.from(run.text).filter(char => supported.has(char.codePointAt(0)!)).join("");
+    const [a, b, c, d, e, f] = run.transform;
+    const size = Math.hypot(c, d);
+    const natural = font.widthOfTextAtSize(text, size);
+    if (!text.trim() || !size || !natural) continue;
+
+    const box = {
+      x: Math.min(e, e + (a / size) * run.width) - size, y: Math.min(f, f + (b / size) * run.width) - size,
+      width: Math.abs((a / size) * run.width) + 2 * size, height: Math.abs((b / size) * run.width) + 2 * size,
+    };
+    if (redacted.some(area => overlaps(area, box))) continue;
+
+    page.pushOperators(
+      pushGraphicsState(),
+      beginText(),
+      setFontAndSize(key, size),
+      setTextRenderingMode(TextRenderingMode.Invisible),
+      setCharacterSqueeze((run.width / natural) * 100),
+      setTextMatrix(a / size, b / size, c / size, d / size, e, f),
+      showText(font.encodeText(text)),
+      endText(),
+      popGraphicsState(),
+    );
+  }
+}
@@ -0,0 +1,301 @@
+// Writes session annotations into a PDF as real annotation dictionaries
+// (rather than drawing them into the page content), using pdf-lib's low-level API.
+// Each one carries an appearance stream, so viewers show it exactly as drawn
+// while still letting the reader select, edit or delete it.
+import {
+  degrees,
+  drawImage,
+  drawLine,
+  drawLinesOfText,
+  drawRectangle,
+  drawSvgPath,
+  PDFDict,
+  PDFHexString,
+  PDFName,
+  PDFString,
+  rgb,
+  type PDFContext,
+  type PDFDocument,
+  type PDFFont,
+  type PDFImage,
+  type PDFOperator,
+  type PDFPage,
+  type PDFRef,
+} from "pdf-lib";
+import { DEFAULT_MARKUP_COLORS, isTextMarkup, type CommentEntry, type PdfAnnotation } from "./annotations";
+import { markupLine, uprightAnchor, type PageRotation } from "./geometry";
+
+// Size of a note icon, in points
+const NOTE_SIZE = 20;
+const POPUP_WIDTH = 200;
+const POPUP_HEIGHT = 120;
+
+const DEFAULT_COMMENT_COLOR = "#facc15";
+// Matches the flattened drawing of boxes
+const BOX_OPACITY = 0.4;
+// Annotation flags (PDF 32000-1, 12.5.3)
+const FLAG_HIDDEN = 2;
+const FLAG_PRINT = 4;
+const FLAG_NO_ZOOM = 8;
+const FLAG_NO_ROTATE = 16;
+
+type Box = [number, number, number, number]; // llx, lly, urx, ury
+// pdf-lib doesn't export its literal dictionary type
+type Dict = NonNullable<Parameters<PDFContext["formXObject"]>[1]>;
+
+function colorArray(hex: string): [number, number, number] {
+  const [r, g, b] = [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16) / 255).map(c => (Number.isNaN(c) ? 0 : c));
+  return [r, g, b];
+}
+
+function dateOf(entry: CommentEntry): Date {
+  const time = entry.createdAt ? Date.parse(entry.createdAt) : NaN;
+  return Number.isNaN(time) ? new Date() : new Date(time);
+}
+
+function boundsOf(points: [number, number][], pad = 0): Box {
+  const xs = points.map(p => p[0]);
+  const ys = points.map(p => p[1]);
+  return [Math.min(...xs) - pad, Math.min(...ys) - pad, Math.max(...xs) + pad, Math.max(...ys) + pad];
+}
+
+/** Registers an annotation dictionary and lists it on the page. */
+function addAnnot(pdfDoc: PDFDocument, page: PDFPage, dict: Dict): PDFRef {
+  const ref = pdfDoc.context.register(pdfDoc.context.obj({ Type: "Annot", P: page.ref, ...dict }));
+  page.node.addAnnot(ref);
+  return ref;
+}
+
+/**
+ * The normal appearance, drawn in user space. With the BBox equal to the
+ * annotation's Rect and no Matrix, the operators land exactly where the
+ * flattened export would have drawn them.
+ */
+function appearance(pdfDoc: PDFDocument, rect: Box, operators: PDFOperator[], resources: Dict = {}) {
+  const stream = pdfDoc.context.formXObject(operators, { BBox: rect, Resources: resources });
+  return { N: pdfDoc.context.register(stream) };
+}
+
+// Fields shared by every annotation we write; NM carries our id so an
+// exported annotation can be recognised when the file comes back
+function common(ann: PdfAnnotation, subtype: string, rect: Box) {
+  return {
+    Subtype: subtype,
+    Rect: rect,
+    NM: PDFHexString.fromText(ann.id),
+    M: PDFString.fromDate(new Date()),
+    F: FLAG_PRINT,
+  };
+}
+
+/** A box becomes a filled Square with no border. */
+export function addSquareAnnotation(pdfDoc: PDFDocument, page: PDFPage, ann: PdfAnnotation) {
+  if (!ann.width || !ann.height) return;
+  const color = colorArray(ann.color ?? "#ffff00");
+  const rect: Box = [ann.x, ann.y, ann.x + ann.width, ann.y + ann.height];
+  const gs = pdfDoc.context.obj({ Type: "ExtGState", ca: BOX_OPACITY, CA: BOX_OPACITY });
+  const operators = drawRectangle({
+    x: ann.x, y: ann.y, width: ann.width, height: ann.height,
+    color: rgb(...color), borderColor: undefined, borderWidth: 0,
+    rotate: degrees(0), xSkew: degrees(0), ySkew: degrees(0),
+    graphicsState: "GS0",
+  });
+  addAnnot(pdfDoc, page, {
+    ...common(ann, "Square", rect),
+    C: color,
+    IC: color,
+    CA: BOX_OPACITY,
+    BS: { W: 0 },
+    AP: appearance(pdfDoc, rect, operators, { ExtGState: { GS0: gs } }),
+  });
+}
+
+const MARKUP_SUBTYPES = { highlight: "Highlight", underline: "Underline", strikeout: "StrikeOut" } as const;
+
+/**
+ * Highlights, underlines and strikeouts become the matching text markup
+ * annotation over their quads. QuadPoints go upper-left, upper-right,
+ * lower-left, lower-right, the order Acrobat writes. The appearance is drawn
+ * the way the viewer and the flattened export draw it.
+ */
+export function addTextMarkupAnnotation(pdfDoc: PDFDocument, page: PDFPage, ann: PdfAnnotation, rotation: PageRotation) {
+  if (!isTextMarkup(ann.type) || !ann.quads?.length) return;
+  const kind = ann.type;
+  const color = colorArray(ann.color ?? DEFAULT_MARKUP_COLORS[kind]);
+  const rect = boundsOf(ann.quads.flatMap((q): [number, number][] => [[q.x, q.y], [q.x + q.width, q.y + q.height]]));
+  const gs = pdfDoc.context.obj({ Type: "ExtGState", BM: "Multiply", ca: BOX_OPACITY });
+  const operators = ann.quads.flatMap(q => {
+    if (kind === "highlight") {
+      return drawRectangle({
+        x: q.x, y: q.y, width: q.width, height: q.height,
+        color: rgb(...color), borderColor: undefined, borderWidth: 0,
+        rotate: degrees(0), xSkew: degrees(0), ySkew: degrees(0),
+        graphicsState: "GS0",
+      });
+    }
+    const line = markupLine(q, kind, rotation);
+    return drawLine({ ...line, color: rgb(...color) });
+  });
+  addAnnot(pdfDoc, page, {
+    ...common(ann, MARKUP_SUBTYPES[kind], rect),
+    C: color,
+    QuadPoints: ann.quads.flatMap(q => [q.x, q.y + q.height, q.x + q.width, q.y + q.height, q.x, q.y, q.x + q.width, q.y]),
+    AP: appearance(pdfDoc, rect, operators, kind === "highlight" ? { ExtGState: { GS0: gs } } : {}),
+  });
+}
+
+/**
+ * Stroke points for /InkList. Our paths are only ever moveto/lineto, so
+ * coordinate pairs are read in order and each M starts a new stroke.
+ */
+function inkStrokes(ann: PdfAnnotation): [number, number][][] {
+  const strokes: [number, number][][] = [];
+  let numbers: number[] = [];
+  const flush = () => {
+    const stroke: [number, number][] = [];
+    for (let i = 0; i + 1 < numbers.length; i += 2) stroke.push([ann.x + numbers[i], ann.y - numbers[i + 1]]);
+    if (stroke.length) strokes.push(stroke);
+    numbers = [];
+  };
+  for (const token of ann.path?.match(/[a-zA-Z]|-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/g) ?? []) {
+    if (token === "M" || token === "m") flush();
+    else if (!/[a-zA-Z]/.test(token)) numbers.push(Number(token));
+  }
+  flush();
+  return strokes;
+}
+
+/** A freehand path becomes Ink; the appearance replays the SVG path itself. */
+export function addInkAnnotation(pdfDoc: PDFDocument, page: PDFPage, ann: PdfAnnotation) {
+  const strokes = inkStrokes(ann);
+  if (!ann.path || !strokes.length) return;
+  const color = colorArray(ann.color ?? "#000000");
+  const width = ann.strokeWidth || 2;
+  const rect = boundsOf(strokes.flat(), width);
+  const operators = drawSvgPath(ann.path, {
+    x: ann.x, y: ann.y, scale: undefined,
+    color: undefined, borderColor: rgb(...color), borderWidth: width,
+  });
+  addAnnot(pdfDoc, page, {
+    ...common(ann, "Ink", rect),
+    C: color,
+    InkList: strokes.map(stroke => stroke.flat()),
+    BS: { W: width },
+    AP: appearance(pdfDoc, rect, operators),
+  });
+}
+
+/**
+ * Text becomes FreeText. It is drawn rotated with the page so it reads
+ * upright, like the flattened text, and the Rect bounds the rotated lines.
+ */
+export function addFreeTextAnnotation(
+  pdfDoc: PDFDocument,
+  page: PDFPage,
+  ann: PdfAnnotation,
+  font: PDFFont,
+  rotation: PageRotation
+) {
+  if (!ann.text) return;
+  const color = colorArray(ann.color ?? "#000000");
+  const size = ann.fontSize || 12;
+  const lines = ann.text.split("\n");
+  const width = Math.max(...lines.map(line => font.widthOfTextAtSize(line, size)));
+  // Upright box around the lines, relative to the first baseline
+  const top = font.heightAtSize(size, { descender: false });
+  const bottom = -size * (lines.length - 1) - (font.heightAtSize(size) - top);
+  const angle = (rotation * Math.PI) / 180;
+  const corners = [[0, bottom], [width, bottom], [width, top], [0, top]].map(([dx, dy]): [number, number] => [
+    ann.x + dx * Math.cos(angle) - dy * Math.sin(angle),
+    ann.y + dx * Math.sin(angle) + dy * Math.cos(angle),
+  ]);
+  // Unpadded, so importing the file again puts the baseline back where it was
+  const rect = boundsOf(corners);
+
+  const operators = drawLinesOfText(lines.map(line => font.encodeText(line)), {
+    x: ann.x, y: ann.y, size, lineHeight: size, font: "Helv",
+    color: rgb(...color), rotate: degrees(rotation), xSkew: degrees(0), ySkew: degrees(0),
+  });
+  addAnnot(pdfDoc, page, {
+    // No C: on FreeText it would fill the background; the text color is in DA
+    ...common(ann, "FreeText", rect),
+    Contents: PDFHexString.fromText(ann.text),
+    DA: PDFString.of(`/Helv ${size} Tf ${color.join(" ")} rg`),
+    BS: { W: 0 },
+    AP: appearance(pdfDoc, rect, operators, { Font: { Helv: font.ref } }),
+  });
+}
+
+/** An image becomes a Stamp whose appearance is the image, upright for the reader. */
+export function addStampAnnotation(
+  pdfDoc: PDFDocument,
+  page: PDFPage,
+  ann: PdfAnnotation,
+  image: PDFImage,
+  rotation: PageRotation
+) {
+  if (!ann.width || !ann.height) return;
+  const rect: Box = [ann.x, ann.y, ann.x + ann.width, ann.y + ann.height];
+  const sideways = rotation % 180 !== 0;
+  const anchor = uprightAnchor({ x: ann.x, y: ann.y, width: ann.width, height: ann.height }, rotation);
+  const operators = drawImage("Im0", {
+    x: anchor.x, y: anchor.y,
+    width: sideways ? ann.height : ann.width,
+    height: sideways ? ann.width : ann.height,
+    rotate: degrees(rotation), xSkew: degrees(0), ySkew: degrees(0),
+  });
+  addAnnot(pdfDoc, page, {
+    ...common(ann, "Stamp", rect),
+    Name: "Image",
+    AP: appearance(pdfDoc, rect, operators, { XObject: { Im0: image.ref } }),
+  });
+}
+
+/**
+ * A comment becomes a Text (sticky note) annotation with a Popup; each reply
+ * is a further Text annotation pointing at it with /IRT, the way Acrobat
+ * stores threads. A resolved thread gets a Review state of Completed.
+ */
+export function addCommentAnnotation(pdfDoc: PDFDocument, page: PDFPage, ann: PdfAnnotation) {
+  const [first, ...replies] = ann.thread ?? [];
+  if (!first) return;
+
+  const rect: Box = [ann.x, ann.y - NOTE_SIZE, ann.x + NOTE_SIZE, ann.y];
+  const color = colorArray(ann.color ?? DEFAULT_COMMENT_COLOR);
+
+  const note = (entry: CommentEntry, extra: Dict = {}): PDFRef =>
+    addAnnot(pdfDoc, page, {
+      Subtype: "Text",
+      Rect: rect,
+      Contents: PDFHexString.fromText(entry.text),
+      T: PDFHexString.fromText(entry.author ?? ""),
+      M: PDFString.fromDate(dateOf(entry)),
+      CreationDate: PDFString.fromDate(dateOf(entry)),
+      NM: PDFHexString.fromText(entry.id),
+      Name: "Comment",
+      C: color,
+      // A note keeps its size and stays upright
+      F: FLAG_PRINT | FLAG_NO_ZOOM | FLAG_NO_ROTATE,
+      ...extra,
+    });
+
+  // The note itself is named after the comment, so importing the file keeps its id
+  const parent = note(first, { Open: false, NM: PDFHexString.fromText(ann.id) });
+  const popup = addAnnot(pdfDoc, page, {
+    Subtype: "Popup",
+    Rect: [ann.x + NOTE_SIZE, ann.y - POPUP_HEIGHT, ann.x + NOTE_SIZE + POPUP_WIDTH, ann.y],
+    Parent: parent,
+    Open: false,
+  });
+  pdfDoc.context.lookup(parent, PDFDict).set(PDFName.of("Popup"), popup);
+
+  for (const reply of replies) note(reply, { IRT: parent, RT: "R" });
+
+  if (ann.resolved) {
+    note(
+      { id: `${ann.id}-resolved`, text: "Resolved", author: first.author, createdAt: new Date().toISOString() },
+      // State changes are records, not notes, so they're hidden
+      { IRT: parent, StateModel: PDFHexString.fromText("Review"), State: PDFHexString.fromText("Completed"), F: FLAG_HIDDEN }
+    );
+  }
+}
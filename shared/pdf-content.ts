@@ -0,0 +1,298 @@
+// Reads and writes page content streams (PDF 32000-1 §7.8.2), for the edits
+// pdf-lib can't make through its drawing API. Works on decoded stream bytes.
+
+export type ContentOperand =
+  | { kind: "number"; value: number }
+  | { kind: "string"; bytes: Uint8Array }
+  | { kind: "name"; value: string }
+  | { kind: "array"; items: ContentOperand[] }
+  | { kind: "dict"; entries: Map<string, ContentOperand> }
+  // true, false and null
+  | { kind: "keyword"; value: string };
+
+export interface ContentOperation {
+  operator: string;
+  operands: ContentOperand[];
+  // Byte range in the source stream; written back verbatim when present.
+  // Inline images (BI ... ID ... EI) can only be copied, never rebuilt.
+  start?: number;
+  end?: number;
+}
+
+type Token =
+  | ContentOperand
+  | { kind: "operator"; value: string }
+  | { kind: "open-array" | "close-array" | "open-dict" | "close-dict" };
+
+const WHITESPACE = new Set([0, 9, 10, 12, 13, 32]);
+const DELIMITERS = new Set([..."()<>[]{}/%"].map(c => c.charCodeAt(0)));
+const KEYWORD_OPERANDS = new Set(["true", "false", "null"]);
+
+const LITERAL_ESCAPES: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12 };
+
+function isRegular(byte: number): boolean {
+  return !WHITESPACE.has(byte) && !DELIMITERS.has(byte);
+}
+
+class Lexer {
+  pos = 0;
+  private readonly bytes: Uint8Array;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+  }
+
+  skipSpace() {
+    const { bytes } = this;
+    while (this.pos < bytes.length) {
+      const byte = bytes[this.pos];
+      if (WHITESPACE.has(byte)) {
+        this.pos++;
+      } else if (byte === 0x25) {
+        while (this.pos < bytes.length && bytes[this.pos] !== 10 && bytes[this.pos] !== 13) this.pos++;
+      } else {
+        return;
+      }
+    }
+  }
+
+  next(): Token | null {
+    this.skipSpace();
+    const { bytes } = this;
+    if (this.pos >= bytes.length) return null;
+    const byte = bytes[this.pos];
+    const char = String.fromCharCode(byte);
+
+    if (char === "[") { this.pos++; return { kind: "open-array" }; }
+    if (char === "]") { this.pos++; return { kind: "close-array" }; }
+    if (char === "<" && bytes[this.pos + 1] === 0x3c) { this.pos += 2; return { kind: "open-dict" }; }
+    if (char === ">" && bytes[this.pos + 1] === 0x3e) { this.pos += 2; return { kind: "close-dict" }; }
+    if (char === "(") return this.literalString();
+    if (char === "<") return this.hexString();
+    if (char === "/") return this.name();
+    if (char === "{" || char === "}" || char === ")" || char === ">") {
+      // Stray delimiters only appear in broken streams; step over them
+      this.pos++;
+      return this.next();
+    }
+
+    const start = this.pos;
+    while (this.pos < bytes.length && isRegular(bytes[this.pos])) this.pos++;
+    const word = latin1(bytes.subarray(start, this.pos));
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) return { kind: "number", value: Number(word) };
+    if (KEYWORD_OPERANDS.has(word)) return { kind: "keyword", value: word };
+    return { kind: "operator", value: word };
+  }
+
+  private literalString(): ContentOperand {
+    const { bytes } = this;
+    const out: number[] = [];
+    let depth = 1;
+    this.pos++;
+    while (this.pos < bytes.length) {
+      const byte = bytes[this.pos++];
+      if (byte === 0x5c) {
+        const escaped = bytes[this.pos++];
+        const char = String.fromCharCode(escaped);
+        if (char in LITERAL_ESCAPES) {
+          out.push(LITERAL_ESCAPES[char]);
+        } else if (escaped >= 0x30 && escaped <= 0x37) {
+          let octal = escaped - 0x30;
+          for (let i = 0; i < 2 && bytes[this.pos] >= 0x30 && bytes[this.pos] <= 0x37; i++) {
+            octal = octal * 8 + bytes[this.pos++] - 0x30;
+          }
+          out.push(octal & 0xff);
+        } else if (escaped === 13) {
+          // Line continuation
+          if (bytes[this.pos] === 10) this.pos++;
+        } else if (escaped !== 10) {
+          out.push(escaped);
+        }
+        continue;
+      }
+      if (byte === 0x28) depth++;
+      if (byte === 0x29 && --depth === 0) break;
+      out.push(byte);
+    }
+    return { kind: "string", bytes: Uint8Array.from(out) };
+  }
+
+  private hexString(): ContentOperand {
+    const { bytes } = this;
+    let digits = "";
+    this.pos++;
+    while (this.pos < bytes.length && bytes[this.pos] !== 0x3e) {
+      const char = String.fromCharCode(bytes[this.pos++]);
+      if (/[0-9a-fA-F]/.test(char)) digits += char;
+    }
+    this.pos++;
+    if (digits.length % 2) digits += "0";
+    const out = new Uint8Array(digits.length / 2);
+    for (let i = 0; i < out.length; i++) out[i] = parseInt(digits.slice(i * 2, i * 2 + 2), 16);
+    return { kind: "string", bytes: out };
+  }
+
+  private name(): ContentOperand {
+    const { bytes } = this;
+    const start = ++this.pos;
+    while (this.pos < bytes.length && isRegular(bytes[this.pos])) this.pos++;
+    const raw = latin1(bytes.subarray(start, this.pos));
+    return { kind: "name", value: raw.replace(/#([0-9a-fA-F]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))) };
+  }
+
+  /** Skips an inline image's data, from just after `ID` to just after its `EI`. */
+  skipInlineImage(length: number | undefined) {
+    const { bytes } = this;
+    // A single whitespace byte separates ID from the data
+    this.pos++;
+    if (length !== undefined) {
+      this.pos += length;
+      this.skipSpace();
+      if (latin1(bytes.subarray(this.pos, this.pos + 2)) === "EI") {
+        this.pos += 2;
+        return;
+      }
+    }
+    for (let i = this.pos; i + 1 < bytes.length; i++) {
+      if (
+        bytes[i] === 0x45 && bytes[i + 1] === 0x49 &&
+        WHITESPACE.has(bytes[i - 1]) &&
+        (i + 2 >= bytes.length || !isRegular(bytes[i + 2]))
+      ) {
+        this.pos = i + 2;
+        return;
+      }
+    }
+    this.pos = bytes.length;
+  }
+}
+
+function isOperand(token: Token): token is ContentOperand {
+  return ["number", "string", "name", "keyword"].includes(token.kind);
+}
+
+function latin1(bytes: Uint8Array): string {
+  let out = "";
+  for (const byte of bytes) out += String.fromCharCode(byte);
+  return out;
+}
+
+/**
+ * Splits a content stream into operations. Malformed input never throws:
+ * whatever can't be read is dropped, which only ever removes content.
+ */
+export function parseContentStream(bytes: Uint8Array): ContentOperation[] {
+  const lexer = new Lexer(bytes);
+  const operations: ContentOperation[] = [];
+  // Open arrays and dictionaries, innermost last; the bottom frame is the operand list
+  const stack: { items: ContentOperand[]; dict: boolean }[] = [{ items: [], dict: false }];
+  let start = -1;
+
+  for (;;) {
+    lexer.skipSpace();
+    const tokenStart = lexer.pos;
+    const token = lexer.next();
+    if (!token) break;
+    if (start < 0) start = tokenStart;
+    const top = stack[stack.length - 1];
+
+    switch (token.kind) {
+      case "open-array":
+      case "open-dict":
+        stack.push({ items: [], dict: token.kind === "open-dict" });
+        break;
+      case "close-array":
+      case "close-dict": {
+        if (stack.length === 1) break;
+        const { items, dict } = stack.pop()!;
+        const parent = stack[stack.length - 1].items;
+        if (dict) {
+          const entries = new Map<string, ContentOperand>();
+          for (let i = 0; i + 1 < items.length; i += 2) {
+            const key = items[i];
+            if (key.kind === "name") entries.set(key.value, items[i + 1]);
+          }
+          parent.push({ kind: "dict", entries });
+        } else {
+          parent.push({ kind: "array", items });
+        }
+        break;
+      }
+      case "operator": {
+        if (stack.length > 1) {
+          // An operator inside an array: the stream is broken, drop what we were building
+          stack.length = 1;
+          stack[0].items = [];
+          start = -1;
+          break;
+        }
+        let operands = top.items;
+        if (token.value === "BI") {
+          const entries = new Map<string, ContentOperand>();
+          for (;;) {
+            const key = lexer.next();
+            if (!key || (key.kind === "operator" && key.value === "ID")) break;
+            const value = lexer.next();
+            if (key.kind === "name" && value && isOperand(value)) entries.set(key.value, value);
+          }
+          const length = entries.get("L") ?? entries.get("Length");
+          lexer.skipInlineImage(length?.kind === "number" ? length.value : undefined);
+          operands = [{ kind: "dict", entries }];
+        }
+        operations.push({ operator: token.value, operands, start, end: lexer.pos });
+        stack[0].items = [];
+        start = -1;
+        break;
+      }
+      default:
+        top.items.push(token);
+    }
+  }
+  return operations;
+}
+
+function formatNumber(value: number): string {
+  if (Number.isInteger(value)) return String(value);
+  return value.toFixed(4).replace(/0+$/, "").replace(/\.$/, "");
+}
+
+function formatName(value: string): string {
+  let out = "/";
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    out += code < 0x21 || code > 0x7e || code === 0x23 || DELIMITERS.has(code)
+      ? `#${code.toString(16).padStart(2, "0")}`
+      : char;
+  }
+  return out;
+}
+
+function formatOperand(operand: ContentOperand): string {
+  switch (operand.kind) {
+    case "number": return formatNumber(operand.value);
+    case "string": return `<${Array.from(operand.bytes, b => b.toString(16).padStart(2, "0")).join("")}>`;
+    case "name": return formatName(operand.value);
+    case "array": return `[${operand.items.map(formatOperand).join(" ")}]`;
+    case "dict": return `<<${Array.from(operand.entries, ([key, value]) => `${formatName(key)} ${formatOperand(value)}`).join(" ")}>>`;
+    case "keyword": return operand.value;
+  }
+}
+
+/** Joins operations back into a stream, copying those that still have a source range from `source`. */
+export function writeContentStream(source: Uint8Array, operations: ContentOperation[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const parts = operations.map(op => {
+    if (op.start !== undefined && op.end !== undefined) return source.subarray(op.start, op.end);
+    if (op.operator === "BI") throw new Error("Inline images can't be rewritten");
+    // Only ASCII comes out of `formatOperand`, so UTF-8 is byte for byte
+    return encoder.encode([...op.operands.map(formatOperand), op.operator].join(" "));
+  });
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length + 1, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    out[offset + part.length] = 10;
+    offset += part.length + 1;
+  }
+  return out;
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { degrees, PDFArray, PDFDict, PDFDocument, PDFName, PDFNumber, type PDFPage } from "pdf-lib";
+import type { PdfAnnotation } from "./annotations";
+import { pageToDisplay, type PageGeometry, type PageRotation, type Point, type Rect } from "./geometry";
+import { encodePng } from "./ocr";
+import { applyEditsToPdf } from "./pdf-export";
+import { readPageContents, type Matrix } from "./pdf-redact";
+
+const ROTATIONS: PageRotation[] = [0, 90, 180, 270];
+
+// A page whose MediaBox doesn't start at the origin, at each rotation
+async function rotatedPdf(rotation: PageRotation): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create();
+  const page = pdfDoc.addPage([400, 300]);
+  page.setMediaBox(36, 120, 400, 300);
+  page.setRotation(degrees(rotation));
+  return pdfDoc.save();
+}
+
+async function pngDataUrl(): Promise<string> {
+  const png = await encodePng(new Uint8Array([255, 0, 0, 0, 0, 255]), 2, 1, 3);
+  return `data:image/png;base64,${btoa(String.fromCharCode(...png))}`;
+}
+
+function geometryOf(page: PDFPage): PageGeometry {
+  return { ...page.getCropBox(), rotation: page.getRotation().angle as PageRotation };
+}
+
+// A user space rect as the reader sees it on the rotated page
+function displayedRect(g: PageGeometry, r: Rect): Rect {
+  const corners = [
+    { x: r.x, y: r.y }, { x: r.x + r.width, y: r.y }, { x: r.x, y: r.y + r.height }, { x: r.x + r.width, y: r.y + r.height },
+  ].map(p => pageToDisplay(g, p));
+  const xs = corners.map(p => p.x);
+  const ys = corners.map(p => p.y);
+  return { x: Math.min(...xs), y: Math.min(...ys), width: Math.max(...xs) - Math.min(...xs), height: Math.max(...ys) - Math.min(...ys) };
+}
+
+function apply([a, b, c, d, e, f]: Matrix, u: number, v: number): Point {
+  return { x: a * u + c * v + e, y: b * u + d * v + f };
+}
+
+function annotRects(page: PDFPage): Record<string, number[]> {
+  const annots = page.node.lookupMaybe(PDFName.of("Annots"), PDFArray);
+  const rects: Record<string, number[]> = {};
+  for (let i = 0; i < (annots?.size() ?? 0); i++) {
+    const annot = annots!.lookup(i, PDFDict);
+    const subtype = annot.get(PDFName.of("Subtype"))!.toString().slice(1);
+    rects[subtype] = annot.lookup(PDFName.of("Rect"), PDFArray).asArray().map(n => (n as PDFNumber).asNumber());
+  }
+  return rects;
+}
+
+const text: PdfAnnotation = { id: "text", type: "text", page: 1, x: 136, y: 220, text: "Hello", fontSize: 14 };
+const imageBox: Rect = { x: 200, y: 300, width: 80, height: 40 };
+
+describe.each(ROTATIONS)("export onto a page with /Rotate %i", (rotation) => {
+  it("draws flattened text where it was placed, reading left to right", async () => {
+    const out = await PDFDocument.load(await applyEditsToPdf(await rotatedPdf(rotation), [text], [], { mode: "flatten" }));
+    const g = geometryOf(out.getPage(0));
+    const glyphs = readPageContents(out)[0].glyphs;
+    expect(glyphs.map(glyph => glyph.text).join("")).toBe("Hello");
+
+    const anchor = pageToDisplay(g, { x: text.x, y: text.y });
+    const shown = glyphs.map(glyph => displayedRect(g, glyph.box));
+    expect(shown[0].x).toBeCloseTo(anchor.x, 3);
+    // The baseline runs through every glyph
+    for (const box of shown) {
+      expect(box.y).toBeLessThan(anchor.y);
+      expect(box.y + box.height).toBeGreaterThan(anchor.y);
+    }
+    for (let i = 1; i < shown.length; i++) expect(shown[i].x).toBeGreaterThan(shown[i - 1].x);
+  });
+
+  it("fills an image's box with the image upright", async () => {
+    const image: PdfAnnotation = { id: "image", type: "image", page: 1, ...imageBox, image: await pngDataUrl() };
+    const out = await PDFDocument.load(await applyEditsToPdf(await rotatedPdf(rotation), [image], [], { mode: "flatten" }));
+    const g = geometryOf(out.getPage(0));
+    const [placed] = readPageContents(out)[0].images;
+
+    const corners = [apply(placed.ctm, 0, 0), apply(placed.ctm, 1, 0), apply(placed.ctm, 0, 1), apply(placed.ctm, 1, 1)];
+    expect(Math.min(...corners.map(c => c.x))).toBeCloseTo(imageBox.x, 3);
+    expect(Math.min(...corners.map(c => c.y))).toBeCloseTo(imageBox.y, 3);
+    expect(Math.max(...corners.map(c => c.x))).toBeCloseTo(imageBox.x + imageBox.width, 3);
+    expect(Math.max(...corners.map(c => c.y))).toBeCloseTo(imageBox.y + imageBox.height, 3);
+
+    // The image's bottom-left shows at the bottom-left of its box, its bottom edge along the bottom
+    const [bottomLeft, bottomRight] = corners.map(c => pageToDisplay(g, c));
+    const box = displayedRect(g, imageBox);
+    expect(bottomLeft.x).toBeCloseTo(box.x, 3);
+    expect(bottomLeft.y).toBeCloseTo(box.y + box.height, 3);
+    expect(bottomRight.x).toBeCloseTo(box.x + box.width, 3);
+    expect(bottomRight.y).toBeCloseTo(box.y + box.height, 3);
+  });
+
+  it("puts annotation rects around what was placed", async () => {
+    const image: PdfAnnotation = { id: "image", type: "image", page: 1, ...imageBox, image: await pngDataUrl() };
+    const out = await PDFDocument.load(await applyEditsToPdf(await rotatedPdf(rotation), [text, image]));
+    const rects = annotRects(out.getPage(0));
+
+    expect(rects.Stamp).toEqual([imageBox.x, imageBox.y, imageBox.x + imageBox.width, imageBox.y + imageBox.height]);
+    // FreeText bounds the text turned with the page, starting at its anchor
+    const [llx, lly, urx, ury] = rects.FreeText;
+    expect(llx).toBeLessThanOrEqual(text.x + 1e-6);
+    expect(urx).toBeGreaterThanOrEqual(text.x - 1e-6);
+    expect(lly).toBeLessThanOrEqual(text.y + 1e-6);
+    expect(ury).toBeGreaterThanOrEqual(text.y - 1e-6);
+    const sideways = rotation % 180 !== 0;
+    expect(sideways ? ury - lly : urx - llx).toBeGreaterThan(sideways ? urx - llx : ury - lly);
+  });
+});
@@ -0,0 +1,220 @@
+// Writes the session's edits into a PDF with pdf-lib. Runs in the browser
+// (download) and in the worker (GET /api/session/export).
+import { BlendMode, degrees, PDFDocument, rgb, StandardFonts, type PDFPage } from "pdf-lib";
+import { DEFAULT_MARKUP_COLORS, isTextMarkup, redactedAreas, type PdfAnnotation } from "./annotations";
+import { markupLine, normalizeRotation, uprightAnchor, type Rect } from "./geometry";
+import {
+  addCommentAnnotation,
+  addFreeTextAnnotation,
+  addInkAnnotation,
+  addSquareAnnotation,
+  addStampAnnotation,
+  addTextMarkupAnnotation,
+} from "./pdf-annotations";
+import { removeImportedAnnotations } from "./pdf-import";
+import { addTextLayer } from "./ocr";
+import { applyRedactions, removeUnreachableObjects } from "./pdf-redact";
+import type { PageText } from "./text-search";
+
+/**
+ * - annotations: text, boxes, ink and images become PDF annotations other
+ *   viewers can select, edit and remove
+ * - flatten: they are drawn into the page content for good
+ * Either way, replaced text is drawn into the page (it edits the page itself)
+ * and comments are always sticky notes. Redactions and the text that
+ * text-replace covers are removed from the page content (see
+ * `applyRedactions`) before anything is drawn. Markup imported from the
+ * original (see `importAnnotations`) is replaced by the session's copy of it.
+ * Text recognized on scanned pages goes in as an invisible layer (see
+ * `addTextLayer`), except where it's been redacted.
+ */
+export const EXPORT_MODES = ["annotations", "flatten"] as const;
+
+export type ExportMode = (typeof EXPORT_MODES)[number];
+
+export interface ExportOptions {
+  mode?: ExportMode;
+  // Recognized text of scanned pages, see `PDFSession.ensureOcr`
+  textLayer?: PageText[];
+}
+
+function embedDataUrl(pdfDoc: PDFDocument, dataUrl: string) {
+  const imgBytes = Uint8Array.from(atob(dataUrl.split(',')[1]), c => c.charCodeAt(0));
+  return dataUrl.startsWith("data:image/png") ? pdfDoc.embedPng(imgBytes) : pdfDoc.embedJpg(imgBytes);
+}
+
+/**
+ * `pdf` with what lies under its redactions taken out (see `applyRedactions`)
+ * and nothing else changed: the original, for anyone who may read the
+ * document but not what's redacted in it.
+ */
+export async function redactPdf(pdf: ArrayBuffer | Uint8Array, annotations: PdfAnnotation[]): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.load(pdf);
+  const pages = pdfDoc.getPages();
+  const redacted = new Map<PDFPage, Rect[]>();
+  for (const ann of annotations) {
+    if (ann.type !== "redact" || ann.page > pages.length) continue;
+    const page = pages[ann.page - 1];
+    redacted.set(page, [...(redacted.get(page) ?? []), ...redactedAreas(ann)]);
+  }
+  applyRedactions(pdfDoc, redacted);
+  removeUnreachableObjects(pdfDoc);
+  return pdfDoc.save();
+}
+
+export async function applyEditsToPdf(
+  pdf: ArrayBuffer | Uint8Array,
+  annotations: PdfAnnotation[],
+  deletedPageIndices: number[] = [],
+  { mode = "annotations", textLayer = [] }: ExportOptions = {}
+): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.load(pdf);
+  removeImportedAnnotations(pdfDoc);
+  const helveticaFont = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  // Removed unused helveticaBold
+  
+  const pages = pdfDoc.getPages();
+
+  // Content comes out from under redactions before edits are drawn over them
+  const redacted = new Map<PDFPage, Rect[]>();
+  for (const ann of annotations) {
+    if (ann.page > pages.length || deletedPageIndices.includes(ann.page - 1)) continue;
+    const areas = ann.type === "redact" ? redactedAreas(ann) : ann.type === "text-replace" && ann.originalTextRect ? [ann.originalTextRect] : [];
+    const page = pages[ann.page - 1];
+    if (areas.length) redacted.set(page, [...(redacted.get(page) ?? []), ...areas]);
+  }
+  applyRedactions(pdfDoc, redacted);
+  
+  // Parse color helper
+  const parseColor = (hex: string) => {
+      const r = parseInt(hex.slice(1, 3), 16) / 255;
+      const g = parseInt(hex.slice(3, 5), 16) / 255;
+      const b = parseInt(hex.slice(5, 7), 16) / 255;
+      return rgb(isNaN(r) ? 0 : r, isNaN(g) ? 0 : g, isNaN(b) ? 0 : b);
+  }
+
+  for (const ann of annotations) {
+    if (ann.page > pages.length || deletedPageIndices.includes(ann.page - 1)) continue;
+    
+    const page = pages[ann.page - 1];
+    const rotation = normalizeRotation(page.getRotation().angle);
+
+    // Comments stay comments: a sticky note in the PDF, not ink on the page
+    if (ann.type === "comment") {
+        addCommentAnnotation(pdfDoc, page, ann);
+        continue;
+    }
+
+    if (ann.type === "redact") {
+        for (const area of redactedAreas(ann)) page.drawRectangle({ ...area, color: parseColor(ann.color || "#000000") });
+        continue;
+    }
+
+    if (ann.type === "text-replace" && ann.originalTextRect && ann.text) {
+        // 1. Mask the original text (White rectangle)
+        page.drawRectangle({
+            ...ann.originalTextRect,
+            color: rgb(1, 1, 1), // White mask
+        });
+
+        // 2. Draw new text
+        page.drawText(ann.text, {
+            x: ann.x,
+            y: ann.y,
+            size: ann.fontSize || 12,
+            font: helveticaFont, // Defaulting to Helvetica for stability
+            color: parseColor(ann.color || "#000000"),
+            rotate: degrees(rotation),
+        });
+        continue;
+    }
+
+    if (mode === "annotations") {
+        if (ann.type === "text") addFreeTextAnnotation(pdfDoc, page, ann, helveticaFont, rotation);
+        if (ann.type === "rect") addSquareAnnotation(pdfDoc, page, ann);
+        if (ann.type === "path") addInkAnnotation(pdfDoc, page, ann);
+        if (isTextMarkup(ann.type)) addTextMarkupAnnotation(pdfDoc, page, ann, rotation);
+        if (ann.type === "image" && ann.image) {
+            try {
+                addStampAnnotation(pdfDoc, page, ann, await embedDataUrl(pdfDoc, ann.image), rotation);
+            } catch(e) { console.error("Failed to embed image", e); }
+        }
+        continue;
+    }
+
+    if (ann.type === "text" && ann.text) {
+      page.drawText(ann.text, {
+        x: ann.x,
+        y: ann.y,
+        size: ann.fontSize || 12,
+        font: helveticaFont,
+        color: parseColor(ann.color || "#000000"),
+        rotate: degrees(rotation),
+      });
+    }
+
+    if (ann.type === "rect" && ann.width && ann.height) {
+      page.drawRectangle({
+        x: ann.x,
+        y: ann.y,
+        width: ann.width,
+        height: ann.height,
+        color: parseColor(ann.color || "#ffff00"), 
+        opacity: 0.4,
+      });
+    }
+
+    if (isTextMarkup(ann.type)) {
+      const color = parseColor(ann.color || DEFAULT_MARKUP_COLORS[ann.type]);
+      for (const quad of ann.quads ?? []) {
+        if (ann.type === "highlight") {
+          page.drawRectangle({ ...quad, color, opacity: 0.4, blendMode: BlendMode.Multiply });
+        } else {
+          page.drawLine({ ...markupLine(quad, ann.type, rotation), color });
+        }
+      }
+    }
+
+    if (ann.type === "image" && ann.image && ann.width && ann.height) {
+        try {
+            const embeddedImage = await embedDataUrl(pdfDoc, ann.image);
+
+            // The box is in user space; the image itself is drawn upright for the reader
+            const sideways = rotation % 180 !== 0;
+            const anchor = uprightAnchor({ x: ann.x, y: ann.y, width: ann.width, height: ann.height }, rotation);
+            page.drawImage(embeddedImage, {
+                x: anchor.x,
+                y: anchor.y,
+                width: sideways ? ann.height : ann.width,
+                height: sideways ? ann.width : ann.height,
+                rotate: degrees(rotation),
+            });
+        } catch(e) { console.error("Failed to embed image", e); }
+    }
+
+    if (ann.type === "path" && ann.path) {
+        page.drawSvgPath(ann.path, {
+            x: ann.x,
+            y: ann.y,
+            borderColor: parseColor(ann.color || "#000000"),
+            borderWidth: ann.strokeWidth || 2,
+        });
+    }
+  }
+
+  for (const { page: number, runs } of textLayer) {
+    if (number > pages.length || deletedPageIndices.includes(number - 1)) continue;
+    addTextLayer(pages[number - 1], runs, helveticaFont, redacted.get(pages[number - 1]) ?? []);
+  }
+
+  // Handle Page Deletion
+  const sortedDeletions = [...deletedPageIndices].sort((a, b) => b - a);
+  for (const idx of sortedDeletions) {
+      if (idx < pdfDoc.getPageCount()) {
+          pdfDoc.removePage(idx);
+      }
+  }
+  removeUnreachableObjects(pdfDoc);
+
+  return await pdfDoc.save();
+}
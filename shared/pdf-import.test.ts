@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { PDFDict, PDFDocument, PDFName } from "pdf-lib";
+import type { PdfAnnotation } from "./annotations";
+import { applyEditsToPdf } from "./pdf-export";
+import { importAnnotations, removeImportedAnnotations } from "./pdf-import";
+
+const ANNOTATIONS: PdfAnnotation[] = [
+  { id: "box", type: "rect", page: 1, x: 40, y: 500, width: 120, height: 60, color: "#ff0000" },
+  { id: "marked", type: "highlight", page: 1, x: 40, y: 400, width: 200, height: 14, quads: [{ x: 40, y: 400, width: 200, height: 14 }] },
+  { id: "label", type: "text", page: 2, x: 72, y: 700, text: "Approved", fontSize: 16, color: "#0000ff" },
+  { id: "stroke", type: "path", page: 2, x: 100, y: 300, path: "M 0.00 0.00 L 50.00 20.00", color: "#000000", strokeWidth: 2 },
+  {
+    id: "note", type: "comment", page: 1, x: 300, y: 600, resolved: true,
+    thread: [{ id: "first", text: "Is this right?", author: "Ana" }, { id: "second", text: "Yes", author: "Ben" }],
+  },
+];
+
+async function upload(): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.addPage([612, 792]);
+  pdfDoc.addPage([612, 792]);
+  return pdfDoc.save();
+}
+
+// What a session holds after it was given `pdf` as an upload
+async function imported(pdf: Uint8Array): Promise<PdfAnnotation[]> {
+  return importAnnotations(await PDFDocument.load(pdf));
+}
+
+function annotCount(pdfDoc: PDFDocument): number {
+  return pdfDoc.getPages().reduce((sum, page) => sum + (page.node.Annots()?.size() ?? 0), 0);
+}
+
+const byId = (list: PdfAnnotation[]) => [...list].sort((a, b) => a.id.localeCompare(b.id));
+
+describe("exporting as annotations and importing again", () => {
+  it("brings every annotation back as it was", async () => {
+    const back = byId(await imported(await applyEditsToPdf(await upload(), ANNOTATIONS)));
+    expect(back.map(ann => [ann.id, ann.type, ann.page])).toEqual(byId(ANNOTATIONS).map(ann => [ann.id, ann.type, ann.page]));
+
+    const [box, label, marked, note, stroke] = back;
+    expect(box).toMatchObject({ x: 40, y: 500, width: 120, height: 60, color: "#ff0000" });
+    expect(marked.quads).toEqual([{ x: 40, y: 400, width: 200, height: 14 }]);
+    expect(label).toMatchObject({ text: "Approved", fontSize: 16, color: "#0000ff" });
+    expect(label.x).toBeCloseTo(72, 3);
+    expect(label.y).toBeCloseTo(700, 3);
+    expect(stroke.type).toBe("path");
+    // The note itself carries the first entry, so that entry comes back under the comment's id
+    expect(note.thread?.map(entry => [entry.id, entry.text, entry.author])).toEqual([
+      ["note", "Is this right?", "Ana"],
+      ["second", "Yes", "Ben"],
+    ]);
+    expect(note.resolved).toBe(true);
+  });
+
+  it("doesn't double anything up when an export is exported again", async () => {
+    const first = await applyEditsToPdf(await upload(), ANNOTATIONS);
+    const session = await imported(first);
+    const second = await applyEditsToPdf(first, session);
+
+    expect(byId(await imported(second)).map(ann => ann.id)).toEqual(byId(ANNOTATIONS).map(ann => ann.id));
+    expect(annotCount(await PDFDocument.load(second))).toBe(annotCount(await PDFDocument.load(first)));
+  });
+});
+
+describe("removeImportedAnnotations", () => {
+  it("takes out what import brings in and leaves the rest", async () => {
+    const pdfDoc = await PDFDocument.load(await applyEditsToPdf(await upload(), ANNOTATIONS));
+    // A link, which import leaves alone
+    const link = pdfDoc.context.obj({ Type: "Annot", Subtype: "Link", Rect: [10, 10, 60, 30] });
+    pdfDoc.getPage(0).node.addAnnot(pdfDoc.context.register(link));
+
+    removeImportedAnnotations(pdfDoc);
+    expect(importAnnotations(pdfDoc)).toEqual([]);
+    const left = pdfDoc.getPages().flatMap(page => page.node.Annots()?.asArray() ?? []);
+    expect(left).toHaveLength(1);
+    expect(pdfDoc.context.lookup(left[0], PDFDict).get(PDFName.of("Subtype"))).toBe(PDFName.of("Link"));
+  });
+});
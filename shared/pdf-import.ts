@@ -0,0 +1,303 @@
+// Reads markup made in other tools out of an uploaded PDF so the session can
+// edit it like its own. Export strips exactly what was imported from the
+// original before writing the session's copy, so nothing ends up doubled.
+import { PDFArray, PDFDict, PDFHexString, PDFName, PDFNumber, PDFString, type PDFDocument, type PDFObject } from "pdf-lib";
+import {
+  isId,
+  MAX_COMMENT_TEXT,
+  MAX_THREAD_LENGTH,
+  validateAnnotation,
+  validateCommentEntry,
+  type CommentEntry,
+  type PdfAnnotation,
+  type TextMarkupType,
+} from "./annotations";
+import { normalizeRotation } from "./geometry";
+
+// FreeText is laid out in Helvetica (see `addFreeTextAnnotation`); its ascent in em
+const HELVETICA_ASCENT = 0.718;
+const FLAG_HIDDEN = 2;
+const MAX_AUTHOR_LENGTH = 100;
+
+const MARKUP_TYPES = new Map<string, TextMarkupType>([["Highlight", "highlight"], ["Underline", "underline"], ["StrikeOut", "strikeout"]]);
+
+interface Annot {
+  dict: PDFDict;
+  subtype: string;
+}
+
+interface Collected {
+  annotations: PdfAnnotation[];
+  // Dictionaries now represented by `annotations`
+  consumed: Set<PDFDict>;
+}
+
+function pageAnnots(pdfDoc: PDFDocument, pageIndex: number): Annot[] {
+  const annots = pdfDoc.getPage(pageIndex).node.Annots();
+  return (annots?.asArray() ?? []).flatMap(entry => {
+    const dict = pdfDoc.context.lookup(entry);
+    if (!(dict instanceof PDFDict)) return [];
+    const subtype = dict.lookup(PDFName.of("Subtype"));
+    return [{ dict, subtype: subtype instanceof PDFName ? subtype.decodeText() : "" }];
+  });
+}
+
+function textOf(dict: PDFDict, key: string): string | undefined {
+  const value = dict.lookup(PDFName.of(key));
+  return value instanceof PDFString || value instanceof PDFHexString ? value.decodeText() : undefined;
+}
+
+function numbersOf(dict: PDFDict, value: PDFObject | undefined): number[] {
+  const array = dict.context.lookup(value);
+  if (!(array instanceof PDFArray)) return [];
+  return array.asArray().map(item => {
+    const n = dict.context.lookup(item);
+    return n instanceof PDFNumber ? n.asNumber() : NaN;
+  });
+}
+
+/** Rect as [llx, lly, urx, ury], whichever corners the file gave. */
+function rectOf(dict: PDFDict): [number, number, number, number] | null {
+  const [x1, y1, x2, y2] = numbersOf(dict, dict.get(PDFName.of("Rect")));
+  if (![x1, y1, x2, y2].every(Number.isFinite)) return null;
+  return [Math.min(x1, x2), Math.min(y1, y2), Math.max(x1, x2), Math.max(y1, y2)];
+}
+
+/** QuadPoints as boxes, one per quadrilateral. */
+function quadsOf(dict: PDFDict): { x: number; y: number; width: number; height: number }[] {
+  const points = numbersOf(dict, dict.get(PDFName.of("QuadPoints")));
+  const quads = [];
+  for (let q = 0; q + 7 < points.length; q += 8) {
+    const xs = [points[q], points[q + 2], points[q + 4], points[q + 6]];
+    const ys = [points[q + 1], points[q + 3], points[q + 5], points[q + 7]];
+    const x = Math.min(...xs);
+    const y = Math.min(...ys);
+    quads.push({ x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y });
+  }
+  return quads;
+}
+
+function toHex(components: number[]): string | undefined {
+  const channel = (c: number) => Math.round(Math.min(1, Math.max(0, c)) * 255).toString(16).padStart(2, "0");
+  if (components.some(c => !Number.isFinite(c))) return undefined;
+  if (components.length === 1) return `#${channel(components[0]).repeat(3)}`;
+  if (components.length === 3) return `#${components.map(channel).join("")}`;
+  if (components.length === 4) {
+    const [c, m, y, k] = components;
+    return `#${[c, m, y].map(v => channel((1 - v) * (1 - k))).join("")}`;
+  }
+  return undefined;
+}
+
+function colorOf(dict: PDFDict, key: string): string | undefined {
+  return toHex(numbersOf(dict, dict.get(PDFName.of(key))));
+}
+
+/** `D:YYYYMMDDHHmmSSOHH'mm'` as ISO 8601; every part after the year is optional. */
+function parsePdfDate(value: string | undefined): string | undefined {
+  const match = value?.match(/^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?([Zz+-])?(\d{2})?'?(\d{2})?/);
+  if (!match) return undefined;
+  const [, year, month = "01", day = "01", hour = "00", minute = "00", second = "00", sign, offsetH = "00", offsetM = "00"] = match;
+  const offset = sign === "+" || sign === "-" ? `${sign}${offsetH}:${offsetM}` : "Z";
+  const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function isHidden(dict: PDFDict): boolean {
+  const flags = dict.lookup(PDFName.of("F"));
+  return flags instanceof PDFNumber && (flags.asNumber() & FLAG_HIDDEN) !== 0;
+}
+
+function strokeWidthOf(dict: PDFDict): number {
+  const bs = dict.lookup(PDFName.of("BS"));
+  const width = bs instanceof PDFDict ? bs.lookup(PDFName.of("W")) : undefined;
+  const fromBorder = numbersOf(dict, dict.get(PDFName.of("Border")))[2];
+  const value = width instanceof PDFNumber ? width.asNumber() : fromBorder;
+  return Number.isFinite(value) && value > 0 ? Math.min(value, 100) : 1;
+}
+
+function collect(pdfDoc: PDFDocument): Collected {
+  const annotations: PdfAnnotation[] = [];
+  const consumed = new Set<PDFDict>();
+  const ids = new Set<string>();
+
+  // NM is kept as the id when it is usable, so our own exports come back as they were
+  const idFor = (dict: PDFDict, fallback: string) => {
+    const name = textOf(dict, "NM");
+    const id = name && isId(name) && !ids.has(name) ? name : fallback;
+    ids.add(id);
+    return id;
+  };
+
+  const entryOf = (dict: PDFDict, fallback: string): CommentEntry | null => {
+    const name = textOf(dict, "NM");
+    const text = (textOf(dict, "Contents") ?? "").replace(/\r\n?/g, "\n").slice(0, MAX_COMMENT_TEXT);
+    const entry = validateCommentEntry({ id: name && isId(name) ? name : fallback, text });
+    if (!entry.ok) return null;
+    const author = textOf(dict, "T")?.slice(0, MAX_AUTHOR_LENGTH);
+    return {
+      ...entry.value,
+      ...(author ? { author } : {}),
+      createdAt: parsePdfDate(textOf(dict, "M") ?? textOf(dict, "CreationDate")),
+    };
+  };
+
+  const take = (ann: PdfAnnotation, ...dicts: PDFDict[]): boolean => {
+    if (!validateAnnotation(ann).ok) return false;
+    annotations.push(ann);
+    for (const dict of dicts) consumed.add(dict);
+    return true;
+  };
+
+  for (let pageIndex = 0; pageIndex < pdfDoc.getPageCount(); pageIndex++) {
+    const page = pageIndex + 1;
+    const rotation = normalizeRotation(pdfDoc.getPage(pageIndex).getRotation().angle);
+    // Comments by the dictionary replies point at with /IRT
+    const threads = new Map<PDFDict, PdfAnnotation>();
+
+    const noteOn = (dict: PDFDict, x: number, y: number, fallback: string): PdfAnnotation | null => {
+      const first = entryOf(dict, `${fallback}-0`);
+      if (!first) return null;
+      const comment: PdfAnnotation = {
+        id: idFor(dict, fallback), type: "comment", page, x, y, color: colorOf(dict, "C"), thread: [first], resolved: false,
+      };
+      if (!validateAnnotation(comment).ok) return null;
+      annotations.push(comment);
+      threads.set(dict, comment);
+      return comment;
+    };
+
+    const annots = pageAnnots(pdfDoc, pageIndex);
+    const replies: Annot[] = [];
+
+    annots.forEach(({ dict, subtype }, i) => {
+      const fallback = `imported-${page}-${i}`;
+      if (subtype === "Text" && dict.has(PDFName.of("IRT"))) {
+        replies.push({ dict, subtype });
+        return;
+      }
+      if (isHidden(dict)) return;
+      const rect = rectOf(dict);
+      if (!rect) return;
+      const [llx, lly, urx, ury] = rect;
+      const box = { x: llx, y: lly, width: urx - llx, height: ury - lly };
+
+      if (subtype === "Text") {
+        if (noteOn(dict, llx, ury, fallback)) consumed.add(dict);
+        return;
+      }
+
+      let imported = false;
+      if (subtype === "Square") {
+        imported = take({ id: idFor(dict, fallback), type: "rect", page, ...box, color: colorOf(dict, "IC") ?? colorOf(dict, "C") }, dict);
+      }
+      const markup = MARKUP_TYPES.get(subtype);
+      if (markup) {
+        const quads = quadsOf(dict);
+        imported = take(
+          { id: idFor(dict, fallback), type: markup, page, ...box, quads: quads.length ? quads : [box], color: colorOf(dict, "C") },
+          dict
+        );
+      }
+      // Marked for redaction but not yet applied; export applies it
+      if (subtype === "Redact") {
+        const quads = quadsOf(dict);
+        imported = take(
+          { id: idFor(dict, fallback), type: "redact", page, ...box, ...(quads.length ? { quads } : {}), color: colorOf(dict, "IC") },
+          dict
+        );
+      }
+      if (subtype === "Ink") {
+        const inkList = dict.lookup(PDFName.of("InkList"));
+        const strokes = inkList instanceof PDFArray ? inkList.asArray().map(stroke => numbersOf(dict, stroke)) : [];
+        // Relative to the top-left of the Rect, y down, like the paths we draw
+        const path = strokes
+          .map(points => {
+            const segments = [];
+            for (let p = 0; p + 1 < points.length; p += 2) {
+              segments.push(`${p ? "L" : "M"} ${(points[p] - llx).toFixed(2)} ${(ury - points[p + 1]).toFixed(2)}`);
+            }
+            return segments.join(" ");
+          })
+          .join(" ");
+        imported = path !== "" && take(
+          { id: idFor(dict, fallback), type: "path", page, x: llx, y: ury, path, color: colorOf(dict, "C") ?? "#000000", strokeWidth: strokeWidthOf(dict) },
+          dict
+        );
+      }
+      if (subtype === "FreeText") {
+        const da = textOf(dict, "DA") ?? "";
+        const fontSize = Math.min(Number(da.match(/([\d.]+)\s+Tf/)?.[1]) || 12, 1000);
+        const rgb = da.match(/([\d.]+)\s+([\d.]+)\s+([\d.]+)\s+rg/);
+        const gray = da.match(/([\d.]+)\s+g\b/);
+        const color = toHex(rgb ? rgb.slice(1, 4).map(Number) : gray ? [Number(gray[1])] : [0]);
+        // Rect is the rotated box around the lines; find the first baseline in it
+        const top = fontSize * HELVETICA_ASCENT;
+        const origin = {
+          0: { x: llx, y: ury - top },
+          90: { x: llx + top, y: lly },
+          180: { x: urx, y: lly + top },
+          270: { x: urx - top, y: ury },
+        }[rotation];
+        const text = (textOf(dict, "Contents") ?? "").replace(/\r\n?/g, "\n");
+        if (text.trim()) take({ id: idFor(dict, fallback), type: "text", page, ...origin, text, fontSize, color }, dict);
+        return;
+      }
+
+      // A note written on the markup itself becomes a comment at its corner
+      if (imported && textOf(dict, "Contents")?.trim()) noteOn(dict, llx, ury, `${fallback}-note`);
+    });
+
+    // Replies and review states, once every thread they could belong to exists
+    replies.forEach(({ dict }, i) => {
+      const fallback = `imported-${page}-reply-${i}`;
+      const target = dict.lookup(PDFName.of("IRT"));
+      const comment = target instanceof PDFDict ? threads.get(target) : undefined;
+      const state = textOf(dict, "State");
+      if (dict.has(PDFName.of("StateModel")) || state) {
+        if (comment) {
+          comment.resolved = state === "Completed" || state === "Accepted";
+          consumed.add(dict);
+        }
+        return;
+      }
+      const entry = entryOf(dict, fallback);
+      if (comment && entry && (comment.thread?.length ?? 0) < MAX_THREAD_LENGTH) {
+        comment.thread = [...(comment.thread ?? []), entry];
+        consumed.add(dict);
+      } else if (!isHidden(dict)) {
+        const rect = rectOf(dict);
+        if (rect && noteOn(dict, rect[0], rect[3], fallback)) consumed.add(dict);
+      }
+    });
+  }
+
+  return { annotations, consumed };
+}
+
+/**
+ * Highlight, Underline, StrikeOut, Redact, Ink, FreeText, Square and Text (sticky note)
+ * annotations, as session annotations. Replies to a note join its thread.
+ */
+export function importAnnotations(pdfDoc: PDFDocument): PdfAnnotation[] {
+  return collect(pdfDoc).annotations;
+}
+
+/** Takes out of the pages whatever `importAnnotations` would bring in, with their popups. */
+export function removeImportedAnnotations(pdfDoc: PDFDocument) {
+  const { consumed } = collect(pdfDoc);
+  if (!consumed.size) return;
+
+  for (const page of pdfDoc.getPages()) {
+    const annots = page.node.Annots();
+    if (!annots) continue;
+    const kept = annots.asArray().filter(entry => {
+      const dict = pdfDoc.context.lookup(entry);
+      if (!(dict instanceof PDFDict)) return true;
+      if (consumed.has(dict)) return false;
+      const parent = dict.lookup(PDFName.of("Parent"));
+      return !(parent instanceof PDFDict && consumed.has(parent));
+    });
+    if (kept.length !== annots.size()) page.node.set(PDFName.of("Annots"), pdfDoc.context.obj(kept));
+  }
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { PDFDocument, PDFName, StandardFonts } from "pdf-lib";
+import { extractText, getDocumentProxy } from "unpdf";
+import type { PdfAnnotation } from "./annotations";
+import { applyEditsToPdf, EXPORT_MODES, redactPdf } from "./pdf-export";
+import { RedactionError } from "./pdf-redact";
+
+const SECRET = "SECRET-4471";
+const FONT_SIZE = 14;
+
+// A page with a public line and, below it, a line to redact, and the redaction covering that line
+async function documentWithSecret(): Promise<{ pdf: Uint8Array; redaction: PdfAnnotation }> {
+  const pdfDoc = await PDFDocument.create();
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const page = pdfDoc.addPage([400, 300]);
+  page.drawText("Public line", { x: 50, y: 200, size: FONT_SIZE, font });
+  page.drawText(`Account ${SECRET}`, { x: 50, y: 150, size: FONT_SIZE, font });
+
+  const x = 50 + font.widthOfTextAtSize("Account ", FONT_SIZE);
+  const redaction: PdfAnnotation = {
+    id: "redaction", type: "redact", page: 1,
+    x: x - 1, y: 150 - 4, width: font.widthOfTextAtSize(SECRET, FONT_SIZE) + 2, height: FONT_SIZE + 4,
+  };
+  return { pdf: await pdfDoc.save(), redaction };
+}
+
+async function textOf(pdf: Uint8Array): Promise<string> {
+  const { text } = await extractText(await getDocumentProxy(pdf), { mergePages: true });
+  return text;
+}
+
+describe.each(EXPORT_MODES)("redacting, exported as %s", (mode) => {
+  it("takes the redacted text out of the file and leaves the rest", async () => {
+    const { pdf, redaction } = await documentWithSecret();
+    expect(await textOf(pdf.slice())).toContain(SECRET);
+
+    const text = await textOf(await applyEditsToPdf(pdf, [redaction], [], { mode }));
+    expect(text).not.toContain(SECRET);
+    expect(text).not.toContain("4471");
+    expect(text).toContain("Public line");
+    expect(text).toContain("Account");
+  });
+});
+
+describe("redactPdf", () => {
+  it("takes the redacted text out of the original and adds nothing", async () => {
+    const { pdf, redaction } = await documentWithSecret();
+    const redacted = await redactPdf(pdf, [redaction]);
+    const text = await textOf(redacted.slice());
+    expect(text).not.toContain("4471");
+    expect(text).toContain("Public line");
+    expect((await PDFDocument.load(redacted)).getPage(0).node.Annots()?.size() ?? 0).toBe(0);
+  });
+});
+
+describe("redacting a page with content that can't be decoded", () => {
+  async function withUndecodableStream(pdf: Uint8Array): Promise<Uint8Array> {
+    const pdfDoc = await PDFDocument.load(pdf);
+    const stream = pdfDoc.context.stream("BT /F1 12 Tf (hidden) Tj ET", { Filter: PDFName.of("JBIG2Decode") });
+    pdfDoc.getPage(0).node.addContentStream(pdfDoc.context.register(stream));
+    return pdfDoc.save();
+  }
+
+  it("fails the export rather than drop or keep what the stream draws", async () => {
+    const { pdf, redaction } = await documentWithSecret();
+    await expect(applyEditsToPdf(await withUndecodableStream(pdf), [redaction])).rejects.toThrow(RedactionError);
+  });
+
+  it("still exports the page without redactions", async () => {
+    const { pdf } = await documentWithSecret();
+    await expect(applyEditsToPdf(await withUndecodableStream(pdf), [])).resolves.toBeInstanceOf(Uint8Array);
+  });
+});
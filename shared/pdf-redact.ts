@@ -0,0 +1,989 @@
+// Takes what lies under redaction marks out of the pages themselves. Painting
+// over content only hides it; the text would still be there to select, copy
+// and extract. Only the affected parts of each content stream are rewritten.
+import {
+  decodePDFRawStream,
+  PDFArray,
+  PDFBool,
+  PDFContentStream,
+  PDFDict,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  PDFString,
+  StandardFontEmbedder,
+  StandardFonts,
+  type PDFContext,
+  type PDFDocument,
+  type PDFObject,
+  type PDFPage,
+} from "pdf-lib";
+import { overlaps, type Rect } from "./geometry";
+import { parseContentStream, writeContentStream, type ContentOperand, type ContentOperation } from "./pdf-content";
+
+export type Matrix = [number, number, number, number, number, number];
+type Dict = NonNullable<Parameters<PDFContext["flateStream"]>[1]>;
+type StandardFontName = Parameters<typeof StandardFontEmbedder.for>[0];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+// Forms can draw forms; this stops ones that (directly or not) draw themselves
+const MAX_FORM_DEPTH = 12;
+// Glyph box in em when the font doesn't give one
+const DEFAULT_ASCENT = 0.8;
+const DEFAULT_DESCENT = -0.2;
+const DEFAULT_WIDTH = 0.5;
+// Zero-width glyphs still leave marks on the page
+const MIN_GLYPH_WIDTH = 0.1;
+// Shorter fragments of redacted text would match most metadata
+const MIN_MATCH_LENGTH = 3;
+// Larger ranges in a font's tables are broken, not real
+const MAX_RANGE = 0xffff;
+// Replacement text that would otherwise carry the redacted words along
+const REPLACEMENT_TEXT_KEYS = ["ActualText", "Alt", "E"];
+const STREAM_KEYS = ["Length", "Filter", "DecodeParms"];
+
+const PATH_OPERATORS = new Set(["m", "l", "c", "v", "y", "h", "re", "W", "W*"]);
+const PAINT_OPERATORS = new Set(["S", "s", "f", "F", "f*", "B", "B*", "b", "b*", "n"]);
+const STROKE_OPERATORS = new Set(["S", "s", "B", "B*", "b", "b*"]);
+
+// --- Geometry ---
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[1] * n[2],
+    m[0] * n[1] + m[1] * n[3],
+    m[2] * n[0] + m[3] * n[2],
+    m[2] * n[1] + m[3] * n[3],
+    m[4] * n[0] + m[5] * n[2] + n[4],
+    m[4] * n[1] + m[5] * n[3] + n[5],
+  ];
+}
+
+function invert([a, b, c, d, e, f]: Matrix): Matrix | null {
+  const det = a * d - b * c;
+  if (!det) return null;
+  return [d / det, -b / det, -c / det, a / det, (c * f - d * e) / det, (b * e - a * f) / det];
+}
+
+function translate(m: Matrix, tx: number, ty: number): Matrix {
+  return multiply([1, 0, 0, 1, tx, ty], m);
+}
+
+/** Box around (x0, y0)-(x1, y1) once transformed by `m`. */
+function bounds(m: Matrix, x0: number, y0: number, x1: number, y1: number): Rect {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (const [x, y] of [[x0, y0], [x1, y0], [x0, y1], [x1, y1]]) {
+    xs.push(x * m[0] + y * m[2] + m[4]);
+    ys.push(x * m[1] + y * m[3] + m[5]);
+  }
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+function union(a: Rect | null, b: Rect): Rect {
+  if (!a) return b;
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return { x, y, width: Math.max(a.x + a.width, b.x + b.width) - x, height: Math.max(a.y + a.height, b.y + b.height) - y };
+}
+
+// --- Reading PDF objects ---
+
+function streamBytes(stream: PDFObject | undefined): Uint8Array | null {
+  try {
+    if (stream instanceof PDFRawStream) return decodePDFRawStream(stream).decode();
+    if (stream instanceof PDFContentStream) return stream.getUnencodedContents();
+  } catch {
+    // An unsupported filter
+  }
+  return null;
+}
+
+function latin1(bytes: Uint8Array): string {
+  let out = "";
+  for (const byte of bytes) out += String.fromCharCode(byte);
+  return out;
+}
+
+function numberIn(dict: PDFDict | undefined, key: string): number | undefined {
+  const value = dict?.lookup(PDFName.of(key));
+  return value instanceof PDFNumber ? value.asNumber() : undefined;
+}
+
+function numbersIn(dict: PDFDict | undefined, key: string): number[] | undefined {
+  const value = dict?.lookup(PDFName.of(key));
+  if (!(value instanceof PDFArray)) return undefined;
+  const numbers = value.asArray().map(item => {
+    const n = dict!.context.lookup(item);
+    return n instanceof PDFNumber ? n.asNumber() : NaN;
+  });
+  return numbers.every(Number.isFinite) ? numbers : undefined;
+}
+
+function dictIn(dict: PDFDict | undefined, key: string): PDFDict | undefined {
+  const value = dict?.lookup(PDFName.of(key));
+  return value instanceof PDFDict ? value : undefined;
+}
+
+function nameIn(dict: PDFDict | undefined, key: string): string | undefined {
+  const value = dict?.lookup(PDFName.of(key));
+  return value instanceof PDFName ? value.decodeText() : undefined;
+}
+
+/** A stream's dictionary, minus what describes its old encoding, ready to build a copy. */
+function copyDict(dict: PDFDict): Dict {
+  const copy: Dict = {};
+  for (const [key, value] of dict.entries()) {
+    if (!STREAM_KEYS.includes(key.decodeText())) copy[key.decodeText()] = value;
+  }
+  return copy;
+}
+
+// --- Fonts ---
+
+interface FontInfo {
+  // Splits a string operand into character codes
+  codes(bytes: Uint8Array): { code: number; length: number }[];
+  // Advance in text space units at a font size of 1
+  width(code: number): number;
+  text(code: number): string;
+  ascent: number;
+  descent: number;
+}
+
+interface Codespace {
+  length: number;
+  low: number;
+  high: number;
+}
+
+const ONE_BYTE: Codespace[] = [{ length: 1, low: 0, high: 0xff }];
+const TWO_BYTES: Codespace[] = [{ length: 2, low: 0, high: 0xffff }];
+
+function splitCodes(bytes: Uint8Array, codespace: Codespace[]): { code: number; length: number }[] {
+  const codes = [];
+  for (let pos = 0; pos < bytes.length;) {
+    let match: { code: number; length: number } | undefined;
+    for (const { length, low, high } of codespace) {
+      if (pos + length > bytes.length) continue;
+      let code = 0;
+      for (let i = 0; i < length; i++) code = code * 256 + bytes[pos + i];
+      if (code >= low && code <= high) {
+        match = { code, length };
+        break;
+      }
+    }
+    // Bytes outside every range still take up a code of the shortest length
+    match ??= { code: bytes[pos], length: Math.min(codespace[0].length, bytes.length - pos) };
+    codes.push(match);
+    pos += match.length;
+  }
+  return codes;
+}
+
+function utf16(hex: string): string {
+  if (hex.length <= 2) return String.fromCharCode(parseInt(hex || "0", 16));
+  let out = "";
+  for (let i = 0; i + 3 < hex.length; i += 4) out += String.fromCharCode(parseInt(hex.slice(i, i + 4), 16));
+  return out;
+}
+
+function parseCodespace(cmap: string): Codespace[] {
+  const ranges: Codespace[] = [];
+  for (const [, block] of cmap.matchAll(/begincodespacerange([\s\S]*?)endcodespacerange/g)) {
+    for (const [, low, high] of block.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>/g)) {
+      ranges.push({ length: low.length / 2, low: parseInt(low, 16), high: parseInt(high, 16) });
+    }
+  }
+  return ranges.sort((a, b) => a.length - b.length);
+}
+
+/** Code to text from a ToUnicode CMap (bfchar and bfrange sections). */
+function parseToUnicode(stream: PDFObject | undefined): Map<number, string> {
+  const map = new Map<number, string>();
+  const bytes = streamBytes(stream);
+  if (!bytes) return map;
+  const cmap = latin1(bytes);
+
+  for (const [, block] of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const [, code, text] of block.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+      map.set(parseInt(code, 16), utf16(text));
+    }
+  }
+  for (const [, block] of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const [, lowHex, highHex, target] of block.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g)) {
+      const low = parseInt(lowHex, 16);
+      const high = Math.min(parseInt(highHex, 16), low + MAX_RANGE);
+      if (target.startsWith("[")) {
+        const texts = [...target.matchAll(/<([0-9a-fA-F]*)>/g)].map(m => utf16(m[1]));
+        texts.forEach((text, i) => low + i <= high && map.set(low + i, text));
+      } else {
+        // Later codes increment the last character of the first one's text
+        const base = utf16(target.slice(1, -1));
+        const last = base.charCodeAt(base.length - 1);
+        for (let code = low; code <= high; code++) {
+          map.set(code, base.slice(0, -1) + String.fromCharCode(last + code - low));
+        }
+      }
+    }
+  }
+  return map;
+}
+
+/** Glyph names from an /Encoding /Differences array that we can turn back into text. */
+function parseDifferences(encoding: PDFObject | undefined): Map<number, string> {
+  const map = new Map<number, string>();
+  const differences = encoding instanceof PDFDict ? encoding.lookup(PDFName.of("Differences")) : undefined;
+  if (!(differences instanceof PDFArray)) return map;
+  let code = 0;
+  for (const item of differences.asArray()) {
+    if (item instanceof PDFNumber) {
+      code = item.asNumber();
+    } else if (item instanceof PDFName) {
+      const name = item.decodeText();
+      const uni = name.match(/^uni([0-9A-Fa-f]{4})$/);
+      if (name.length === 1) map.set(code, name);
+      else if (uni) map.set(code, String.fromCharCode(parseInt(uni[1], 16)));
+      else if (name === "space") map.set(code, " ");
+      code++;
+    }
+  }
+  return map;
+}
+
+/** /W of a CIDFont: `first [w1 w2 ...]` and `first last w` runs, in 1/1000 em. */
+function parseCidWidths(font: PDFDict): Map<number, number> {
+  const widths = new Map<number, number>();
+  const w = font.lookup(PDFName.of("W"));
+  if (!(w instanceof PDFArray)) return widths;
+  const items = w.asArray().map(item => font.context.lookup(item));
+  const num = (item: PDFObject | undefined) => (item instanceof PDFNumber ? item.asNumber() : NaN);
+  for (let i = 0; i < items.length;) {
+    const first = num(items[i]);
+    const next = items[i + 1];
+    if (next instanceof PDFArray) {
+      next.asArray().forEach((width, j) => widths.set(first + j, num(font.context.lookup(width))));
+      i += 2;
+    } else {
+      const last = Math.min(num(next), first + MAX_RANGE);
+      const width = num(items[i + 2]);
+      for (let cid = first; cid <= last; cid++) widths.set(cid, width);
+      i += 3;
+    }
+  }
+  return widths;
+}
+
+/** The standard 14 font a font without /Widths most likely is. */
+function standardFontFor(baseFont: string): StandardFontName {
+  const name = baseFont.replace(/^[A-Z]{6}\+/, "");
+  if ((Object.values(StandardFonts) as string[]).includes(name)) return name as StandardFontName;
+  const bold = /bold|black|heavy/i.test(name);
+  const italic = /italic|oblique/i.test(name);
+  if (/symbol/i.test(name)) return StandardFonts.Symbol as string as StandardFontName;
+  if (/dingbats/i.test(name)) return StandardFonts.ZapfDingbats as string as StandardFontName;
+  if (/courier|mono/i.test(name)) {
+    return `Courier${bold || italic ? "-" : ""}${bold ? "Bold" : ""}${italic ? "Oblique" : ""}` as StandardFontName;
+  }
+  if (/times|serif|georgia|garamond/i.test(name)) {
+    return `Times-${bold ? "Bold" : ""}${italic ? "Italic" : ""}${bold || italic ? "" : "Roman"}` as StandardFontName;
+  }
+  return `Helvetica${bold || italic ? "-" : ""}${bold ? "Bold" : ""}${italic ? "Oblique" : ""}` as StandardFontName;
+}
+
+function metricsOf(descriptor: PDFDict | undefined, scale: number): { ascent: number; descent: number } {
+  const ascent = (numberIn(descriptor, "Ascent") ?? 0) * scale;
+  const descent = (numberIn(descriptor, "Descent") ?? 0) * scale;
+  return { ascent: ascent > 0 ? ascent : DEFAULT_ASCENT, descent: descent < 0 ? descent : DEFAULT_DESCENT };
+}
+
+function loadFont(dict: PDFDict): FontInfo {
+  const toUnicode = parseToUnicode(dict.lookup(PDFName.of("ToUnicode")));
+
+  if (nameIn(dict, "Subtype") === "Type0") {
+    const descendants = dict.lookup(PDFName.of("DescendantFonts"));
+    const cidFont = descendants instanceof PDFArray ? dict.context.lookup(descendants.get(0)) : undefined;
+    const descendant = cidFont instanceof PDFDict ? cidFont : undefined;
+    const widths = descendant ? parseCidWidths(descendant) : new Map<number, number>();
+    const defaultWidth = numberIn(descendant, "DW") ?? 1000;
+    const encoding = dict.lookup(PDFName.of("Encoding"));
+    const cmap = streamBytes(encoding);
+    const codespace = cmap ? parseCodespace(latin1(cmap)) : [];
+    return {
+      // Predefined CMaps other than Identity are taken as two bytes per code, like Identity
+      codes: bytes => splitCodes(bytes, codespace.length ? codespace : TWO_BYTES),
+      width: code => (widths.get(code) ?? defaultWidth) / 1000,
+      text: code => toUnicode.get(code) ?? "",
+      ...metricsOf(dictIn(descendant, "FontDescriptor"), 0.001),
+    };
+  }
+
+  // Type 3 glyphs are drawn in their own space, scaled by /FontMatrix
+  const scale = numbersIn(dict, "FontMatrix")?.[0] ?? 0.001;
+  const widths = numbersIn(dict, "Widths");
+  const firstChar = numberIn(dict, "FirstChar") ?? 0;
+  const descriptor = dictIn(dict, "FontDescriptor");
+  const missingWidth = numberIn(descriptor, "MissingWidth");
+  const differences = parseDifferences(dict.lookup(PDFName.of("Encoding")));
+  const text = (code: number) => toUnicode.get(code) ?? differences.get(code) ?? String.fromCharCode(code);
+
+  let width: (code: number) => number;
+  if (widths) {
+    width = code => {
+      const w = widths[code - firstChar] ?? missingWidth;
+      return w === undefined ? DEFAULT_WIDTH : w * scale;
+    };
+  } else {
+    // Only the standard 14 fonts may leave out /Widths; pdf-lib knows their metrics
+    const embedder = StandardFontEmbedder.for(standardFontFor(nameIn(dict, "BaseFont") ?? ""));
+    width = code => {
+      try {
+        return embedder.widthOfTextAtSize(text(code), 1);
+      } catch {
+        return DEFAULT_WIDTH;
+      }
+    };
+  }
+  return { codes: bytes => splitCodes(bytes, ONE_BYTE), width, text, ...metricsOf(descriptor, scale) };
+}
+
+// Used when text is shown before any font is set, which a broken file can do
+const FALLBACK_FONT: FontInfo = {
+  codes: bytes => splitCodes(bytes, ONE_BYTE),
+  width: () => DEFAULT_WIDTH,
+  text: code => String.fromCharCode(code),
+  ascent: DEFAULT_ASCENT,
+  descent: DEFAULT_DESCENT,
+};
+
+// --- Images ---
+
+function componentsOf(context: PDFContext, colorSpace: PDFObject | undefined): number | null {
+  const space = context.lookup(colorSpace);
+  const family = space instanceof PDFName ? space : space instanceof PDFArray ? context.lookup(space.get(0)) : undefined;
+  if (!(family instanceof PDFName)) return null;
+  switch (family.decodeText()) {
+    case "DeviceGray": case "CalGray": case "Indexed": case "Separation": case "G": case "I": return 1;
+    case "DeviceRGB": case "CalRGB": case "Lab": case "RGB": return 3;
+    case "DeviceCMYK": case "CMYK": return 4;
+    case "ICCBased": {
+      const profile = space instanceof PDFArray ? context.lookup(space.get(1)) : undefined;
+      return profile instanceof PDFStream ? (numberIn(profile.dict, "N") ?? null) : null;
+    }
+    case "DeviceN": {
+      const names = space instanceof PDFArray ? context.lookup(space.get(1)) : undefined;
+      return names instanceof PDFArray ? names.size() : null;
+    }
+    default: return null;
+  }
+}
+
+// --- Content ---
+
+interface Rewritten {
+  content: Uint8Array;
+  resources: PDFDict | undefined;
+}
+
+interface GraphicsState {
+  ctm: Matrix;
+  font: FontInfo;
+  fontSize: number;
+  charSpacing: number;
+  wordSpacing: number;
+  // Horizontal scaling, 1 = 100%
+  scale: number;
+  leading: number;
+  rise: number;
+  lineWidth: number;
+}
+
+/** A glyph the page shows, with the user space box it's drawn in. */
+export interface Glyph {
+  text: string;
+  box: Rect;
+}
+
+/** An image XObject the page draws, filling the unit square of `ctm`. */
+export interface PlacedImage {
+  image: PDFRawStream;
+  ctm: Matrix;
+}
+
+/** What a page draws, in content order, see `readPageContents`. */
+export interface PageContents {
+  glyphs: Glyph[];
+  images: PlacedImage[];
+}
+
+class ContentRedactor {
+  // Text taken off the page, one entry per run of consecutive removed glyphs
+  readonly removedText: string[] = [];
+  private run = "";
+  private readonly context: PDFContext;
+  private readonly areas: Rect[];
+  private readonly fonts: Map<PDFDict, FontInfo>;
+  // Everything drawn, when we're asked for it
+  private readonly contents: PageContents | undefined;
+
+  constructor(context: PDFContext, areas: Rect[], fonts: Map<PDFDict, FontInfo>, contents?: PageContents) {
+    this.context = context;
+    this.areas = areas;
+    this.fonts = fonts;
+    this.contents = contents;
+  }
+
+  private covered(rect: Rect): boolean {
+    return this.areas.some(area => overlaps(area, rect));
+  }
+
+  private endRun() {
+    if (this.run.trim()) this.removedText.push(this.run);
+    this.run = "";
+  }
+
+  /** Ends the text collected so far; call once the page is done. */
+  finish() {
+    this.endRun();
+  }
+
+  private font(resources: PDFDict | undefined, name: string): FontInfo {
+    const dict = dictIn(dictIn(resources, "Font"), name);
+    if (!dict) return FALLBACK_FONT;
+    let font = this.fonts.get(dict);
+    if (!font) {
+      font = loadFont(dict);
+      this.fonts.set(dict, font);
+    }
+    return font;
+  }
+
+  /**
+   * A copy of an image with the pixels under the areas blacked out, or null
+   * when we can't decode it (JPEG, JPEG 2000, fax and JBIG2 data, or anything
+   * but 8 bits per component) and the whole image has to go.
+   */
+  private redactImage(image: PDFRawStream, ctm: Matrix): PDFRawStream | null {
+    const { dict } = image;
+    const width = numberIn(dict, "Width") ?? 0;
+    const height = numberIn(dict, "Height") ?? 0;
+    const components = componentsOf(this.context, dict.get(PDFName.of("ColorSpace")));
+    const inverse = invert(ctm);
+    if (!width || !height || !components || !inverse) return null;
+    if (numberIn(dict, "BitsPerComponent") !== 8 || dict.lookup(PDFName.of("ImageMask")) === PDFBool.True) return null;
+
+    const decoded = streamBytes(image);
+    if (!decoded || decoded.length < width * height * components) return null;
+    const data = decoded.slice();
+
+    // Images fill the unit square of their CTM, first row at the top
+    for (const area of this.areas) {
+      const box = bounds(inverse, area.x, area.y, area.x + area.width, area.y + area.height);
+      const clamp = (value: number, max: number) => Math.min(max, Math.max(0, value));
+      const left = clamp(Math.floor(box.x * width), width);
+      const right = clamp(Math.ceil((box.x + box.width) * width), width);
+      const top = clamp(Math.floor((1 - box.y - box.height) * height), height);
+      const bottom = clamp(Math.ceil((1 - box.y) * height), height);
+      for (let row = top; row < bottom; row++) {
+        data.fill(0, (row * width + left) * components, (row * width + right) * components);
+      }
+    }
+    return this.context.flateStream(data, copyDict(dict));
+  }
+
+  /**
+   * Rewrites one content stream, drawn with `base` as its CTM. Returns null
+   * when nothing in it is under an area, so untouched streams stay as they were.
+   * The resources to draw the result with may be a copy of `resources`.
+   */
+  redact(bytes: Uint8Array, resources: PDFDict | undefined, base: Matrix, depth = 0): Rewritten | null {
+    const out: ContentOperation[] = [];
+    let changed = false;
+    // Copied before the first XObject is swapped, so whatever else shares
+    // `resources` keeps the originals; names we stop using are dropped from the copy
+    let ownResources = resources;
+    let xobjects: PDFDict | undefined;
+    const replaced = new Set<string>();
+    const replaceXObject = (name: string, stream: PDFStream | null): ContentOperation[] => {
+      replaced.add(name);
+      if (!xobjects) {
+        ownResources = resources?.clone() ?? this.context.obj({});
+        xobjects = dictIn(resources, "XObject")?.clone() ?? this.context.obj({});
+        ownResources.set(PDFName.of("XObject"), xobjects);
+      }
+      if (!stream) return [];
+      let n = 1;
+      while (xobjects.has(PDFName.of(`Redacted${n}`))) n++;
+      xobjects.set(PDFName.of(`Redacted${n}`), this.context.register(stream));
+      return [{ operator: "Do", operands: [{ kind: "name", value: `Redacted${n}` }] }];
+    };
+    let state: GraphicsState = {
+      ctm: base, font: FALLBACK_FONT, fontSize: 0, charSpacing: 0, wordSpacing: 0, scale: 1, leading: 0, rise: 0, lineWidth: 1,
+    };
+    const saved: GraphicsState[] = [];
+    let textMatrix = IDENTITY;
+    let lineMatrix = IDENTITY;
+    // The path being built, held back until we know whether it gets painted over an area
+    let path: ContentOperation[] = [];
+    // Only ever widened inside `addPoint`, so TypeScript mustn't narrow it to null
+    let pathBounds = null as Rect | null;
+    let clipping = false;
+    // Open marked-content sequences: where their BDC went in `out`, and whether anything in them was removed
+    const marked: { index: number; hit: boolean }[] = [];
+
+    const removed = () => {
+      changed = true;
+      for (const mark of marked) mark.hit = true;
+    };
+    const addPoint = (x: number, y: number) => {
+      pathBounds = union(pathBounds, bounds(state.ctm, x, y, x, y));
+    };
+    const nextLine = (tx: number, ty: number) => {
+      lineMatrix = translate(lineMatrix, tx, ty);
+      textMatrix = lineMatrix;
+    };
+
+    for (const op of parseContentStream(bytes)) {
+      const n = op.operands.map(operand => (operand.kind === "number" ? operand.value : NaN));
+
+      if (PATH_OPERATORS.has(op.operator)) {
+        if (op.operator === "W" || op.operator === "W*") clipping = true;
+        if (op.operator === "re" && n.length === 4) {
+          addPoint(n[0], n[1]);
+          addPoint(n[0] + n[2], n[1] + n[3]);
+        } else {
+          for (let i = 0; i + 1 < n.length; i += 2) addPoint(n[i], n[i + 1]);
+        }
+        path.push(op);
+        continue;
+      }
+
+      if (PAINT_OPERATORS.has(op.operator)) {
+        const scale = Math.sqrt(Math.abs(state.ctm[0] * state.ctm[3] - state.ctm[1] * state.ctm[2]));
+        const pad = STROKE_OPERATORS.has(op.operator) ? (state.lineWidth * scale) / 2 : 0;
+        const area = pathBounds;
+        if (op.operator !== "n" && area && this.covered({
+          x: area.x - pad, y: area.y - pad, width: area.width + pad * 2, height: area.height + pad * 2,
+        })) {
+          removed();
+          // A clipping path still has to clip what follows; it just isn't painted
+          if (clipping) out.push(...path, { operator: "n", operands: [] });
+        } else {
+          out.push(...path, op);
+        }
+        path = [];
+        pathBounds = null;
+        clipping = false;
+        continue;
+      }
+      // A path that was never painted
+      out.push(...path);
+      path = [];
+      pathBounds = null;
+      clipping = false;
+
+      switch (op.operator) {
+        case "q":
+          saved.push({ ...state });
+          break;
+        case "Q":
+          state = saved.pop() ?? state;
+          break;
+        case "cm":
+          if (n.length === 6 && n.every(Number.isFinite)) state.ctm = multiply(n as Matrix, state.ctm);
+          break;
+        case "w":
+          if (Number.isFinite(n[0])) state.lineWidth = n[0];
+          break;
+        case "BT":
+          textMatrix = lineMatrix = IDENTITY;
+          break;
+        case "Tf": {
+          const name = op.operands[0];
+          state.font = name?.kind === "name" ? this.font(resources, name.value) : FALLBACK_FONT;
+          if (Number.isFinite(n[1])) state.fontSize = n[1];
+          break;
+        }
+        case "Tc":
+          if (Number.isFinite(n[0])) state.charSpacing = n[0];
+          break;
+        case "Tw":
+          if (Number.isFinite(n[0])) state.wordSpacing = n[0];
+          break;
+        case "Tz":
+          if (Number.isFinite(n[0])) state.scale = n[0] / 100;
+          break;
+        case "TL":
+          if (Number.isFinite(n[0])) state.leading = n[0];
+          break;
+        case "Ts":
+          if (Number.isFinite(n[0])) state.rise = n[0];
+          break;
+        case "Td":
+        case "TD":
+          if (n.length === 2 && n.every(Number.isFinite)) {
+            if (op.operator === "TD") state.leading = -n[1];
+            nextLine(n[0], n[1]);
+          }
+          break;
+        case "Tm":
+          if (n.length === 6 && n.every(Number.isFinite)) textMatrix = lineMatrix = n as Matrix;
+          break;
+        case "T*":
+          nextLine(0, -state.leading);
+          break;
+        case "Tj":
+        case "TJ":
+        case "'":
+        case "\"": {
+          if (op.operator === "\"" && Number.isFinite(n[0]) && Number.isFinite(n[1])) {
+            state.wordSpacing = n[0];
+            state.charSpacing = n[1];
+          }
+          if (op.operator === "'" || op.operator === "\"") nextLine(0, -state.leading);
+          const last = op.operands[op.operands.length - 1];
+          const shown = this.showText(last?.kind === "array" ? last.items : last ? [last] : [], state, textMatrix);
+          textMatrix = shown.textMatrix;
+          if (!shown.items) break;
+
+          removed();
+          // The moves and spacing ' and " make are kept as separate operators
+          if (op.operator === "\"") {
+            out.push({ operator: "Tw", operands: [op.operands[0]] }, { operator: "Tc", operands: [op.operands[1]] });
+          }
+          if (op.operator === "'" || op.operator === "\"") out.push({ operator: "T*", operands: [] });
+          out.push({ operator: "TJ", operands: [{ kind: "array", items: shown.items }] });
+          continue;
+        }
+        case "Do": {
+          const name = op.operands[0];
+          const xobject = name?.kind === "name" ? dictIn(resources, "XObject")?.lookup(PDFName.of(name.value)) : undefined;
+          if (!(xobject instanceof PDFStream) || name?.kind !== "name") break;
+          const subtype = nameIn(xobject.dict, "Subtype");
+
+          if (subtype === "Image") {
+            if (xobject instanceof PDFRawStream) this.contents?.images.push({ image: xobject, ctm: state.ctm });
+            if (!this.covered(bounds(state.ctm, 0, 0, 1, 1))) break;
+            removed();
+            out.push(...replaceXObject(name.value, xobject instanceof PDFRawStream ? this.redactImage(xobject, state.ctm) : null));
+            continue;
+          }
+          if (subtype === "Form") {
+            const matrix = numbersIn(xobject.dict, "Matrix");
+            const ctm = multiply(matrix?.length === 6 ? (matrix as Matrix) : IDENTITY, state.ctm);
+            const [x0, y0, x1, y1] = numbersIn(xobject.dict, "BBox") ?? [];
+            if (x1 !== undefined && !this.contents && !this.covered(bounds(ctm, x0, y0, x1, y1))) break;
+
+            const content = streamBytes(xobject);
+            const rewritten = content && depth < MAX_FORM_DEPTH
+              ? this.redact(content, dictIn(xobject.dict, "Resources") ?? resources, ctm, depth + 1)
+              : { content: new Uint8Array(), resources: undefined };
+            if (!rewritten) break;
+            removed();
+            const copy = this.context.flateStream(rewritten.content, {
+              ...copyDict(xobject.dict),
+              ...(rewritten.resources ? { Resources: rewritten.resources } : {}),
+            });
+            out.push(...replaceXObject(name.value, copy));
+            continue;
+          }
+          break;
+        }
+        case "BI":
+          if (!this.covered(bounds(state.ctm, 0, 0, 1, 1))) break;
+          removed();
+          continue;
+        case "BMC":
+          marked.push({ index: -1, hit: false });
+          break;
+        case "BDC":
+          marked.push({ index: out.length, hit: false });
+          break;
+        case "EMC": {
+          const mark = marked.pop();
+          if (mark?.hit && mark.index >= 0) out[mark.index] = this.withoutReplacementText(out[mark.index], resources);
+          break;
+        }
+      }
+      out.push(op);
+    }
+    out.push(...path);
+    if (!changed) return null;
+
+    for (const name of replaced) {
+      const used = out.some(op => op.operator === "Do" && op.operands[0]?.kind === "name" && op.operands[0].value === name);
+      if (!used) xobjects?.delete(PDFName.of(name));
+    }
+    return { content: writeContentStream(bytes, out), resources: ownResources };
+  }
+
+  /**
+   * Shows text glyph by glyph, dropping those under an area. Returns the TJ
+   * array to show instead, with the gaps kept so the rest stays in place, or
+   * null when nothing was dropped.
+   */
+  private showText(
+    items: ContentOperand[],
+    state: GraphicsState,
+    textMatrix: Matrix
+  ): { items: ContentOperand[] | null; textMatrix: Matrix } {
+    const { font, fontSize, scale } = state;
+    const out: ContentOperand[] = [];
+    let removed = false;
+
+    const moveBy = (adjustment: number) => {
+      const last = out[out.length - 1];
+      if (last?.kind === "number") out[out.length - 1] = { kind: "number", value: last.value + adjustment };
+      else out.push({ kind: "number", value: adjustment });
+    };
+
+    for (const item of items) {
+      if (item.kind === "number") {
+        textMatrix = translate(textMatrix, (-item.value / 1000) * fontSize * scale, 0);
+        moveBy(item.value);
+        continue;
+      }
+      if (item.kind !== "string") continue;
+
+      let kept: number[] = [];
+      const flush = () => {
+        if (kept.length) out.push({ kind: "string", bytes: Uint8Array.from(kept) });
+        kept = [];
+      };
+      let offset = 0;
+      for (const { code, length } of font.codes(item.bytes)) {
+        const w0 = font.width(code);
+        const spacing = state.charSpacing + (length === 1 && code === 32 ? state.wordSpacing : 0);
+        const advance = (w0 * fontSize + spacing) * scale;
+        const glyph = bounds(
+          multiply(textMatrix, state.ctm),
+          0,
+          state.rise + font.descent * fontSize,
+          Math.max(w0, MIN_GLYPH_WIDTH) * fontSize * scale,
+          state.rise + font.ascent * fontSize
+        );
+        this.contents?.glyphs.push({ text: font.text(code), box: glyph });
+        if (this.covered(glyph)) {
+          removed = true;
+          this.run += font.text(code);
+          flush();
+          // TJ numbers are thousandths of the font size, against the writing direction
+          if (fontSize && scale) moveBy((-advance / scale / fontSize) * 1000);
+        } else {
+          this.endRun();
+          kept.push(...item.bytes.subarray(offset, offset + length));
+        }
+        offset += length;
+        textMatrix = translate(textMatrix, advance, 0);
+      }
+      flush();
+    }
+    return { items: removed ? out : null, textMatrix };
+  }
+
+  private withoutReplacementText(op: ContentOperation, resources: PDFDict | undefined): ContentOperation {
+    const [tag, properties] = op.operands;
+    if (properties?.kind === "name") {
+      // Shared property lists lose it everywhere; that only ever removes text
+      const dict = dictIn(dictIn(resources, "Properties"), properties.value);
+      for (const key of REPLACEMENT_TEXT_KEYS) dict?.delete(PDFName.of(key));
+      return op;
+    }
+    if (properties?.kind !== "dict" || !REPLACEMENT_TEXT_KEYS.some(key => properties.entries.has(key))) return op;
+    const entries = new Map(properties.entries);
+    for (const key of REPLACEMENT_TEXT_KEYS) entries.delete(key);
+    return { operator: op.operator, operands: [tag, { kind: "dict", entries }] };
+  }
+}
+
+// The page's content streams, decoded; null for any we can't decode
+function contentStreams(page: PDFPage): (Uint8Array | null)[] {
+  const contents = page.node.Contents();
+  if (!contents) return [];
+  const streams = contents instanceof PDFArray ? contents.asArray().map(ref => page.doc.context.lookup(ref)) : [contents];
+  return streams.map(streamBytes);
+}
+
+// Streams split only between tokens, so a newline is enough to join them
+function joinStreams(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length + 1, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    out[offset + part.length] = 10;
+    offset += part.length + 1;
+  }
+  return out;
+}
+
+/** Drops annotations, links and form fields that overlap an area, along with their popups. */
+function removeCoveredAnnotations(page: PDFPage, areas: Rect[]) {
+  const annots = page.node.Annots();
+  if (!annots) return;
+  const { context } = page.doc;
+  const covered = new Set<PDFDict>();
+  for (const entry of annots.asArray()) {
+    const dict = context.lookup(entry);
+    const [x0, y0, x1, y1] = dict instanceof PDFDict ? (numbersIn(dict, "Rect") ?? []) : [];
+    if (x1 === undefined || !areas.some(area => overlaps(area, bounds(IDENTITY, x0, y0, x1, y1)))) continue;
+    covered.add(dict as PDFDict);
+  }
+  if (!covered.size) return;
+
+  for (const dict of covered) {
+    // The field a widget belongs to keeps its value after the widget is gone
+    dict.delete(PDFName.of("AP"));
+    for (let field: PDFDict | undefined = dict; field; field = dictIn(field, "Parent")) field.delete(PDFName.of("V"));
+  }
+  const kept = annots.asArray().filter(entry => {
+    const dict = context.lookup(entry);
+    if (!(dict instanceof PDFDict)) return true;
+    const parent = dictIn(dict, "Parent");
+    return !covered.has(dict) && !(parent && covered.has(parent));
+  });
+  page.node.set(PDFName.of("Annots"), context.obj(kept));
+}
+
+/** Deletes document info entries and XMP metadata that repeat any of the removed text. */
+function scrubMetadata(pdfDoc: PDFDocument, removedText: string[]) {
+  const needles = new Set<string>();
+  for (const run of removedText) {
+    const words = run.toLowerCase().split(/\s+/);
+    for (const needle of [...words, words.join("")]) {
+      if (needle.length >= MIN_MATCH_LENGTH) needles.add(needle);
+    }
+  }
+  if (!needles.size) return;
+  // Runs can be split into words by spacing alone, so compare without whitespace too
+  const matches = (value: string) => {
+    const lower = value.toLowerCase();
+    const compact = lower.replace(/\s+/g, "");
+    return [...needles].some(needle => lower.includes(needle) || compact.includes(needle));
+  };
+
+  const { context } = pdfDoc;
+  const info = context.lookup(context.trailerInfo.Info);
+  if (info instanceof PDFDict) {
+    for (const [key, value] of info.entries()) {
+      const text = context.lookup(value);
+      if ((text instanceof PDFString || text instanceof PDFHexString) && matches(text.decodeText())) info.delete(key);
+    }
+  }
+  const metadata = pdfDoc.catalog.lookup(PDFName.of("Metadata"));
+  const xmp = streamBytes(metadata);
+  if (metadata && (!xmp || matches(new TextDecoder().decode(xmp)))) pdfDoc.catalog.delete(PDFName.of("Metadata"));
+}
+
+/** A page can't be redacted, so the document mustn't go out as if it had been. */
+export class RedactionError extends Error {
+  name = "RedactionError";
+}
+
+/**
+ * Removes the text, images and vector graphics under `areas` (user space, by
+ * page) from the page content, along with annotations over them and document
+ * metadata that repeats the removed text. Glyphs are removed one by one and
+ * images pixel by pixel where we can decode them; paths and images we can't
+ * decode go whole. Call `removeUnreachableObjects` before saving, or the old
+ * streams are written out too. Throws a `RedactionError` for a page with a
+ * content stream we can't decode: we can't tell what it draws under the areas.
+ */
+export function applyRedactions(pdfDoc: PDFDocument, areasByPage: Map<PDFPage, Rect[]>) {
+  const fonts = new Map<PDFDict, FontInfo>();
+  const removedText: string[] = [];
+  for (const [page, areas] of areasByPage) {
+    if (!areas.length) continue;
+    const streams = contentStreams(page);
+    if (streams.includes(null)) {
+      const number = pdfDoc.getPages().indexOf(page) + 1;
+      throw new RedactionError(`Page ${number} can't be redacted: some of its content is in a format that can't be read`);
+    }
+    const redactor = new ContentRedactor(pdfDoc.context, areas, fonts);
+    const rewritten = redactor.redact(joinStreams(streams.filter(part => part !== null)), page.node.Resources(), IDENTITY);
+    redactor.finish();
+    if (rewritten) {
+      page.node.set(PDFName.of("Contents"), pdfDoc.context.register(pdfDoc.context.flateStream(rewritten.content)));
+      if (rewritten.resources) page.node.set(PDFName.of("Resources"), rewritten.resources);
+    }
+    removeCoveredAnnotations(page, areas);
+    removedText.push(...redactor.removedText);
+  }
+  scrubMetadata(pdfDoc, removedText);
+}
+
+/**
+ * The glyphs and images on each page, in the order its content draws them.
+ * Content streams we can't decode are left out.
+ */
+export function readPageContents(pdfDoc: PDFDocument): PageContents[] {
+  const fonts = new Map<PDFDict, FontInfo>();
+  return pdfDoc.getPages().map(page => {
+    const contents: PageContents = { glyphs: [], images: [] };
+    const content = joinStreams(contentStreams(page).filter(part => part !== null));
+    new ContentRedactor(pdfDoc.context, [], fonts, contents).redact(content, page.node.Resources(), IDENTITY);
+    return contents;
+  });
+}
+
+/**
+ * An image's data as a standalone file can carry it: JPEG data as is, and
+ * 8-bit gray or RGB pixels for encoding. Null for anything else.
+ */
+export function imageData(
+  image: PDFRawStream
+): { jpeg: Uint8Array } | { pixels: Uint8Array; width: number; height: number; components: 1 | 3 } | null {
+  const { dict } = image;
+  const width = numberIn(dict, "Width") ?? 0;
+  const height = numberIn(dict, "Height") ?? 0;
+  if (!width || !height || dict.lookup(PDFName.of("ImageMask")) === PDFBool.True) return null;
+
+  const filter = dict.lookup(PDFName.of("Filter"));
+  const filters = filter instanceof PDFArray ? filter.asArray().map(f => dict.context.lookup(f)) : [filter];
+  if (filters.length === 1 && filters[0] instanceof PDFName && filters[0].asString() === "/DCTDecode") {
+    return { jpeg: image.getContents() };
+  }
+
+  // One component needn't mean gray: palettes and spot colors would come out as noise
+  const space = dict.lookup(PDFName.of("ColorSpace"));
+  const family = space instanceof PDFArray ? dict.context.lookup(space.get(0)) : space;
+  if (family instanceof PDFName && ["/Indexed", "/I", "/Separation", "/DeviceN"].includes(family.asString())) return null;
+  const components = componentsOf(dict.context, space);
+  if (numberIn(dict, "BitsPerComponent") !== 8 || (components !== 1 && components !== 3)) return null;
+  const pixels = streamBytes(image);
+  if (!pixels || pixels.length < width * height * components) return null;
+  return { pixels, width, height, components };
+}
+
+/**
+ * pdf-lib saves every object it loaded, whether or not anything still uses it:
+ * the content redactions replaced, removed pages and the annotations stripped
+ * from them would all stay in the file. This drops what the document no
+ * longer reaches.
+ */
+export function removeUnreachableObjects(pdfDoc: PDFDocument) {
+  const { context } = pdfDoc;
+  const reachable = new Set<PDFRef>();
+  const pending: (PDFObject | undefined)[] = [context.trailerInfo.Root, context.trailerInfo.Info, context.trailerInfo.Encrypt];
+  while (pending.length) {
+    const object = pending.pop();
+    if (object instanceof PDFRef) {
+      if (reachable.has(object)) continue;
+      reachable.add(object);
+      pending.push(context.lookup(object));
+    } else if (object instanceof PDFDict) {
+      pending.push(...object.values());
+    } else if (object instanceof PDFArray) {
+      pending.push(...object.asArray());
+    } else if (object instanceof PDFStream) {
+      pending.push(...object.dict.values());
+    }
+  }
+  for (const [ref] of context.enumerateIndirectObjects()) {
+    if (!reachable.has(ref)) context.delete(ref);
+  }
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import type { PdfAnnotation } from "./annotations";
+import { MAX_MESSAGE_BYTES, maySend, parseClientMessage, type ClientMessage } from "./protocol";
+
+// A valid message padded out to `length` characters of `char`
+function padded(char: string, length: number): string {
+  const message = JSON.stringify({ type: "cursor-move", x: 1, y: 2, page: 1, pad: "" });
+  return message.replace('"pad":""', `"pad":"${char.repeat(length - message.length)}"`);
+}
+
+describe("parseClientMessage", () => {
+  it("accepts a message at the size limit", () => {
+    expect(parseClientMessage(padded("a", MAX_MESSAGE_BYTES))).toMatchObject({ ok: true, value: { type: "cursor-move" } });
+  });
+
+  it("measures the limit in UTF-8 bytes, not characters", () => {
+    const message = padded("é", MAX_MESSAGE_BYTES * 0.6);
+    expect(message.length).toBeLessThan(MAX_MESSAGE_BYTES);
+    expect(parseClientMessage(message)).toEqual({ ok: false, error: `message exceeds ${MAX_MESSAGE_BYTES} bytes` });
+  });
+});
+
+describe("maySend", () => {
+  const redaction: PdfAnnotation = { id: "redaction", type: "redact", page: 1, x: 10, y: 10, width: 50, height: 12 };
+  const comment = (id: string): ClientMessage => ({
+    type: "annotation-add",
+    annotation: { id, type: "comment", page: 1, x: 20, y: 20, thread: [{ id: "entry", text: "Looks off" }] },
+  });
+
+  it("lets a commenter start a comment", () => {
+    expect(maySend("commenter", comment("new-comment"), [redaction])).toBe(true);
+  });
+
+  it("refuses a commenter's comment that reuses an existing annotation's id", () => {
+    expect(maySend("commenter", comment("redaction"), [redaction])).toBe(false);
+  });
+
+  it("leaves it to the session to refuse an editor's add that reuses an id", () => {
+    expect(maySend("editor", comment("redaction"), [redaction])).toBe(true);
+    expect(maySend("viewer", comment("new-comment"), [redaction])).toBe(false);
+  });
+});
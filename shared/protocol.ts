@@ -0,0 +1,180 @@
+// WebSocket protocol between PdfEditor and PDFSession.
+
+import { canComment, canEdit, type Role } from "./auth";
+import {
+  isId, isPageNumber, isRecord, validateAnnotation, validateAnnotationChanges, validateCommentEntry,
+  type AnnotationOp, type PageOp, type PdfAnnotation, type Validation,
+} from "./annotations";
+import { MAX_QUESTION_LENGTH, type ChatMessage, type ChatSource } from "./chat";
+import type { SummaryProgress } from "./summary";
+
+export interface Presence {
+  clientId: string;
+  name: string;
+  color: string;
+}
+
+// Clients stamp edits with the revision they were based on; the server
+// echoes accepted edits to peers with the revision they produced.
+export interface ChangeEnvelope {
+  opId?: string;
+  baseRevision?: number;
+  revision?: number;
+}
+
+export type WSMessage =
+  | { type: "sync-annotations"; annotations: PdfAnnotation[]; revision: number }
+  | (AnnotationOp & ChangeEnvelope)
+  | { type: "sync-deleted-pages"; deletedPages: number[]; revision: number }
+  | (PageOp & ChangeEnvelope)
+  | { type: "op-ack"; opId: string; revision: number }
+  | {
+      type: "conflict";
+      opId: string;
+      revision: number;
+      // "exists": an add reused the id of an annotation the document already has
+      reason: "stale" | "not-found" | "exists";
+      // Current server state of whatever the rejected change touched
+      annotation?: PdfAnnotation | null;
+      deletedPages?: number[];
+    }
+  | { type: "cursor-move"; x: number; y: number; page: number; clientId: string }
+  // `role` is what the receiving client may do with the document
+  | { type: "presence-sync"; self: Presence; clients: Presence[]; role: Role }
+  | { type: "presence-join"; client: Presence }
+  | { type: "presence-leave"; clientId: string }
+  | { type: "ai-summarize" }
+  // Stops waiting for the summary; it stops being written once nobody is
+  | { type: "ai-cancel" }
+  // `progress` while a summary runs, see `summarizePages`
+  | { type: "ai-status"; status: "thinking" | "ready" | "error"; progress?: SummaryProgress }
+  // The summary as it's written: `text` goes at `offset`, replacing anything from there on
+  | { type: "ai-chunk"; offset: number; text: string }
+  | { type: "ai-result"; text: string }
+  | { type: "chat-ask"; question: string }
+  // The conversation so far, sent on connect
+  | { type: "chat-history"; messages: ChatMessage[] }
+  | { type: "chat-question"; message: ChatMessage }
+  // An answer starts with what it's based on, then arrives a piece at a time
+  | { type: "chat-sources"; id: string; sources: ChatSource[] }
+  | { type: "chat-token"; id: string; text: string }
+  | { type: "chat-answer"; message: ChatMessage }
+  // Sent back to a client whose message was rejected; `opId` when it was an edit
+  | { type: "error"; message: string; opId?: string };
+
+/** What a client may send. Everything else is server-to-client only. */
+export type ClientMessage =
+  | (AnnotationOp & ChangeEnvelope)
+  | (PageOp & ChangeEnvelope)
+  | { type: "cursor-move"; x: number; y: number; page: number }
+  | { type: "ai-summarize" }
+  | { type: "ai-cancel" }
+  | { type: "chat-ask"; question: string };
+
+// WebSocket close codes the session uses when access ends
+export const CLOSE_SHARE_REVOKED = 4003;
+export const CLOSE_SHARE_EXPIRED = 4004;
+
+/** Messages that change the document, which viewers may not send. */
+export function isEditMessage(msg: ClientMessage): msg is (AnnotationOp | PageOp) & ChangeEnvelope {
+  return msg.type !== "cursor-move" && msg.type !== "ai-summarize" && msg.type !== "ai-cancel" && msg.type !== "chat-ask";
+}
+
+/**
+ * Whether `role` may send `msg` against the current `annotations`. Commenters
+ * may start comments, reply, and resolve or reopen them, nothing else.
+ */
+export function maySend(role: Role, msg: ClientMessage, annotations: PdfAnnotation[]): boolean {
+  if (!isEditMessage(msg) || canEdit(role)) return true;
+  if (!canComment(role)) return false;
+  switch (msg.type) {
+    case "annotation-add":
+      // A new comment, not one that takes the place of someone else's annotation
+      return (
+        msg.annotation.type === "comment" &&
+        msg.annotation.thread?.length === 1 &&
+        !annotations.some(a => a.id === msg.annotation.id)
+      );
+    case "comment-reply":
+      return true;
+    case "annotation-update":
+      return (
+        annotations.find(a => a.id === msg.id)?.type === "comment" &&
+        Object.keys(msg.changes).every(key => key === "resolved")
+      );
+    default:
+      return false;
+  }
+}
+
+// Workers cap WebSocket messages at 1 MiB; stay under it with room for framing
+export const MAX_MESSAGE_BYTES = 1_000_000;
+
+function checkEnvelope(value: Record<string, unknown>): string | null {
+  if (value.opId !== undefined && !isId(value.opId)) return "opId is invalid";
+  if (value.baseRevision !== undefined && !(Number.isInteger(value.baseRevision) && (value.baseRevision as number) >= 0)) {
+    return "baseRevision must be a non-negative integer";
+  }
+  return null;
+}
+
+/** Parses and validates a raw message from a client. Never throws. */
+export function parseClientMessage(raw: string | ArrayBuffer): Validation<ClientMessage> {
+  // UTF-8 on the wire, so a character can take up to four bytes
+  const size = typeof raw === "string" ? new TextEncoder().encode(raw).byteLength : raw.byteLength;
+  if (size > MAX_MESSAGE_BYTES) return { ok: false, error: `message exceeds ${MAX_MESSAGE_BYTES} bytes` };
+  if (typeof raw !== "string") return { ok: false, error: "binary messages are not supported" };
+
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return { ok: false, error: "message is not valid JSON" };
+  }
+  if (!isRecord(data)) return { ok: false, error: "message must be an object" };
+
+  const envelopeError = checkEnvelope(data);
+  if (envelopeError) return { ok: false, error: envelopeError };
+
+  const fail = (error: string): Validation<ClientMessage> => ({ ok: false, error });
+  const envelope = { opId: data.opId as string | undefined, baseRevision: data.baseRevision as number | undefined };
+
+  switch (data.type) {
+    case "annotation-add": {
+      const result = validateAnnotation(data.annotation);
+      return result.ok ? { ok: true, value: { type: "annotation-add", annotation: result.value, ...envelope } } : result;
+    }
+    case "annotation-update": {
+      if (!isId(data.id)) return fail("id is invalid");
+      const result = validateAnnotationChanges(data.changes);
+      return result.ok ? { ok: true, value: { type: "annotation-update", id: data.id, changes: result.value, ...envelope } } : result;
+    }
+    case "annotation-delete":
+      return isId(data.id) ? { ok: true, value: { type: "annotation-delete", id: data.id, ...envelope } } : fail("id is invalid");
+    case "comment-reply": {
+      if (!isId(data.id)) return fail("id is invalid");
+      const result = validateCommentEntry(data.reply);
+      return result.ok ? { ok: true, value: { type: "comment-reply", id: data.id, reply: result.value, ...envelope } } : result;
+    }
+    case "page-delete":
+    case "page-restore":
+      // Page ops use 0-based indices
+      return Number.isInteger(data.page) && (data.page as number) >= 0 && isPageNumber((data.page as number) + 1)
+        ? { ok: true, value: { type: data.type, page: data.page as number, ...envelope } }
+        : fail("page must be a non-negative integer");
+    case "cursor-move":
+      return typeof data.x === "number" && Number.isFinite(data.x) && typeof data.y === "number" && Number.isFinite(data.y) && isPageNumber(data.page)
+        ? { ok: true, value: { type: "cursor-move", x: data.x, y: data.y, page: data.page } }
+        : fail("cursor position is invalid");
+    case "ai-summarize":
+      return { ok: true, value: { type: "ai-summarize" } };
+    case "ai-cancel":
+      return { ok: true, value: { type: "ai-cancel" } };
+    case "chat-ask":
+      return typeof data.question === "string" && data.question.trim() && data.question.length <= MAX_QUESTION_LENGTH
+        ? { ok: true, value: { type: "chat-ask", question: data.question.trim() } }
+        : fail(`question must be 1 to ${MAX_QUESTION_LENGTH} characters`);
+    default:
+      return fail(`unknown message type ${JSON.stringify(data.type)}`);
+  }
+}
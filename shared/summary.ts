@@ -0,0 +1,38 @@
+// Document summaries: PDFSession summarizes a few pages at a time, then
+// combines those summaries, and asks the model to cite pages in the form below
+// so the summary can link back to them.
+
+/** How far a summary has got, sent with `ai-status` while it runs. */
+export interface SummaryProgress {
+  // Pages being summarized, or null once it's combining their summaries
+  pages: { from: number; to: number } | null;
+  done: number;
+  total: number;
+}
+
+/** How the model is asked to cite, e.g. "[p. 4]" or "[pp. 4-6]". */
+export const CITATION_FORMAT = "[p. N] for one page, [pp. N-M] for a range";
+
+// Also takes the variants models drift into: "[Page 4]", "[p. 4, 7]", "[pp. 4–6]"
+const CITATION = /\[(?:pp?\.?|pages?)\s*(\d+(?:\s*[-–,]\s*\d+)*)\]/gi;
+
+export type SummaryPart = string | { page: number; text: string };
+
+/**
+ * Splits a summary into plain text and citations, each linking to the first
+ * page it cites. Pages outside 1..`pageCount` don't count, and a citation
+ * with none left stays plain text.
+ */
+export function citationParts(summary: string, pageCount: number): SummaryPart[] {
+  const parts: SummaryPart[] = [];
+  let last = 0;
+  for (const match of summary.matchAll(CITATION)) {
+    const page = match[1].split(/[-–,]/).map(Number).find(n => n >= 1 && n <= pageCount);
+    if (page === undefined) continue;
+    if (match.index > last) parts.push(summary.slice(last, match.index));
+    parts.push({ page, text: match[0] });
+    last = match.index + match[0].length;
+  }
+  if (last < summary.length) parts.push(summary.slice(last));
+  return parts;
+}
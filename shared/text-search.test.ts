@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import type { PdfAnnotation } from "./annotations";
+import { indexedText, redactText, searchText, type PageText, type SearchHit, type TextRun } from "./text-search";
+
+const SECRET = "SECRET-4471";
+const LINE = `Account ${SECRET} closed`;
+const CHAR_WIDTH = 8;
+
+// One line at (50, 150), every character CHAR_WIDTH wide, with or without the glyph spans `alignGlyphs` finds
+function page(withSpans: boolean): PageText {
+  const run: TextRun = {
+    text: LINE,
+    transform: [14, 0, 0, 14, 50, 150],
+    width: LINE.length * CHAR_WIDTH,
+    height: 14,
+    eol: true,
+  };
+  if (withSpans) run.spans = LINE.split("").map((char, i) => (char === " " ? null : [i * CHAR_WIDTH, (i + 1) * CHAR_WIDTH]));
+  return { page: 1, runs: [run] };
+}
+
+function hits(pages: PageText[], text: string): SearchHit[] {
+  const result = searchText(pages, { text, regex: false, caseSensitive: true });
+  if (!result.ok) throw new Error(result.error);
+  return result.value.hits;
+}
+
+// A redaction over a search hit, the way the editor makes one
+function redactionOver(hit: SearchHit): PdfAnnotation {
+  return { id: "redaction", type: "redact", page: hit.page, x: hit.quads[0].x, y: hit.quads[0].y, quads: hit.quads };
+}
+
+describe.each([true, false])("redactText, glyph spans known: %s", (withSpans) => {
+  it("blanks out the text under a redaction and keeps the rest where it was", () => {
+    const pages = [page(withSpans)];
+    const [hit] = hits(pages, SECRET);
+    const redacted = redactText(pages, [redactionOver(hit)]);
+
+    expect(indexedText(redacted[0].runs)).toBe("Account closed ");
+    expect(hits(redacted, "4471")).toEqual([]);
+    // What's left still finds the same boxes
+    expect(hits(redacted, "closed")[0].quads).toEqual(hits(pages, "closed")[0].quads);
+    expect(hits(redacted, "Account")[0].quads).toEqual(hits(pages, "Account")[0].quads);
+  });
+
+  it("leaves text on other pages and without redactions alone", () => {
+    const pages = [page(withSpans)];
+    const [hit] = hits(pages, SECRET);
+    expect(redactText(pages, [])).toBe(pages);
+    expect(redactText(pages, [{ ...redactionOver(hit), page: 2 }])).toEqual(pages);
+    expect(redactText(pages, [{ id: "note", type: "rect", page: 1, x: hit.quads[0].x, y: hit.quads[0].y, width: 40, height: 20 }])).toBe(pages);
+  });
+});
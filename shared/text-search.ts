@@ -0,0 +1,353 @@
+// Finding text on the page: literal or regex search over the text PDFSession
+// extracts, with the user space boxes a redaction needs to cover each hit.
+
+import { redactedAreas, type PdfAnnotation, type Validation } from "./annotations";
+import { overlaps, type Rect } from "./geometry";
+import type { Glyph } from "./pdf-redact";
+
+/** A run of text as pdf.js extracts it, see `PDFSession.handleText`. */
+export interface TextRun {
+  text: string;
+  // Text space to user space: [a, b, c, d, e, f], (e, f) is the start of the baseline
+  transform: number[];
+  // Advance along the baseline and font height, in user space
+  width: number;
+  height: number;
+  // Whether a line break follows the run
+  eol: boolean;
+  // Where each character starts and ends along the baseline, null for
+  // whitespace; set when `alignGlyphs` found the glyphs that draw the run
+  spans?: ([number, number] | null)[];
+}
+
+export interface PageText {
+  page: number; // 1-based
+  runs: TextRun[];
+}
+
+export interface SearchHit {
+  page: number;
+  text: string;
+  // Some of the surrounding text, to tell hits apart in a list
+  before: string;
+  after: string;
+  // One box per line the hit spans
+  quads: Rect[];
+}
+
+export interface SearchPreset {
+  id: string;
+  label: string;
+  pattern: string;
+  // Filters out matches that fit the pattern but can't be what it looks for
+  check?: (match: string) => boolean;
+}
+
+function passesLuhn(match: string): boolean {
+  const digits = match.replace(/\D/g, "");
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2) digit = digit * 2 > 9 ? digit * 2 - 9 : digit * 2;
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+export const SEARCH_PRESETS: SearchPreset[] = [
+  { id: "email", label: "Emails", pattern: String.raw`[\w.%+-]+@[\w-]+(?:\.[\w-]+)*\.[A-Za-z]{2,}` },
+  {
+    id: "phone",
+    label: "Phone numbers",
+    pattern: String.raw`(?<![\w+])(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?|\d{2,4}[ .-]?)\d{3,4}[ .-]?\d{3,4}(?!\w)`,
+  },
+  { id: "card", label: "Card numbers", pattern: String.raw`(?<!\d)(?:\d[ -]?){12,18}\d(?!\d)`, check: passesLuhn },
+];
+
+export type SearchQuery =
+  | { preset: string }
+  | { text: string; regex: boolean; caseSensitive: boolean };
+
+// More than anyone can review, and a regex like `.` would otherwise list every glyph
+export const MAX_SEARCH_HITS = 1000;
+
+const CONTEXT_LENGTH = 30;
+
+// Glyph boxes relative to the font height; pdf.js doesn't report the font's own
+const ASCENT = 0.8;
+const DESCENT = 0.2;
+const GLYPH_INSET = 0.25;
+// How many glyphs pdf.js may leave out before we stop looking for the next one
+const ALIGN_LOOKAHEAD = 1024;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * The regex a query runs as. Literal text matches whatever whitespace the page
+ * has between words, including a line break.
+ */
+export function compileQuery(query: SearchQuery): Validation<{ pattern: RegExp; check?: (match: string) => boolean }> {
+  if ("preset" in query) {
+    const preset = SEARCH_PRESETS.find(p => p.id === query.preset);
+    if (!preset) return { ok: false, error: `Unknown preset ${JSON.stringify(query.preset)}` };
+    return { ok: true, value: { pattern: new RegExp(preset.pattern, "gu"), check: preset.check } };
+  }
+
+  const text = query.regex ? query.text : query.text.trim();
+  if (!text) return { ok: false, error: "Enter something to search for" };
+  const source = query.regex ? text : text.split(/\s+/).map(escapeRegExp).join(String.raw`\s+`);
+  try {
+    return { ok: true, value: { pattern: new RegExp(source, query.caseSensitive ? "gu" : "giu") } };
+  } catch (e) {
+    return { ok: false, error: e instanceof Error ? e.message : "Invalid pattern" };
+  }
+}
+
+// Rough glyph widths relative to an average one, so hits inside long runs land
+// closer to where they're drawn than spreading the run evenly would
+function charWeight(char: string): number {
+  if (/[\s.,;:'!|il1jtfr()[\]]/.test(char)) return 0.55;
+  if (/[mwMW@%]/.test(char)) return 1.45;
+  if (/[A-Z]/.test(char)) return 1.2;
+  return 1;
+}
+
+// Where each character of a run we have no `spans` for starts along the
+// baseline, going by `charWeight`, and where the last one ends
+function estimatedOffsets(run: TextRun): number[] {
+  const weights = run.text.split("").map(charWeight);
+  const total = weights.reduce((sum, w) => sum + w, 0) || 1;
+  const offsets = [0];
+  for (const weight of weights) offsets.push(offsets[offsets.length - 1] + (weight / total) * run.width);
+  return offsets;
+}
+
+// Unit vectors along the run's baseline and up from it (perpendicular unless the text is skewed)
+function runAxes(run: TextRun) {
+  const [a, b, c, d] = run.transform;
+  const along = Math.hypot(a, b) || 1;
+  const ux = a / along, uy = b / along;
+  const up = Math.hypot(c, d);
+  return { ux, uy, vx: up ? c / up : -uy, vy: up ? d / up : ux };
+}
+
+/**
+ * Matches each run's characters to the glyphs `readPageContents` read from the
+ * page content and records where they are in `spans`. pdf.js only tells us
+ * where a whole run is, and a box that spills onto a neighbouring glyph
+ * redacts that glyph too. Runs we can't match keep estimated positions.
+ */
+export function alignGlyphs(runs: TextRun[], glyphs: Glyph[]) {
+  // Ligatures are one glyph for several characters, which pdf.js spells out
+  const texts = glyphs.map(g => g.text.normalize("NFKC").replace(/\s+/g, ""));
+  let next = 0;
+
+  for (const run of runs) {
+    const { ux, uy, vx, vy } = runAxes(run);
+    const [, , , , e, f] = run.transform;
+    const slack = Math.max(run.height, 1);
+    const project = (box: Rect) => {
+      const along: number[] = [], up: number[] = [];
+      for (const [x, y] of [[box.x, box.y], [box.x + box.width, box.y], [box.x, box.y + box.height], [box.x + box.width, box.y + box.height]]) {
+        along.push((x - e) * ux + (y - f) * uy);
+        up.push((x - e) * vx + (y - f) * vy);
+      }
+      return { start: Math.min(...along), end: Math.max(...along), middle: (Math.min(...up) + Math.max(...up)) / 2 };
+    };
+
+    const spans: ([number, number] | null)[] = [];
+    let cursor = next;
+    // What's left of a ligature glyph after the characters matched so far
+    let pending: { rest: string; span: [number, number] } | null = null;
+    // By UTF-16 unit, like the offsets `searchText` works with
+    for (const char of run.text.split("")) {
+      if (/\s/.test(char)) {
+        spans.push(null);
+        continue;
+      }
+      if (pending?.rest.startsWith(char)) {
+        spans.push(pending.span);
+        pending.rest = pending.rest.slice(char.length);
+        continue;
+      }
+      pending = null;
+      for (let k = cursor; k < Math.min(glyphs.length, cursor + ALIGN_LOOKAHEAD); k++) {
+        if (!texts[k].startsWith(char)) continue;
+        const { start, end, middle } = project(glyphs[k].box);
+        if (middle < -slack || middle > 2 * slack || end < -slack || start > run.width + slack) continue;
+        pending = { rest: texts[k].slice(char.length), span: [start, end] };
+        cursor = k + 1;
+        break;
+      }
+      if (!pending) break;
+      spans.push(pending.span);
+    }
+    if (spans.length !== run.text.length) continue;
+    run.spans = spans.map(span => span && [Math.round(span[0] * 100) / 100, Math.round(span[1] * 100) / 100]);
+    next = cursor;
+  }
+}
+
+/**
+ * The user space box of `run.text.slice(start, end)`. Kerning overlaps
+ * neighbouring glyphs, and a redaction takes any glyph it touches, so by
+ * default it stops a little inside the first and last glyphs.
+ */
+function runBox(run: TextRun, start: number, end: number, inset = GLYPH_INSET): Rect {
+  let from: number, to: number;
+  const spans = run.spans?.slice(start, end).filter(span => span !== null);
+  if (spans?.length) {
+    const [first, last] = [spans[0], spans[spans.length - 1]];
+    from = first[0] + (first[1] - first[0]) * inset;
+    to = last[1] - (last[1] - last[0]) * inset;
+  } else {
+    const offsets = estimatedOffsets(run);
+    from = offsets[start];
+    to = offsets[end];
+  }
+
+  const [, , , , e, f] = run.transform;
+  const { ux, uy, vx, vy } = runAxes(run);
+  const xs: number[] = [], ys: number[] = [];
+  for (const s of [from, to]) {
+    for (const t of [-DESCENT * run.height, ASCENT * run.height]) {
+      xs.push(e + ux * s + vx * t);
+      ys.push(f + uy * s + vy * t);
+    }
+  }
+  const x = Math.min(...xs), y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+// Boxes from runs on the same line become one
+function mergeLines(boxes: Rect[]): Rect[] {
+  const lines: Rect[] = [];
+  for (const box of boxes) {
+    const line = lines.find(l => {
+      const shared = Math.min(l.y + l.height, box.y + box.height) - Math.max(l.y, box.y);
+      return shared > Math.min(l.height, box.height) / 2;
+    });
+    if (!line) {
+      lines.push({ ...box });
+      continue;
+    }
+    const right = Math.max(line.x + line.width, box.x + box.width);
+    const top = Math.max(line.y + line.height, box.y + box.height);
+    line.x = Math.min(line.x, box.x);
+    line.y = Math.min(line.y, box.y);
+    line.width = right - line.x;
+    line.height = top - line.y;
+  }
+  return lines;
+}
+
+// `run` with the characters `areas` touch blanked out, split up around them
+// if there are no spans to keep the rest in place
+function redactRun(run: TextRun, areas: Rect[]): TextRun[] {
+  const chars = run.text.split("");
+  const covered = chars.map((char, i) => !/\s/.test(char) && areas.some(area => overlaps(area, runBox(run, i, i + 1, 0))));
+  if (!covered.includes(true)) return [run];
+  if (run.spans) {
+    const spans = run.spans.map((span, i) => (covered[i] ? null : span));
+    return [{ ...run, text: chars.map((char, i) => (covered[i] ? " " : char)).join(""), spans }];
+  }
+
+  const offsets = estimatedOffsets(run);
+  const [a, b, c, d, e, f] = run.transform;
+  const { ux, uy } = runAxes(run);
+  const pieces: TextRun[] = [];
+  for (let start = 0, end = 0; start < chars.length; start = end) {
+    while (end < chars.length && covered[end] === covered[start]) end++;
+    pieces.push({
+      text: covered[start] ? " " : run.text.slice(start, end),
+      transform: [a, b, c, d, e + ux * offsets[start], f + uy * offsets[start]],
+      width: offsets[end] - offsets[start],
+      height: run.height,
+      eol: end === chars.length && run.eol,
+    });
+  }
+  return pieces;
+}
+
+/**
+ * `pages` with every character a redaction in `annotations` covers replaced
+ * by a space, for anything that serves or reads the text of a document: the
+ * text stays out of sight until the redaction is removed.
+ */
+export function redactText(pages: PageText[], annotations: PdfAnnotation[]): PageText[] {
+  const areas = new Map<number, Rect[]>();
+  for (const ann of annotations) {
+    if (ann.type === "redact") areas.set(ann.page, [...(areas.get(ann.page) ?? []), ...redactedAreas(ann)]);
+  }
+  if (!areas.size) return pages;
+  return pages.map(({ page, runs }) => {
+    const covering = areas.get(page);
+    return { page, runs: covering ? runs.flatMap(run => redactRun(run, covering)) : runs };
+  });
+}
+
+/** A page's text as a document text index should hold it: runs joined the way `searchText` joins them, whitespace collapsed. */
+export function indexedText(runs: TextRun[]): string {
+  return runs.map(run => run.text + (run.eol ? "\n" : "")).join("").replace(/\s+/g, " ");
+}
+
+/**
+ * Every match of `query` on `pages`, in page order, up to `MAX_SEARCH_HITS`.
+ * Runs are joined as pdf.js emits them, with a line break after each line.
+ */
+export function searchText(pages: PageText[], query: SearchQuery): Validation<{ hits: SearchHit[]; truncated: boolean }> {
+  const compiled = compileQuery(query);
+  if (!compiled.ok) return compiled;
+  const { pattern, check } = compiled.value;
+  const hits: SearchHit[] = [];
+
+  for (const { page, runs } of pages) {
+    let text = "";
+    // For each character of `text`, the run it came from and where in it; -1 for line breaks
+    const owners: { run: number; index: number }[] = [];
+    runs.forEach((run, i) => {
+      for (let index = 0; index < run.text.length; index++) owners.push({ run: i, index });
+      text += run.text;
+      if (run.eol) {
+        owners.push({ run: -1, index: 0 });
+        text += "\n";
+      }
+    });
+
+    pattern.lastIndex = 0;
+    for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+      if (!match[0]) {
+        pattern.lastIndex++;
+        continue;
+      }
+      if (check && !check(match[0])) continue;
+
+      // Consecutive characters from the same run make one box
+      const boxes: Rect[] = [];
+      const end = match.index + match[0].length;
+      for (let i = match.index; i < end;) {
+        const { run, index } = owners[i];
+        let j = i + 1;
+        while (j < end && owners[j].run === run && owners[j].index === owners[j - 1].index + 1) j++;
+        if (run >= 0 && runs[run].text.slice(index, index + j - i).trim()) {
+          boxes.push(runBox(runs[run], index, index + j - i));
+        }
+        i = j;
+      }
+      if (!boxes.length) continue;
+
+      const flat = (s: string) => s.replace(/\s+/g, " ");
+      hits.push({
+        page,
+        text: flat(match[0]),
+        before: flat(text.slice(Math.max(0, match.index - CONTEXT_LENGTH), match.index)),
+        after: flat(text.slice(end, end + CONTEXT_LENGTH)),
+        quads: mergeLines(boxes),
+      });
+      if (hits.length >= MAX_SEARCH_HITS) return { ok: true, value: { hits, truncated: true } };
+    }
+  }
+  return { ok: true, value: { hits, truncated: false } };
+}
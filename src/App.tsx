@@ -1,7 +1,44 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { AuthScreen } from "@/components/auth-screen";
 import { PdfEditor } from "@/components/pdf-editor";
+import { apiFetch, setShareToken } from "@/lib/api";
+import { getAuth, onSignedOut } from "@/lib/auth";
+import type { ResolvedShare } from "@shared/auth";
+
+// `?share=<token>` opens one document as the link, signed in or not
+const SHARE_TOKEN = new URLSearchParams(window.location.search).get("share");
+setShareToken(SHARE_TOKEN);
+
+function SharedDocument({ token }: { token: string }) {
+  const [share, setShare] = useState<ResolvedShare | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    apiFetch(`/shares/resolve?token=${encodeURIComponent(token)}`)
+      .then(async res => {
+        if (!res.ok) throw new Error(await res.text());
+        setShare(await res.json());
+      })
+      .catch(err => setError(err instanceof Error && err.message ? err.message : "Couldn't open this link"));
+  }, [token]);
+
+  if (share) return <PdfEditor user={null} share={share} />;
+  return (
+    <div className="h-screen w-screen bg-slate-100 flex items-center justify-center text-slate-500">
+      {error ?? <Loader2 className="w-6 h-6 animate-spin" />}
+    </div>
+  );
+}
 
 function App() {
-  return <PdfEditor />;
+  const [auth, setAuth] = useState(getAuth);
+
+  useEffect(() => onSignedOut(() => setAuth(null)), []);
+
+  if (SHARE_TOKEN) return <SharedDocument token={SHARE_TOKEN} />;
+  if (!auth) return <AuthScreen onSignedIn={setAuth} />;
+  return <PdfEditor key={auth.user.id} user={auth.user} />;
 }
 
 export default App;
@@ -0,0 +1,233 @@
+import type React from "react";
+import { MessageSquare } from "lucide-react";
+import { markupLine, pageToOverlay, type PageGeometry } from "@/lib/coordinates";
+import { DEFAULT_MARKUP_COLORS, redactedAreas, type PdfAnnotation } from "@shared/annotations";
+
+export type DragMode = "move" | "nw" | "ne" | "sw" | "se";
+
+// Where the baseline sits below the top of a line-height: 1 box, in em
+const BASELINE_EM = 0.8;
+
+const HANDLES: { mode: DragMode; style: React.CSSProperties; cursor: string }[] = [
+  { mode: "nw", style: { left: -5, top: -5 }, cursor: "nwse-resize" },
+  { mode: "ne", style: { right: -5, top: -5 }, cursor: "nesw-resize" },
+  { mode: "sw", style: { left: -5, bottom: -5 }, cursor: "nesw-resize" },
+  { mode: "se", style: { right: -5, bottom: -5 }, cursor: "nwse-resize" },
+];
+
+// Rendered inside the page overlay, so positions are overlay points (see `@/lib/coordinates`)
+interface AnnotationItemProps {
+  annotation: PdfAnnotation;
+  geometry: PageGeometry;
+  // Only the "none" tool lets annotations be picked up
+  selectable: boolean;
+  selected: boolean;
+  onDragStart: (e: React.PointerEvent, mode: DragMode) => void;
+  onDragMove: (e: React.PointerEvent) => void;
+  onDragEnd: (e: React.PointerEvent) => void;
+  // Comments open their thread when clicked, whatever the tool
+  onActivate?: () => void;
+}
+
+export function AnnotationItem({ annotation: ann, geometry, selectable, selected, onDragStart, onDragMove, onDragEnd, onActivate }: AnnotationItemProps) {
+  // Pointer handlers shared by every grabbable part. The class keeps the
+  // TransformWrapper from panning while an annotation is being dragged.
+  const grab = (mode: DragMode) =>
+    selectable
+      ? {
+          className: "annotation-handle",
+          onPointerDown: (e: React.PointerEvent) => onDragStart(e, mode),
+          onPointerMove: onDragMove,
+          onPointerUp: onDragEnd,
+          onClick: (e: React.MouseEvent) => e.stopPropagation(),
+        }
+      : {};
+
+  const interactive: React.CSSProperties = selectable ? { pointerEvents: "auto", cursor: "move" } : {};
+  const outline: React.CSSProperties = selected ? { outline: "2px solid #3b82f6", outlineOffset: 2 } : {};
+
+  // Boxes are stored by their bottom-left corner, the overlay is laid out from the top-left
+  const box = (r: { x: number; y: number; width?: number; height?: number }): React.CSSProperties => {
+    const topLeft = pageToOverlay(geometry, { x: r.x, y: r.y + (r.height ?? 0) });
+    return { position: "absolute", left: topLeft.x, top: topLeft.y, width: r.width, height: r.height };
+  };
+
+  // (x, y) is the text baseline or the path origin. Text hangs off it and is
+  // counter-rotated to read upright on rotated pages.
+  const origin = pageToOverlay(geometry, ann);
+  const upright: React.CSSProperties = {
+    position: "absolute",
+    left: origin.x,
+    top: origin.y,
+    lineHeight: 1,
+    transformOrigin: "0 0",
+    transform: `rotate(${-geometry.rotation}deg) translateY(-${BASELINE_EM}em)`,
+  };
+
+  const lineKind = ann.type === "underline" || ann.type === "strikeout" ? ann.type : null;
+
+  return (
+    <div
+      className="absolute pointer-events-none whitespace-pre"
+      style={{
+        left: 0, top: 0, width: '100%', height: '100%'
+      }}
+    >
+      {/* Render Text Replace: White Box + New Text */}
+      {ann.type === "text-replace" && (
+          <>
+            {/* 1. The White-out Mask (Visual only, to hide underlying text) */}
+            {ann.originalTextRect && (
+                <div style={{
+                   ...box(ann.originalTextRect),
+                   backgroundColor: "white",
+                   zIndex: 10
+                }} />
+            )}
+
+            {/* 2. The New Text */}
+            <div {...grab("move")} style={{
+                ...upright,
+                fontSize: ann.fontSize,
+                color: ann.color,
+                fontFamily: "Helvetica, sans-serif",
+                fontWeight: "bold",
+                zIndex: 11,
+                ...interactive,
+                ...outline
+            }}>
+              {ann.text}
+          </div>
+          </>
+      )}
+
+      {ann.type === "text" && (
+          <div {...grab("move")} style={{ ...upright, fontSize: ann.fontSize, color: ann.color, fontWeight: "bold", ...interactive, ...outline }}>
+              {ann.text}
+          </div>
+      )}
+      {ann.type === "rect" && (
+          <div {...grab("move")} style={{ ...box(ann), backgroundColor: ann.color, ...interactive, ...outline }}>
+              {selected && <ResizeHandles grab={grab} />}
+          </div>
+      )}
+      {ann.type === "redact" && redactedAreas(ann).map((area, i) => (
+          // Not applied until export, so what's under it stays faintly visible
+          <div
+            key={i}
+            {...grab("move")}
+            title="Redaction: removed from the page on download"
+            style={{ ...box(area), backgroundColor: ann.color ?? "#000000", opacity: 0.6, outline: "2px dashed #dc2626", ...interactive, ...outline }}
+          >
+              {selected && !ann.quads && <ResizeHandles grab={grab} />}
+          </div>
+      ))}
+      {ann.type === "highlight" && ann.quads?.map((quad, i) => (
+          <div
+            key={i}
+            {...grab("move")}
+            style={{ ...box(quad), backgroundColor: ann.color ?? DEFAULT_MARKUP_COLORS.highlight, opacity: 0.4, mixBlendMode: "multiply", ...interactive, ...outline }}
+          />
+      ))}
+      {lineKind && (
+          <svg style={{ position: "absolute", left: 0, top: 0, width: "100%", height: "100%", overflow: "visible" }}>
+              {ann.quads?.map((quad, i) => {
+                  // Same line as export draws, so what you see is what gets saved
+                  const line = markupLine(quad, lineKind, geometry.rotation);
+                  const from = pageToOverlay(geometry, line.start);
+                  const to = pageToOverlay(geometry, line.end);
+                  const topLeft = pageToOverlay(geometry, { x: quad.x, y: quad.y + quad.height });
+                  return (
+                      <g key={i}>
+                          {/* Invisible hit area: the line alone is too thin to grab */}
+                          <rect
+                            {...grab("move")}
+                            x={topLeft.x} y={topLeft.y} width={quad.width} height={quad.height}
+                            fill="transparent"
+                            stroke={selected ? "#3b82f6" : "none"}
+                            style={selectable ? { pointerEvents: "fill", cursor: "move" } : undefined}
+                          />
+                          <line
+                            x1={from.x} y1={from.y} x2={to.x} y2={to.y}
+                            stroke={ann.color ?? DEFAULT_MARKUP_COLORS[lineKind]}
+                            strokeWidth={line.thickness}
+                          />
+                      </g>
+                  );
+              })}
+          </svg>
+      )}
+      {ann.type === "image" && (
+          <div {...grab("move")} style={{ ...box(ann), ...interactive, ...outline }}>
+              {/* Upright image in a box that may be sideways in page space */}
+              <img
+                src={ann.image}
+                draggable={false}
+                style={{
+                  position: "absolute",
+                  left: "50%",
+                  top: "50%",
+                  width: geometry.rotation % 180 ? ann.height : ann.width,
+                  height: geometry.rotation % 180 ? ann.width : ann.height,
+                  objectFit: "contain",
+                  transform: `translate(-50%, -50%) rotate(${-geometry.rotation}deg)`,
+                }}
+              />
+              {selected && <ResizeHandles grab={grab} />}
+          </div>
+      )}
+      {ann.type === "comment" && (
+          <div
+            id={`comment-${ann.id}`}
+            {...grab("move")}
+            onClick={(e) => { e.stopPropagation(); onActivate?.(); }}
+            title={ann.thread?.[0]?.text}
+            style={{
+              position: "absolute",
+              left: origin.x,
+              top: origin.y,
+              width: 20,
+              height: 20,
+              transformOrigin: "0 0",
+              transform: `rotate(${-geometry.rotation}deg)`,
+              opacity: ann.resolved ? 0.5 : 1,
+              pointerEvents: "auto",
+              cursor: selectable ? "move" : "pointer",
+              ...outline
+            }}
+          >
+              <MessageSquare className="w-full h-full drop-shadow" style={{ color: "#78350f", fill: ann.color ?? "#facc15" }} />
+          </div>
+      )}
+      {ann.type === "path" && (
+          <svg style={{ position: "absolute", left: 0, top: 0, width: "100%", height: "100%", overflow: "visible" }}>
+              <g transform={`translate(${origin.x} ${origin.y})`}>
+                  {selected && (
+                      <path d={ann.path} stroke="#3b82f6" strokeOpacity={0.4} strokeWidth={(ann.strokeWidth || 2) + 8} fill="none" strokeLinecap="round" />
+                  )}
+                  <path
+                    {...grab("move")}
+                    d={ann.path} stroke={ann.color} strokeWidth={ann.strokeWidth} fill="none" strokeLinecap="round"
+                    style={selectable ? { pointerEvents: "stroke", cursor: "move" } : undefined}
+                  />
+              </g>
+          </svg>
+      )}
+    </div>
+  );
+}
+
+function ResizeHandles({ grab }: { grab: (mode: DragMode) => object }) {
+  return (
+    <>
+      {HANDLES.map(({ mode, style, cursor }) => (
+        <div
+          key={mode}
+          {...grab(mode)}
+          className="annotation-handle absolute w-2.5 h-2.5 bg-white border-2 border-blue-500 rounded-sm"
+          style={{ ...style, cursor, pointerEvents: "auto" }}
+        />
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,132 @@
+import { useEffect, useRef, type KeyboardEvent } from "react";
+import { Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { DEFAULT_MARKUP_COLORS, type PdfAnnotation } from "@shared/annotations";
+
+interface AnnotationPropertiesProps {
+  annotation: PdfAnnotation;
+  onChange: (changes: Partial<PdfAnnotation>) => void;
+  onDelete: () => void;
+  onClose: () => void;
+}
+
+const DEFAULT_COLORS: Record<PdfAnnotation["type"], string> = {
+  "text": "#000000",
+  "text-replace": "#000000",
+  "rect": "#ffff00",
+  "image": "#000000",
+  "path": "#000000",
+  "comment": "#facc15",
+  "redact": "#000000",
+  ...DEFAULT_MARKUP_COLORS,
+};
+
+export function AnnotationProperties({ annotation: ann, onChange, onDelete, onClose }: AnnotationPropertiesProps) {
+  const hasText = ann.type === "text" || ann.type === "text-replace";
+  const hasColor = ann.type !== "image";
+  const color = ann.color ?? DEFAULT_COLORS[ann.type];
+  const colorRef = useRef<HTMLInputElement>(null);
+
+  // Text and number fields commit on blur/Enter so typing doesn't flood the session
+  const commitOnEnter = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") e.currentTarget.blur();
+  };
+
+  // Likewise the color, which would otherwise change on every tick of a drag
+  // in the picker: React's onChange fires on each one, the native change event
+  // only once the picker closes
+  const commitColor = (value: string) => {
+    if (value !== color) onChange({ color: value });
+  };
+  useEffect(() => {
+    const input = colorRef.current;
+    if (!input) return;
+    const onPickerClose = () => commitColor(input.value);
+    input.addEventListener("change", onPickerClose);
+    return () => input.removeEventListener("change", onPickerClose);
+  });
+
+  return (
+    <Card className="absolute top-20 right-4 z-50 w-64 p-4 gap-3 shadow-xl" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center justify-between">
+        <span className="font-semibold text-sm capitalize">{ann.type.replace("-", " ")}</span>
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onClose}>
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {hasText && (
+        <div className="grid gap-1.5">
+          <Label htmlFor="ann-text">Text</Label>
+          <Input
+            id="ann-text"
+            key={`${ann.id}-text-${ann.text}`}
+            defaultValue={ann.text}
+            onKeyDown={commitOnEnter}
+            onBlur={(e) => e.target.value !== ann.text && onChange({ text: e.target.value })}
+          />
+        </div>
+      )}
+
+      {hasText && (
+        <div className="grid gap-1.5">
+          <Label htmlFor="ann-font-size">Font size</Label>
+          <Input
+            id="ann-font-size"
+            type="number"
+            min={4}
+            max={144}
+            key={`${ann.id}-size-${ann.fontSize}`}
+            defaultValue={ann.fontSize ?? 12}
+            onKeyDown={commitOnEnter}
+            onBlur={(e) => {
+              const fontSize = Number(e.target.value);
+              if (fontSize > 0 && fontSize !== ann.fontSize) onChange({ fontSize });
+            }}
+          />
+        </div>
+      )}
+
+      {ann.type === "path" && (
+        <div className="grid gap-1.5">
+          <Label htmlFor="ann-stroke">Stroke width</Label>
+          <Input
+            id="ann-stroke"
+            type="number"
+            min={1}
+            max={40}
+            key={`${ann.id}-stroke-${ann.strokeWidth}`}
+            defaultValue={ann.strokeWidth ?? 2}
+            onKeyDown={commitOnEnter}
+            onBlur={(e) => {
+              const strokeWidth = Number(e.target.value);
+              if (strokeWidth > 0 && strokeWidth !== ann.strokeWidth) onChange({ strokeWidth });
+            }}
+          />
+        </div>
+      )}
+
+      {hasColor && (
+        <div className="grid gap-1.5">
+          <Label htmlFor="ann-color">Color</Label>
+          <Input
+            id="ann-color"
+            type="color"
+            className="h-9 p-1"
+            ref={colorRef}
+            key={`${ann.id}-color-${color}`}
+            defaultValue={color}
+            onBlur={(e) => commitColor(e.target.value)}
+          />
+        </div>
+      )}
+
+      <Button variant="destructive" size="sm" onClick={onDelete}>
+        <Trash2 className="w-4 h-4" /> Delete
+      </Button>
+    </Card>
+  );
+}
@@ -0,0 +1,87 @@
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { apiFetch } from "@/lib/api";
+import { setAuth } from "@/lib/auth";
+import { MIN_PASSWORD_LENGTH, type AuthResponse } from "@shared/auth";
+
+export function AuthScreen({ onSignedIn }: { onSignedIn: (auth: AuthResponse) => void }) {
+  const [mode, setMode] = useState<"login" | "register">("login");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const submit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = new FormData(e.currentTarget);
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await apiFetch(`/auth/${mode}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(Object.fromEntries(form)),
+      });
+      if (!res.ok) {
+        setError(await res.text());
+        return;
+      }
+      const auth = (await res.json()) as AuthResponse;
+      setAuth(auth);
+      onSignedIn(auth);
+    } catch (err) {
+      console.error(err);
+      setError("Couldn't reach the server");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="h-screen w-screen bg-slate-100 flex items-center justify-center p-4">
+      <Card className="w-full max-w-sm p-6 gap-4">
+        <h2 className="text-xl font-bold text-slate-800">{mode === "login" ? "Sign in" : "Create an account"}</h2>
+        <form className="flex flex-col gap-3" onSubmit={submit}>
+          {mode === "register" && (
+            <div className="grid gap-1.5">
+              <Label htmlFor="auth-name">Name</Label>
+              <Input id="auth-name" name="name" autoComplete="name" />
+            </div>
+          )}
+          <div className="grid gap-1.5">
+            <Label htmlFor="auth-email">Email</Label>
+            <Input id="auth-email" name="email" type="email" autoComplete="email" required />
+          </div>
+          <div className="grid gap-1.5">
+            <Label htmlFor="auth-password">Password</Label>
+            <Input
+              id="auth-password"
+              name="password"
+              type="password"
+              autoComplete={mode === "login" ? "current-password" : "new-password"}
+              minLength={mode === "register" ? MIN_PASSWORD_LENGTH : undefined}
+              required
+            />
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <Button type="submit" disabled={busy}>
+            {busy && <Loader2 className="w-4 h-4 animate-spin" />}
+            {mode === "login" ? "Sign in" : "Create account"}
+          </Button>
+        </form>
+        <button
+          type="button"
+          className="text-sm text-slate-500 hover:text-slate-800"
+          onClick={() => {
+            setMode(mode === "login" ? "register" : "login");
+            setError(null);
+          }}
+        >
+          {mode === "login" ? "New here? Create an account" : "Already have an account? Sign in"}
+        </button>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import { useState } from "react";
+import { Check, MessageSquare, RotateCcw, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { MAX_COMMENT_TEXT, type PdfAnnotation } from "@shared/annotations";
+
+interface CommentsSidebarProps {
+  comments: PdfAnnotation[];
+  activeId: string | null;
+  canResolve: boolean;
+  canDelete: boolean;
+  onSelect: (id: string) => void;
+  onReply: (id: string, text: string) => boolean;
+  onResolve: (id: string, resolved: boolean) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+function formatDate(iso?: string): string {
+  return iso ? new Date(iso).toLocaleString(undefined, { dateStyle: "short", timeStyle: "short" }) : "";
+}
+
+/** Every comment thread in the document, in page order. */
+export function CommentsSidebar({
+  comments, activeId, canResolve, canDelete, onSelect, onReply, onResolve, onDelete, onClose
+}: CommentsSidebarProps) {
+  const [showResolved, setShowResolved] = useState(false);
+  // Reply drafts by comment id
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  const visible = comments
+    .filter(c => showResolved || !c.resolved || c.id === activeId)
+    .sort((a, b) => a.page - b.page || b.y - a.y);
+  const resolvedCount = comments.filter(c => c.resolved).length;
+
+  const sendReply = (id: string) => {
+    const text = drafts[id]?.trim();
+    if (!text || !onReply(id, text)) return;
+    setDrafts(prev => ({ ...prev, [id]: "" }));
+  };
+
+  return (
+    <div className="absolute top-20 right-4 bottom-28 z-40 w-80 bg-white rounded-xl shadow-2xl border flex flex-col animate-in slide-in-from-right-10">
+      <div className="flex items-center justify-between px-4 py-3 border-b">
+        <h3 className="font-bold flex items-center gap-2">
+          <MessageSquare className="w-4 h-4" /> Comments
+        </h3>
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onClose}>
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 flex flex-col gap-3">
+        {visible.length === 0 && (
+          <p className="text-sm text-slate-500 text-center py-8">
+            No open comments. Pick the comment tool and tap the page to add one.
+          </p>
+        )}
+        {visible.map(comment => (
+          <div
+            key={comment.id}
+            className={`rounded-lg border p-3 flex flex-col gap-2 cursor-pointer ${
+              comment.id === activeId ? "border-amber-400 bg-amber-50" : "hover:bg-slate-50"
+            } ${comment.resolved ? "opacity-60" : ""}`}
+            onClick={() => onSelect(comment.id)}
+          >
+            <div className="flex items-center justify-between text-xs text-slate-500">
+              <span>Page {comment.page}{comment.resolved && " · Resolved"}</span>
+              <div className="flex gap-1" onClick={(e) => e.stopPropagation()}>
+                {canResolve && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    title={comment.resolved ? "Reopen" : "Resolve"}
+                    onClick={() => onResolve(comment.id, !comment.resolved)}
+                  >
+                    {comment.resolved ? <RotateCcw className="w-3.5 h-3.5" /> : <Check className="w-3.5 h-3.5" />}
+                  </Button>
+                )}
+                {canDelete && (
+                  <Button variant="ghost" size="icon" className="h-6 w-6 text-red-600" title="Delete thread" onClick={() => onDelete(comment.id)}>
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {comment.thread?.map(entry => (
+              <div key={entry.id} className="text-sm">
+                <div className="text-xs text-slate-500">
+                  <span className="font-medium text-slate-700">{entry.author ?? "Unknown"}</span> {formatDate(entry.createdAt)}
+                </div>
+                <p className="whitespace-pre-wrap break-words">{entry.text}</p>
+              </div>
+            ))}
+
+            {!comment.resolved && canResolve && (
+              <Input
+                className="h-8 text-sm"
+                placeholder="Reply"
+                maxLength={MAX_COMMENT_TEXT}
+                value={drafts[comment.id] ?? ""}
+                onClick={(e) => e.stopPropagation()}
+                onChange={(e) => setDrafts(prev => ({ ...prev, [comment.id]: e.target.value }))}
+                onKeyDown={(e) => e.key === "Enter" && sendReply(comment.id)}
+              />
+            )}
+          </div>
+        ))}
+      </div>
+
+      {resolvedCount > 0 && (
+        <button
+          type="button"
+          className="text-xs text-slate-500 hover:text-slate-800 py-2 border-t"
+          onClick={() => setShowResolved(!showResolved)}
+        >
+          {showResolved ? "Hide resolved" : `Show ${resolvedCount} resolved`}
+        </button>
+      )}
+    </div>
+  );
+}
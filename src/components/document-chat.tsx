@@ -0,0 +1,106 @@
+import { useEffect, useRef, useState } from "react";
+import { Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { MAX_QUESTION_LENGTH, type ChatMessage } from "@shared/chat";
+import { citationParts } from "@shared/summary";
+
+// An answer still arriving is `pending`
+export type ChatEntry = ChatMessage & { pending?: boolean };
+
+interface CitedTextProps {
+  text: string;
+  pageCount: number;
+  onShowPage: (page: number) => void;
+}
+
+/** Model output with its page citations as links to the pages. */
+export function CitedText({ text, pageCount, onShowPage }: CitedTextProps) {
+  return citationParts(text, pageCount).map((part, i) => typeof part === "string" ? part : (
+    <button
+      key={i}
+      className="text-purple-700 underline underline-offset-2 hover:text-purple-900"
+      title={`Go to page ${part.page}`}
+      onClick={() => onShowPage(part.page)}
+    >
+      {part.text}
+    </button>
+  ));
+}
+
+interface DocumentChatProps {
+  messages: ChatEntry[];
+  pageCount: number;
+  onAsk: (question: string) => boolean;
+  onShowPage: (page: number) => void;
+}
+
+/** Questions about the document and the answers, shared by everyone in the session. */
+export function DocumentChat({ messages, pageCount, onAsk, onShowPage }: DocumentChatProps) {
+  const [question, setQuestion] = useState("");
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: "end" });
+  }, [messages]);
+
+  const ask = () => {
+    const text = question.trim();
+    if (!text || !onAsk(text)) return;
+    setQuestion("");
+  };
+
+  return (
+    <div className="flex flex-col gap-3 min-h-0 flex-1">
+      <div className="flex-1 overflow-y-auto flex flex-col gap-3 min-h-48">
+        {messages.length === 0 && (
+          <p className="text-sm text-slate-500 text-center py-8">
+            Ask anything about this document. Answers come from its pages and say which ones.
+          </p>
+        )}
+        {messages.map(message => message.role === "user" ? (
+          <div key={message.id} className="self-end max-w-[85%] bg-purple-600 text-white rounded-xl rounded-br-sm px-3 py-2 text-sm">
+            {message.author && <div className="text-xs text-purple-200">{message.author}</div>}
+            <p className="whitespace-pre-wrap">{message.text}</p>
+          </div>
+        ) : (
+          <div key={message.id} className="self-start max-w-[85%] bg-slate-100 rounded-xl rounded-bl-sm px-3 py-2 text-sm text-slate-700">
+            <p className="whitespace-pre-wrap">
+              <CitedText text={message.text} pageCount={pageCount} onShowPage={onShowPage} />
+              {message.pending && <span className="animate-pulse">▍</span>}
+            </p>
+            {!!message.sources?.length && (
+              <div className="mt-2 flex flex-wrap items-center gap-1 text-xs text-slate-500">
+                Sources:
+                {[...new Set(message.sources.map(source => source.page))].map(page => (
+                  <button
+                    key={page}
+                    className="rounded-full bg-white border px-2 py-0.5 hover:border-purple-400"
+                    title={message.sources!.filter(source => source.page === page).map(source => source.text).join("\n\n")}
+                    onClick={() => onShowPage(page)}
+                  >
+                    p. {page}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+        <div ref={endRef} />
+      </div>
+      <div className="flex gap-2">
+        <Input
+          className="h-9 text-sm"
+          placeholder="Ask about this document"
+          maxLength={MAX_QUESTION_LENGTH}
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && ask()}
+        />
+        <Button size="icon" className="h-9 w-9 shrink-0" disabled={!question.trim()} onClick={ask} title="Ask">
+          <Send className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+import { useEffect, useState } from "react";
+import { ChevronLeft, ChevronRight, FileText, Loader2, LogOut, Search, Sparkles, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiFetch } from "@/lib/api";
+import { signOut } from "@/lib/auth";
+import type { AuthUser } from "@shared/auth";
+import type { DocumentListResponse, DocumentSort, DocumentSummary, LibraryMatch } from "@shared/documents";
+
+const PAGE_SIZE = 20;
+const SEARCH_DEBOUNCE_MS = 250;
+
+const SORT_LABELS: Record<DocumentSort, string> = {
+  updated: "Last edited",
+  created: "Date added",
+  title: "Title",
+  size: "Size",
+};
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+interface DocumentLibraryProps {
+  user: AuthUser;
+  onUpload: (file: File) => void;
+  onOpen: (doc: DocumentSummary, page?: number) => void;
+}
+
+export function DocumentLibrary({ user, onUpload, onOpen }: DocumentLibraryProps) {
+  const [query, setQuery] = useState("");
+  const [sort, setSort] = useState<DocumentSort>("updated");
+  const [offset, setOffset] = useState(0);
+  const [result, setResult] = useState<DocumentListResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  // Searching what documents say rather than what they're called
+  const [byMeaning, setByMeaning] = useState(false);
+  const [matches, setMatches] = useState<LibraryMatch[] | null>(null);
+  const searchingContents = byMeaning && !!query.trim();
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const params = new URLSearchParams({ q: query, sort, limit: String(PAGE_SIZE), offset: String(offset) });
+    const path = searchingContents ? `/documents/search?${new URLSearchParams({ q: query.trim() })}` : `/documents?${params}`;
+    // Debounced so typing a search doesn't fire a request per keystroke
+    const timer = setTimeout(() => {
+      setLoading(true);
+      apiFetch(path, { signal: controller.signal })
+        .then(res => {
+          if (!res.ok) throw new Error(`Library request failed (${res.status})`);
+          return res.json();
+        })
+        .then((data: DocumentListResponse | { matches: LibraryMatch[] }) => {
+          if ("matches" in data) setMatches(data.matches);
+          else setResult(data);
+          setError(null);
+        })
+        .catch(err => {
+          if (controller.signal.aborted) return;
+          console.error(err);
+          setError("Couldn't load your documents.");
+        })
+        .finally(() => !controller.signal.aborted && setLoading(false));
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, sort, offset, searchingContents]);
+
+  const total = result?.total ?? 0;
+  const documents = result?.documents ?? [];
+
+  return (
+    <div className="h-full overflow-y-auto">
+      <div className="max-w-3xl mx-auto px-4 pt-24 pb-12 flex flex-col gap-6">
+        <div className="flex items-center justify-between gap-4">
+          <h2 className="text-2xl font-bold text-slate-800">Documents</h2>
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-slate-500 hidden sm:inline">{user.name}</span>
+            <Button variant="ghost" size="icon" className="rounded-full" title="Sign out" onClick={signOut}>
+              <LogOut className="w-4 h-4" />
+            </Button>
+            <Button className="rounded-full relative cursor-pointer">
+              <input
+                type="file"
+                accept="application/pdf"
+                className="absolute inset-0 opacity-0 cursor-pointer"
+                onChange={(e) => e.target.files?.[0] && onUpload(e.target.files[0])}
+              />
+              <Upload className="w-4 h-4" /> Upload PDF
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+            <Input
+              className="pl-8 bg-white"
+              placeholder={byMeaning ? "Search what documents say" : "Search by title or file name"}
+              value={query}
+              onChange={(e) => {
+                setQuery(e.target.value);
+                setOffset(0);
+              }}
+            />
+          </div>
+          <Button
+            variant={byMeaning ? "default" : "outline"}
+            className={byMeaning ? "" : "bg-white"}
+            title="Find passages by meaning, not just matching words"
+            onClick={() => setByMeaning(!byMeaning)}
+          >
+            <Sparkles className="w-4 h-4" /> Contents
+          </Button>
+          <Select
+            value={sort}
+            onValueChange={(value) => {
+              setSort(value as DocumentSort);
+              setOffset(0);
+            }}
+          >
+            <SelectTrigger className="bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(SORT_LABELS) as DocumentSort[]).map(key => (
+                <SelectItem key={key} value={key}>{SORT_LABELS[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {searchingContents && matches && (
+          <div className="flex flex-col gap-2">
+            {!loading && matches.length === 0 && (
+              <p className="text-sm text-slate-500 text-center py-16">No passages about “{query}”.</p>
+            )}
+            {matches.map((match, i) => (
+              <Card
+                key={i}
+                className="gap-1 p-4 cursor-pointer hover:bg-slate-50 transition-colors"
+                onClick={() => onOpen(match.document, match.page)}
+              >
+                <div className="flex items-center gap-2 text-sm font-medium min-w-0">
+                  <FileText className="w-4 h-4 text-blue-600 shrink-0" />
+                  <span className="truncate">{match.document.title}</span>
+                  <span className="text-xs text-slate-500 font-normal shrink-0">Page {match.page}</span>
+                </div>
+                <p className="text-sm text-slate-600 line-clamp-3">{match.text}</p>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        {!searchingContents && !error && !loading && documents.length === 0 && (
+          <div className="flex flex-col items-center text-center py-16 text-slate-500">
+            <div className="w-20 h-20 bg-blue-100 rounded-3xl flex items-center justify-center mb-6 text-blue-600">
+              <Upload className="w-10 h-10" />
+            </div>
+            {query ? `Nothing matches “${query}”.` : "No documents yet. Upload a PDF to get started."}
+          </div>
+        )}
+
+        {loading && !(searchingContents ? matches : result) && (
+          <div className="flex justify-center py-16 text-slate-400">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        )}
+
+        {!searchingContents && <div className="flex flex-col gap-2">
+          {documents.map(doc => (
+            <Card
+              key={doc.id}
+              className="flex-row items-center gap-4 p-4 cursor-pointer hover:bg-slate-50 transition-colors"
+              onClick={() => onOpen(doc)}
+            >
+              <FileText className="w-8 h-8 text-blue-600 shrink-0" />
+              <div className="min-w-0 flex-1">
+                <div className="font-medium truncate">{doc.title}</div>
+                <div className="text-xs text-slate-500 truncate">
+                  {doc.filename} · {doc.pageCount} {doc.pageCount === 1 ? "page" : "pages"} · {formatSize(doc.size)}
+                  {doc.role === "owner" ? " · You own this" : ` · ${doc.owner} · ${doc.role}`}
+                </div>
+              </div>
+              <div className="text-xs text-slate-500 whitespace-nowrap">
+                {new Date(sort === "created" ? doc.createdAt : doc.updatedAt).toLocaleDateString()}
+              </div>
+            </Card>
+          ))}
+        </div>}
+
+        {!searchingContents && total > PAGE_SIZE && (
+          <div className="flex items-center justify-between text-sm text-slate-500">
+            <span>{offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}</span>
+            <div className="flex gap-1">
+              <Button variant="outline" size="icon" disabled={offset === 0} onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}>
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <Button variant="outline" size="icon" disabled={offset + PAGE_SIZE >= total} onClick={() => setOffset(offset + PAGE_SIZE)}>
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
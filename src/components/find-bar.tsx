@@ -0,0 +1,118 @@
+import { useEffect, useRef, useState } from "react";
+import { ChevronDown, ChevronUp, Search, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { apiFetch } from "@/lib/api";
+import type { SearchHit } from "@shared/text-search";
+
+interface FindBarProps {
+  documentId: string;
+  deletedPages: number[]; // 0-based
+  active: SearchHit | null;
+  // Every hit, to highlight on the pages
+  onResults: (hits: SearchHit[]) => void;
+  onShow: (hit: SearchHit) => void;
+  onClose: () => void;
+}
+
+// Wait for a pause in typing before asking the session
+const SEARCH_DELAY_MS = 250;
+
+/** Find in page: searches the document's text index and steps through the hits. */
+export function FindBar({ documentId, deletedPages, active, onResults, onShow, onClose }: FindBarProps) {
+  const [query, setQuery] = useState("");
+  const [hits, setHits] = useState<SearchHit[]>([]);
+  const [truncated, setTruncated] = useState(false);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Hits on pages deleted since the search are left out, not searched again
+  const visible = hits.filter(hit => !deletedPages.includes(hit.page - 1));
+  const index = active ? visible.indexOf(active) : -1;
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  // Pending search, replaced as the query changes
+  const pending = useRef<{ timer: ReturnType<typeof setTimeout>; controller: AbortController } | null>(null);
+
+  useEffect(() => () => {
+    clearTimeout(pending.current?.timer);
+    pending.current?.controller.abort();
+  }, []);
+
+  const search = (value: string) => {
+    setQuery(value);
+    clearTimeout(pending.current?.timer);
+    pending.current?.controller.abort();
+    pending.current = null;
+
+    const q = value.trim();
+    if (!q) {
+      setHits([]);
+      setError(null);
+      setSearching(false);
+      onResults([]);
+      return;
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      setSearching(true);
+      apiFetch(`/session/search?id=${documentId}&q=${encodeURIComponent(q)}`, { signal: controller.signal })
+        .then(res => (res.ok ? res.json() : res.text().then(text => Promise.reject(new Error(text)))))
+        .then((data: { hits: SearchHit[]; truncated: boolean }) => {
+          setHits(data.hits);
+          setTruncated(data.truncated);
+          setError(null);
+          const found = data.hits.filter(hit => !deletedPages.includes(hit.page - 1));
+          onResults(found);
+          if (found.length) onShow(found[0]);
+        })
+        .catch(err => {
+          if (controller.signal.aborted) return;
+          console.error(err);
+          setError("Search failed");
+        })
+        .finally(() => !controller.signal.aborted && setSearching(false));
+    }, SEARCH_DELAY_MS);
+    pending.current = { timer, controller };
+  };
+
+  const step = (by: number) => {
+    if (!visible.length) return;
+    onShow(visible[(Math.max(index, 0) + by + visible.length) % visible.length]);
+  };
+
+  const count = !query.trim() ? "" : searching ? "…" : visible.length
+    ? `${index + 1} of ${visible.length}${truncated ? "+" : ""}`
+    : "No matches";
+
+  return (
+    <div className="absolute top-20 left-1/2 -translate-x-1/2 z-40 bg-white rounded-full shadow-xl border pl-4 pr-1.5 py-1.5 flex items-center gap-1">
+      <Search className="w-4 h-4 text-slate-400" />
+      <Input
+        ref={inputRef}
+        className="h-8 w-56 border-0 shadow-none focus-visible:ring-0"
+        placeholder="Find in document"
+        value={query}
+        onChange={(e) => search(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") step(e.shiftKey ? -1 : 1);
+          if (e.key === "Escape") onClose();
+        }}
+      />
+      <span className="text-xs text-slate-500 min-w-16 text-right">{error ?? count}</span>
+      <Button variant="ghost" size="icon" className="h-8 w-8 rounded-full" disabled={!visible.length} onClick={() => step(-1)} title="Previous (Shift+Enter)">
+        <ChevronUp className="w-4 h-4" />
+      </Button>
+      <Button variant="ghost" size="icon" className="h-8 w-8 rounded-full" disabled={!visible.length} onClick={() => step(1)} title="Next (Enter)">
+        <ChevronDown className="w-4 h-4" />
+      </Button>
+      <Button variant="ghost" size="icon" className="h-8 w-8 rounded-full" onClick={onClose}>
+        <X className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+}
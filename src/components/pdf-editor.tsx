@@ -1,51 +1,182 @@
 import React, { useState, useRef, useEffect } from "react";
 import { Document, Page, pdfjs } from "react-pdf";
-import { TransformWrapper, TransformComponent } from "react-zoom-pan-pinch";
+import { TransformWrapper, TransformComponent, type ReactZoomPanPinchContentRef } from "react-zoom-pan-pinch";
 import { 
-  Save, Type, Upload, Eraser, MousePointer2, 
-  Sparkles, X, Image as ImageIcon, PenTool, Trash2, Edit3
+  Save, Type, Eraser, MousePointer2, 
+  Sparkles, X, Image as ImageIcon, PenTool, Trash2, Edit3, Undo2, Redo2, Link2, MessageSquare, MessageSquarePlus, MessageCircleQuestion, Layers,
+  Highlighter, Underline, Strikethrough, EyeOff, Search, ScanSearch
 } from "lucide-react";
 import { v4 as uuidv4 } from "uuid";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
-import { modifyPdf, type PdfAnnotation } from "@/lib/pdf-utils";
+import { AnnotationItem, type DragMode } from "@/components/annotation-item";
+import { AnnotationProperties } from "@/components/annotation-properties";
+import { CommentsSidebar } from "@/components/comments-sidebar";
+import { CitedText, DocumentChat, type ChatEntry } from "@/components/document-chat";
+import { PresenceRoster, RemoteCursor } from "@/components/presence";
+import { SearchPanel } from "@/components/search-panel";
+import { DocumentLibrary } from "@/components/document-library";
+import { FindBar } from "@/components/find-bar";
+import { ShareDialog, ShareLanding } from "@/components/share";
+import { apiFetch, wsUrl } from "@/lib/api";
+import { getGuestName, type RemoteCursor as RemoteCursorPosition } from "@/lib/presence";
+import {
+  boundingRect, clientToDisplay, displayRectToPage, displaySize, displayToPage, overlayToPage, overlayTransform,
+  pageGeometry, pageToDisplay, pageToOverlay, type PageGeometry, type Point, type Rect
+} from "@/lib/coordinates";
+import { modifyPdf } from "@/lib/pdf-utils";
+import {
+  applyAnnotationOp, DEFAULT_MARKUP_COLORS, invertEditOp, isTextMarkup, type EditOp, type PdfAnnotation, type TextMarkupType
+} from "@shared/annotations";
+import { canComment, canEdit, SHARE_ROLE_TO_ROLE, type AuthUser, type ResolvedShare, type Role } from "@shared/auth";
+import type { DocumentSummary } from "@shared/documents";
+import { RedactionError } from "@shared/pdf-redact";
+import { CLOSE_SHARE_EXPIRED, CLOSE_SHARE_REVOKED, maySend, parseClientMessage, type Presence } from "@shared/protocol";
+import type { SummaryProgress } from "@shared/summary";
+import type { PageText, SearchHit } from "@shared/text-search";
 import "react-pdf/dist/Page/AnnotationLayer.css";
 import "react-pdf/dist/Page/TextLayer.css";
 
 pdfjs.GlobalWorkerOptions.workerSrc = `//unpkg.com/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
 
-const API_BASE = import.meta.env.PROD ? "/api" : "http://localhost:8787/api";
-const WS_BASE = import.meta.env.PROD ? "wss://" + window.location.host + "/api" : "ws://localhost:8787/api";
+const HISTORY_LIMIT = 100;
+const CURSOR_THROTTLE_MS = 50;
 
-export function PdfEditor() {
+interface HistoryEntry {
+  op: EditOp;
+  inverse: EditOp;
+  // The last time `op` or `inverse` was sent, to match the session's answer to it
+  opId: string;
+  // Revision that send applied at, once the session acks it
+  revision: number | null;
+}
+
+type History = { past: HistoryEntry[]; future: HistoryEntry[] };
+
+// The entry last sent as `opId` replaced by what `update` makes of it, or dropped if that's null
+function settleEntry(history: History, opId: string, update: (entry: HistoryEntry) => HistoryEntry | null): History {
+  const settle = (entries: HistoryEntry[]) => entries.flatMap(entry => (entry.opId === opId ? update(entry) ?? [] : [entry]));
+  return { past: settle(history.past), future: settle(history.future) };
+}
+
+const MIN_ANNOTATION_SIZE = 8; // points
+
+interface DragState {
+  id: string;
+  mode: DragMode;
+  start: Point; // user space
+  origin: Rect;
+  changes: Partial<PdfAnnotation>;
+}
+
+// Geometry of a move/resize gesture, given the pointer delta in user space (y up).
+// Handle names refer to the corners of the unrotated page.
+function dragChanges(mode: DragMode, o: Rect, dx: number, dy: number): Partial<PdfAnnotation> {
+  if (mode === "move") return { x: o.x + dx, y: o.y + dy };
+
+  const right = o.x + o.width;
+  const top = o.y + o.height;
+  const x = mode === "nw" || mode === "sw" ? Math.min(o.x + dx, right - MIN_ANNOTATION_SIZE) : o.x;
+  const y = mode === "sw" || mode === "se" ? Math.min(o.y + dy, top - MIN_ANNOTATION_SIZE) : o.y;
+  const width = mode === "ne" || mode === "se" ? Math.max(MIN_ANNOTATION_SIZE, o.width + dx) : right - x;
+  const height = mode === "nw" || mode === "ne" ? Math.max(MIN_ANNOTATION_SIZE, o.height + dy) : top - y;
+  return { x, y, width, height };
+}
+
+function summaryProgressLabel(progress: SummaryProgress | null): string {
+  if (!progress) return "AI Processing...";
+  if (!progress.pages) return "Combining page summaries...";
+  const { from, to } = progress.pages;
+  return `Summarizing ${from === to ? `page ${from}` : `pages ${from}–${to}`} (${progress.done + 1} of ${progress.total})...`;
+}
+
+// Rendered page width in CSS pixels; annotations themselves are stored in points
+const pageWidthPx = () => (window.innerWidth > 768 ? 600 : window.innerWidth * 0.9);
+
+interface PdfEditorProps {
+  // Null when opened from a share link without signing in
+  user: AuthUser | null;
+  share?: ResolvedShare;
+}
+
+export function PdfEditor({ user, share }: PdfEditorProps) {
   const [file, setFile] = useState<File | null>(null);
   const [sessionId, setSessionId] = useState<string | null>(null);
   const [numPages, setNumPages] = useState<number>(0);
   const [annotations, setAnnotations] = useState<PdfAnnotation[]>([]);
   const [deletedPages, setDeletedPages] = useState<number[]>([]);
+  // Box and rotation of each page (1-based), reported by pdf.js once it loads
+  const [pageGeometries, setPageGeometries] = useState<Record<number, PageGeometry>>({});
   
   // Tool State
-  const [tool, setTool] = useState<"none" | "text" | "erase" | "draw" | "image" | "edit-text">("none");
+  const [tool, setTool] = useState<"none" | "text" | "erase" | "draw" | "image" | "edit-text" | "comment" | "redact" | TextMarkupType>("none");
+  const [markupColors, setMarkupColors] = useState<Record<TextMarkupType, string>>(DEFAULT_MARKUP_COLORS);
+  // What we may do with the open document; the session has the final say
+  const [role, setRole] = useState<Role>("viewer");
+  const readOnly = !canEdit(role);
   const [ws, setWs] = useState<WebSocket | null>(null);
+  // Last document revision seen from the session; every edit is stamped with it
+  const revisionRef = useRef(0);
+  const [conflictNotice, setConflictNotice] = useState<string | null>(null);
+  // Set when the session shut us out (share link revoked or expired)
+  const [accessEnded, setAccessEnded] = useState<string | null>(null);
+  const [sharing, setSharing] = useState(false);
+  // Draw edits into the pages on download instead of keeping them as annotations
+  const [flatten, setFlatten] = useState(false);
+
+  // Selection State (only active with the "none" tool)
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const selectedAnnotation = tool === "none" && !readOnly ? annotations.find(a => a.id === selectedId) : undefined;
+
+  // Comment State
+  const [commentsOpen, setCommentsOpen] = useState(false);
+  const [activeCommentId, setActiveCommentId] = useState<string | null>(null);
+  const comments = annotations.filter(a => a.type === "comment" && !deletedPages.includes(a.page - 1));
+  const openComments = comments.filter(c => !c.resolved).length;
+
+  // Search State
+  const [searchOpen, setSearchOpen] = useState(false);
+  const [findOpen, setFindOpen] = useState(false);
+  // Everything the find bar found, highlighted on the pages
+  const [findHits, setFindHits] = useState<SearchHit[]>([]);
+  // Outlined on the page and zoomed to
+  const [searchHit, setSearchHit] = useState<SearchHit | null>(null);
+
+  // Presence State
+  const [self, setSelf] = useState<Presence | null>(null);
+  const [peers, setPeers] = useState<Presence[]>([]);
+  const [cursors, setCursors] = useState<Record<string, RemoteCursorPosition>>({});
+  const lastCursorSent = useRef(0);
+
+  // Undo/Redo State (this user's own edits only)
+  const [history, setHistory] = useState<History>({ past: [], future: [] });
   
   // AI State
   const [aiSummary, setAiSummary] = useState<string>("");
   const [aiStatus, setAiStatus] = useState<"idle" | "thinking">("idle");
+  const [aiProgress, setAiProgress] = useState<SummaryProgress | null>(null);
+  const [aiPanel, setAiPanel] = useState<"summary" | "chat" | null>(null);
+  const [chatMessages, setChatMessages] = useState<ChatEntry[]>([]);
   
   // Drawing/Editing State
   const [currentPath, setCurrentPath] = useState<string>("");
   const [isDrawing, setIsDrawing] = useState(false);
+  // Box being dragged out with the redact tool, corners in user space
+  const [redactBox, setRedactBox] = useState<{ page: number; start: Point; end: Point } | null>(null);
   
   // Text Editing Overlay State
+  // left/top/width/height/cssFontSize place the input over the page (CSS px);
+  // baseline/fontSize/originalRect are what gets stored (user space points)
   const [editingField, setEditingField] = useState<{
-    id: string; page: number; x: number; y: number; 
-    width: number; height: number; 
-    text: string; fontSize: number; 
-    originalRect: {x:number, y:number, width:number, height:number} 
+    id: string; page: number; left: number; top: number; 
+    width: number; height: number; cssFontSize: number;
+    text: string; fontSize: number; baseline: Point;
+    originalRect: Rect
   } | null>(null);
 
-  const transformRef = useRef<any>(null);
+  const transformRef = useRef<ReactZoomPanPinchContentRef>(null);
 
   // --- Styles Injection for "Edit Mode" ---
   // This makes the usually invisible text layer clickable and visible on hover
@@ -70,105 +201,327 @@ export function PdfEditor() {
     }
   }, []);
 
-  const uploadFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const f = e.target.files[0];
+  const uploadFile = async (f: File) => {
       const fd = new FormData();
       fd.append("file", f);
       
       try {
-        const res = await fetch(`${API_BASE}/session/upload`, { method: "POST", body: fd });
+        const res = await apiFetch("/session/upload", { method: "POST", body: fd });
         if (!res.ok) throw new Error("Upload failed");
         const data = await res.json();
         setFile(f);
+        setRole("owner");
         setSessionId(data.id);
         connectWs(data.id);
       } catch (err) {
         console.error(err);
         alert("Upload failed");
       }
-    }
+  };
+
+  // Page to show once it's drawn, when a document is opened at one
+  const startPageRef = useRef<number | null>(null);
+
+  // Joins the document's session with the original upload; edits arrive over the socket
+  const openDocument = async (doc: Pick<DocumentSummary, "id" | "filename" | "role">, page?: number) => {
+      try {
+        startPageRef.current = page ?? null;
+        const res = await apiFetch(`/session/download?id=${doc.id}`);
+        if (!res.ok) throw new Error("Download failed");
+        setFile(new File([await res.blob()], doc.filename, { type: "application/pdf" }));
+        setRole(doc.role);
+        setSessionId(doc.id);
+        connectWs(doc.id);
+      } catch (err) {
+        console.error(err);
+        alert("Couldn't open that document");
+      }
   };
 
   const connectWs = (id: string) => {
     if (ws) ws.close();
-    const socket = new WebSocket(`${WS_BASE}/session/ws?id=${id}`);
+    const socket = new WebSocket(wsUrl("/session/ws", user ? { id } : { id, name: getGuestName() }));
     
     socket.onopen = () => console.log("Connected");
+    socket.onclose = (event) => {
+      if (event.code === CLOSE_SHARE_REVOKED) setAccessEnded("This share link has been revoked.");
+      if (event.code === CLOSE_SHARE_EXPIRED) setAccessEnded("This share link has expired.");
+    };
     socket.onmessage = (event) => {
       const msg = JSON.parse(event.data);
-      if (msg.type === "sync-annotations") setAnnotations(msg.annotations);
+      if (msg.type === "sync-annotations") revisionRef.current = msg.revision;
+      else if (typeof msg.revision === "number") revisionRef.current = Math.max(revisionRef.current, msg.revision);
+
+      if (msg.type === "sync-annotations") {
+        // The whole document was replaced (joining, or a revision was restored),
+        // so nothing in the undo history applies to it any more
+        setAnnotations(msg.annotations);
+        setHistory({ past: [], future: [] });
+        setSelectedId(null);
+      }
+      if (
+        msg.type === "annotation-add" || msg.type === "annotation-update" ||
+        msg.type === "annotation-delete" || msg.type === "comment-reply"
+      ) {
+        setAnnotations(prev => applyAnnotationOp(prev, msg));
+      }
+      if (msg.type === "page-delete" || msg.type === "page-restore") applyLocal(msg);
       if (msg.type === "sync-deleted-pages") setDeletedPages(msg.deletedPages);
-      if (msg.type === "ai-status") setAiStatus(msg.status);
+      if (msg.type === "op-ack") {
+        setHistory(h => settleEntry(h, msg.opId, entry => ({ ...entry, revision: msg.revision })));
+      }
+      if (msg.type === "conflict") {
+        // Whatever the rejected change would have undone or redone has moved on without it
+        setHistory(h => settleEntry(h, msg.opId, () => null));
+        // Our change was rejected: fall back to the server's copy of what it touched
+        if (msg.deletedPages) setDeletedPages(msg.deletedPages);
+        if (msg.annotation !== undefined) {
+          const current: PdfAnnotation | null = msg.annotation;
+          setAnnotations(prev => {
+            const rest = prev.filter(a => a.id !== current?.id);
+            return current ? applyAnnotationOp(rest, { type: "annotation-add", annotation: current }) : rest;
+          });
+        }
+        showNotice("Someone else edited this first. Your change was undone.");
+      }
+      if (msg.type === "error") showNotice(msg.message);
+      if (msg.type === "presence-sync") {
+        setRole(msg.role);
+        if (!canEdit(msg.role)) setTool(current => (current === "comment" && canComment(msg.role) ? current : "none"));
+        setSelf(msg.self);
+        setPeers(msg.clients.filter((p: Presence) => p.clientId !== msg.self.clientId));
+      }
+      if (msg.type === "presence-join") {
+        setPeers(prev => [...prev.filter(p => p.clientId !== msg.client.clientId), msg.client]);
+      }
+      if (msg.type === "presence-leave") {
+        setPeers(prev => prev.filter(p => p.clientId !== msg.clientId));
+        setCursors(prev => {
+          const next = { ...prev };
+          delete next[msg.clientId];
+          return next;
+        });
+      }
+      if (msg.type === "cursor-move") {
+        setCursors(prev => ({ ...prev, [msg.clientId]: { x: msg.x, y: msg.y, page: msg.page } }));
+      }
+      if (msg.type === "ai-status") {
+        setAiStatus(msg.status);
+        setAiProgress(msg.progress ?? null);
+      }
+      if (msg.type === "ai-chunk") {
+        setAiSummary(prev => prev.slice(0, msg.offset) + msg.text);
+        if (msg.offset === 0) setAiPanel(panel => panel ?? "summary");
+      }
       if (msg.type === "ai-result") {
         setAiSummary(msg.text);
         setAiStatus("idle");
+        setAiProgress(null);
+        setAiPanel(panel => panel ?? "summary");
+      }
+      if (msg.type === "chat-history") setChatMessages(msg.messages);
+      if (msg.type === "chat-question") setChatMessages(prev => [...prev, msg.message]);
+      if (msg.type === "chat-sources") {
+        setChatMessages(prev => [
+          ...prev,
+          { id: msg.id, role: "assistant", text: "", sources: msg.sources, createdAt: new Date().toISOString(), pending: true },
+        ]);
+      }
+      if (msg.type === "chat-token") {
+        setChatMessages(prev => prev.map(m => (m.id === msg.id ? { ...m, text: m.text + msg.text } : m)));
+      }
+      if (msg.type === "chat-answer") {
+        setChatMessages(prev => prev.some(m => m.id === msg.message.id)
+          ? prev.map(m => (m.id === msg.message.id ? msg.message : m))
+          : [...prev, msg.message]);
       }
     };
     setWs(socket);
   };
 
-  const syncAnnotations = (newAnnotations: PdfAnnotation[]) => {
-      setAnnotations(newAnnotations);
-      ws?.send(JSON.stringify({ type: "sync-annotations", annotations: newAnnotations }));
+  const showNotice = (message: string) => {
+      setConflictNotice(message);
+      setTimeout(() => setConflictNotice(null), 4000);
+  };
+
+  // Edits carry the revision they were based on so the session can detect conflicts.
+  // They are checked with the same validator the session uses, so anything the
+  // session would reject never gets applied locally. Returns false if rejected,
+  // or if there's no connection to send it over.
+  const sendChange = (change: EditOp, opId = uuidv4(), baseRevision = revisionRef.current): boolean => {
+      if (!maySend(role, change, annotations)) {
+          showNotice(canComment(role) ? "You can only comment on this document" : "You can only view this document");
+          return false;
+      }
+      const message = JSON.stringify({ ...change, opId, baseRevision });
+      const parsed = parseClientMessage(message);
+      if (!parsed.ok) {
+          showNotice(`Change not saved: ${parsed.error}`);
+          return false;
+      }
+      if (ws?.readyState !== WebSocket.OPEN) {
+          showNotice("Change not saved: not connected to the document");
+          return false;
+      }
+      ws.send(message);
+      return true;
+  };
+
+  const applyLocal = (op: EditOp) => {
+      if (op.type === "page-delete") setDeletedPages(prev => (prev.includes(op.page) ? prev : [...prev, op.page]));
+      else if (op.type === "page-restore") setDeletedPages(prev => prev.filter(p => p !== op.page));
+      else setAnnotations(prev => applyAnnotationOp(prev, op));
+  };
+
+  // Apply locally first, then let the session broadcast it to everyone else.
+  // Commenters can't delete, so their comments get no undo step.
+  const sendOp = (op: EditOp): boolean => {
+      const opId = uuidv4();
+      if (!sendChange(op, opId)) return false;
+      const inverse = invertEditOp(annotations, op);
+      if (inverse && !readOnly) {
+          setHistory(h => ({ past: [...h.past, { op, inverse, opId, revision: null }].slice(-HISTORY_LIMIT), future: [] }));
+      }
+      applyLocal(op);
+      return true;
+  };
+
+  const addAnnotation = (annotation: PdfAnnotation) => sendOp({ type: "annotation-add", annotation });
+
+  const updateAnnotation = (id: string, changes: Partial<PdfAnnotation>) => sendOp({ type: "annotation-update", id, changes });
+
+  const deleteAnnotation = (id: string) => {
+      sendOp({ type: "annotation-delete", id });
+      if (selectedId === id) setSelectedId(null);
+  };
+
+  // Replies aren't undoable and carry an author the session fills in,
+  // so they show up when the session echoes them back
+  const replyToComment = (id: string, text: string) =>
+      sendChange({ type: "comment-reply", id, reply: { id: uuidv4(), text } });
+
+  const showComment = (id: string) => {
+      setActiveCommentId(id);
+      setCommentsOpen(true);
+      setSearchOpen(false);
+      transformRef.current?.zoomToElement(`comment-${id}`, 1.5);
+  };
+
+  useEffect(() => {
+      if (searchHit) transformRef.current?.zoomToElement("search-hit", 1.5);
+  }, [searchHit]);
+
+  const showPage = (page: number) => {
+      setAiPanel(null);
+      transformRef.current?.zoomToElement(`page-${page}`, 1);
   };
 
+  const closeFind = () => {
+      setFindOpen(false);
+      setFindHits([]);
+      setSearchHit(null);
+  };
+
+  // One redaction per hit, each its own undo step like any other edit
+  const redactHits = (hits: SearchHit[]) =>
+      hits.filter(hit => {
+          const box = boundingRect(hit.quads.flatMap(q => [{ x: q.x, y: q.y }, { x: q.x + q.width, y: q.y + q.height }]));
+          return addAnnotation({ id: uuidv4(), type: "redact", page: hit.page, ...box, quads: hit.quads });
+      }).length;
+
+  // Undo/redo replay through the session like any other edit, so collaborators see them too.
+  // They're based on the revision the edit they reverse applied at, not the latest one,
+  // so if someone else has changed the same thing since, the session rejects them
+  // instead of overwriting that change. Until the ack arrives the latest revision
+  // is as good: nothing after the edit has been seen yet.
+  const undo = () => {
+      const entry = history.past[history.past.length - 1];
+      if (!entry) return;
+      const opId = uuidv4();
+      if (!sendChange(entry.inverse, opId, entry.revision ?? revisionRef.current)) return;
+      setHistory(h => ({ past: h.past.slice(0, -1), future: [...h.future, { ...entry, opId, revision: null }] }));
+      applyLocal(entry.inverse);
+  };
+
+  const redo = () => {
+      const entry = history.future[history.future.length - 1];
+      if (!entry) return;
+      const opId = uuidv4();
+      if (!sendChange(entry.op, opId, entry.revision ?? revisionRef.current)) return;
+      setHistory(h => ({ past: [...h.past, { ...entry, opId, revision: null }], future: h.future.slice(0, -1) }));
+      applyLocal(entry.op);
+  };
+
+  // Re-bound every render so the handlers always see the current history
+  useEffect(() => {
+      const onKeyDown = (e: KeyboardEvent) => {
+          const target = e.target as HTMLElement;
+          if (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable) return;
+
+          if ((e.key === "Delete" || e.key === "Backspace") && selectedAnnotation) {
+              e.preventDefault();
+              deleteAnnotation(selectedAnnotation.id);
+              return;
+          }
+          if (!(e.ctrlKey || e.metaKey)) return;
+
+          const key = e.key.toLowerCase();
+          if (key === "f" && file && sessionId) { e.preventDefault(); setFindOpen(true); }
+          if (key === "z" && !e.shiftKey) { e.preventDefault(); undo(); }
+          else if ((key === "z" && e.shiftKey) || key === "y") { e.preventDefault(); redo(); }
+      };
+      window.addEventListener("keydown", onKeyDown);
+      return () => window.removeEventListener("keydown", onKeyDown);
+  });
+
   // --- Interaction Logic ---
 
+  // Pointer position on a page, in display points (see `@/lib/coordinates`)
+  const pointerToDisplay = (clientX: number, clientY: number, pageEl: Element, pageNumber: number): Point | null => {
+      const g = pageGeometries[pageNumber];
+      return g ? clientToDisplay(g, pageEl.getBoundingClientRect(), clientX, clientY) : null;
+  };
+
+  // Pointer position on a page, in PDF user space
+  const pointerToPage = (clientX: number, clientY: number, pageEl: Element, pageNumber: number): Point | null => {
+      const d = pointerToDisplay(clientX, clientY, pageEl, pageNumber);
+      return d && displayToPage(pageGeometries[pageNumber], d);
+  };
+
   // Handle clicking on existing PDF text
-  const handleTextLayerClick = (e: React.MouseEvent, pageIndex: number, pageHeight: number) => {
+  const handleTextLayerClick = (e: React.MouseEvent, pageIndex: number) => {
       if (tool !== "edit-text") return;
       
       const target = e.target as HTMLElement;
       if (target.tagName !== "SPAN") return;
+      const g = pageGeometries[pageIndex + 1];
+      if (!g) return;
 
       e.stopPropagation(); // Prevent page tap
       
       const rect = target.getBoundingClientRect();
-      const pageEl = target.closest(".react-pdf__Page") as HTMLElement;
-      const pageRect = pageEl.getBoundingClientRect();
-      
-      // Calculate relative position in the HTML Page element
-      const left = rect.left - pageRect.left;
-      const top = rect.top - pageRect.top;
-      
-      // Extract font size approx
-      const fontSizeStr = window.getComputedStyle(target).fontSize;
-      const fontSize = parseFloat(fontSizeStr) || 12;
-
-      // Calculate PDF coordinates (Bottom-Left origin)
-      // Note: react-pdf scales the page. We need unscaled coords for PDF-lib ideally, 
-      // but here we work in "viewer units" and let the backend/render logic handle consistency.
-      // However, PDF-lib expects 72DPI points. React-PDF renders at scale.
-      // Simpler approach: Store ratio and let PDF-lib handle basic positioning relative to height.
-      
-      // For accurate PDF modification, we need the PDF point coordinates.
-      // PDF y = PageHeight - top - height (roughly, since top is top-left)
-      // We will refine this in modifyPdf. For now we pass the viewer-relative coordinates
-      // and assume 1:1 scale or handle scale in backend if needed. 
-      // *Crucial*: We use the unscaled PDF coordinates if we can, but DOM gives us scaled.
-      // We'll rely on visual placement for now.
-
-      // PDF Y is inverted from DOM Y. 
-      // ann.y in our system = distance from TOP (for rendering overlay)
-      // backend needs distance from BOTTOM.
-      
-      // Let's create the editing field
+      const pageEl = target.closest(".page-container") as HTMLElement;
+      const topLeft = pointerToDisplay(rect.left, rect.top, pageEl, pageIndex + 1)!;
+      const bottomRight = pointerToDisplay(rect.right, rect.bottom, pageEl, pageIndex + 1)!;
+      const spanRect = { x: topLeft.x, y: topLeft.y, width: bottomRight.x - topLeft.x, height: bottomRight.y - topLeft.y };
+
+      // CSS pixels per point at the rendered size (layout size, so zoom doesn't matter)
+      const pxPerPoint = pageEl.offsetWidth / displaySize(g).width;
+      const cssFontSize = parseFloat(window.getComputedStyle(target).fontSize) || 12;
+
       setEditingField({
           id: uuidv4(),
           page: pageIndex + 1,
-          x: left,
-          y: top,
-          width: rect.width + 20, // ample space
-          height: rect.height,
+          left: spanRect.x * pxPerPoint,
+          top: spanRect.y * pxPerPoint,
+          width: spanRect.width * pxPerPoint + 20, // ample space
+          height: spanRect.height * pxPerPoint,
+          cssFontSize,
           text: target.innerText,
-          fontSize: fontSize,
-          originalRect: {
-              x: left,
-              y: pageHeight - top - rect.height, // PDF Y (Bottom up) attempt
-              width: rect.width,
-              height: rect.height
-          }
+          fontSize: cssFontSize / pxPerPoint,
+          // Baseline sits roughly a descender above the bottom of the span
+          baseline: displayToPage(g, { x: spanRect.x, y: spanRect.y + spanRect.height * 0.8 }),
+          originalRect: displayRectToPage(g, spanRect),
       });
   };
 
@@ -184,43 +537,108 @@ export function PdfEditor() {
           id: editingField.id,
           type: "text-replace",
           page: editingField.page,
-          x: editingField.x, // Viewer X (Left)
-          y: editingField.originalRect.y, // PDF Y (Bottom) - reusing calc from click
+          x: editingField.baseline.x,
+          y: editingField.baseline.y,
           text: editingField.text,
           fontSize: editingField.fontSize,
           color: "#000000",
           originalTextRect: editingField.originalRect
       };
 
-      syncAnnotations([...annotations, newAnn]);
+      addAnnotation(newAnn);
       setEditingField(null);
   };
 
+  // --- Selection: move/resize existing annotations ---
+
+  const startDrag = (e: React.PointerEvent, ann: PdfAnnotation, mode: DragMode) => {
+      if (tool !== "none") return;
+      e.stopPropagation();
+      const pageEl = e.currentTarget.closest(".page-container");
+      const start = pageEl && pointerToPage(e.clientX, e.clientY, pageEl, ann.page);
+      if (!start) return;
+
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setSelectedId(ann.id);
+      setDrag({
+          id: ann.id, mode, start,
+          origin: { x: ann.x, y: ann.y, width: ann.width ?? 0, height: ann.height ?? 0 },
+          changes: {},
+      });
+  };
+
+  const moveDrag = (e: React.PointerEvent, ann: PdfAnnotation) => {
+      if (!drag) return;
+      const pageEl = e.currentTarget.closest(".page-container");
+      const p = pageEl && pointerToPage(e.clientX, e.clientY, pageEl, ann.page);
+      if (!p) return;
+      const dx = p.x - drag.start.x;
+      const dy = p.y - drag.start.y;
+      const changes = dragChanges(drag.mode, drag.origin, dx, dy);
+      // Markup is drawn from its quads, so those move with it
+      if (ann.quads) changes.quads = ann.quads.map(q => ({ ...q, x: q.x + dx, y: q.y + dy }));
+      setDrag({ ...drag, changes });
+  };
+
+  // The gesture is sent as a single update so it is also a single undo step
+  const endDrag = () => {
+      if (!drag) return;
+      if (Object.keys(drag.changes).length) updateAnnotation(drag.id, drag.changes);
+      setDrag(null);
+  };
+
+  const trackCursor = (e: React.PointerEvent, pageIndex: number) => {
+      const now = e.timeStamp;
+      if (!ws || now - lastCursorSent.current < CURSOR_THROTTLE_MS) return;
+      lastCursorSent.current = now;
+
+      // Sent in user space so it lands right whatever size the other viewer renders at
+      const p = pointerToPage(e.clientX, e.clientY, e.currentTarget, pageIndex + 1);
+      if (!p) return;
+      ws.send(JSON.stringify({ type: "cursor-move", x: p.x, y: p.y, page: pageIndex + 1 }));
+  };
+
   const handlePageTap = (e: React.MouseEvent | React.TouchEvent, pageIndex: number) => {
     if (editingField) { setEditingField(null); return; } // Click away to close edit
-    if (tool === "draw" || tool === "edit-text") return;
+    if (tool === "none") { setSelectedId(null); setActiveCommentId(null); return; }
+    if (tool === "draw" || tool === "redact" || tool === "edit-text" || isTextMarkup(tool)) return;
     
     const target = e.currentTarget as HTMLDivElement;
-    const rect = target.getBoundingClientRect();
     // ... (Existing input handlers)
     const clientX = 'touches' in e ? (e as React.TouchEvent).touches[0].clientX : (e as React.MouseEvent).clientX;
     const clientY = 'touches' in e ? (e as React.TouchEvent).touches[0].clientY : (e as React.MouseEvent).clientY;
-    const x = clientX - rect.left;
-    const y = clientY - rect.top;
+    const g = pageGeometries[pageIndex + 1];
+    const tap = pointerToDisplay(clientX, clientY, target, pageIndex + 1);
+    if (!g || !tap) return;
 
     if (tool === "text") {
        const text = prompt("Enter text:");
        if (text) {
-         syncAnnotations([...annotations, {
-           id: uuidv4(), type: "text", page: pageIndex + 1, x, y, text, color: "#000000", fontSize: 16
-         }]);
+         const fontSize = 16;
+         // The tap marks the top-left of the text
+         const { x, y } = displayToPage(g, { x: tap.x, y: tap.y + fontSize * 0.8 });
+         addAnnotation({
+           id: uuidv4(), type: "text", page: pageIndex + 1, x, y, text, color: "#000000", fontSize
+         });
+       }
+       setTool("none");
+    } else if (tool === "comment") {
+       const text = prompt("Comment:")?.trim();
+       if (text) {
+         const id = uuidv4();
+         const { x, y } = displayToPage(g, tap);
+         if (addAnnotation({ id, type: "comment", page: pageIndex + 1, x, y, color: "#facc15", thread: [{ id: uuidv4(), text }] })) {
+           setActiveCommentId(id);
+           setCommentsOpen(true);
+         }
        }
        setTool("none");
     } else if (tool === "erase") {
         // ... existing erase logic
-         syncAnnotations([...annotations, {
-           id: uuidv4(), type: "rect", page: pageIndex + 1, x: x - 25, y: y - 10, width: 50, height: 20, color: "#ffffff"
-         }]);
+         const box = displayRectToPage(g, { x: tap.x - 25, y: tap.y - 10, width: 50, height: 20 });
+         addAnnotation({
+           id: uuidv4(), type: "rect", page: pageIndex + 1, ...box, color: "#ffffff"
+         });
     } else if (tool === "image") {
         // ... existing image logic
         const input = document.createElement('input');
@@ -232,9 +650,10 @@ export function PdfEditor() {
                 const reader = new FileReader();
                 reader.onload = (readerEv) => {
                     const base64 = readerEv.target?.result as string;
-                    syncAnnotations([...annotations, {
-                        id: uuidv4(), type: "image", page: pageIndex + 1, x, y, width: 100, height: 100, image: base64
-                    }]);
+                    const box = displayRectToPage(g, { x: tap.x, y: tap.y, width: 100, height: 100 });
+                    addAnnotation({
+                        id: uuidv4(), type: "image", page: pageIndex + 1, ...box, image: base64
+                    });
                 };
                 reader.readAsDataURL(f);
             }
@@ -244,66 +663,170 @@ export function PdfEditor() {
     }
   };
 
-  // ... (Drawing logic remains the same) ...
-  const startDrawing = (e: React.MouseEvent, _pageIndex: number) => {
+  // Paths are recorded in overlay points (top-left of the unrotated page, y down),
+  // which is SVG path space relative to the page's top-left corner in user space
+  const pointerToOverlay = (e: React.MouseEvent, pageIndex: number): Point | null => {
+      const p = pointerToPage(e.clientX, e.clientY, e.currentTarget, pageIndex + 1);
+      return p && pageToOverlay(pageGeometries[pageIndex + 1], p);
+  };
+
+  const startDrawing = (e: React.MouseEvent, pageIndex: number) => {
+      if (tool === "redact") {
+          const p = pointerToPage(e.clientX, e.clientY, e.currentTarget, pageIndex + 1);
+          if (p) setRedactBox({ page: pageIndex + 1, start: p, end: p });
+          return;
+      }
       if (tool !== "draw") return;
+      const p = pointerToOverlay(e, pageIndex);
+      if (!p) return;
       setIsDrawing(true);
-      const target = e.currentTarget as HTMLDivElement;
-      const rect = target.getBoundingClientRect();
-      const x = e.clientX - rect.left;
-      const y = e.clientY - rect.top;
-      setCurrentPath(`M ${x} ${y}`);
+      setCurrentPath(`M ${p.x.toFixed(2)} ${p.y.toFixed(2)}`);
   };
 
-  const drawMove = (e: React.MouseEvent) => {
+  const drawMove = (e: React.MouseEvent, pageIndex: number) => {
+      if (redactBox?.page === pageIndex + 1) {
+          const p = pointerToPage(e.clientX, e.clientY, e.currentTarget, pageIndex + 1);
+          if (p) setRedactBox({ ...redactBox, end: p });
+          return;
+      }
       if (!isDrawing || tool !== "draw") return;
-      const target = e.currentTarget as HTMLDivElement;
-      const rect = target.getBoundingClientRect();
-      const x = e.clientX - rect.left;
-      const y = e.clientY - rect.top;
-      setCurrentPath(prev => `${prev} L ${x} ${y}`);
+      const p = pointerToOverlay(e, pageIndex);
+      if (!p) return;
+      setCurrentPath(prev => `${prev} L ${p.x.toFixed(2)} ${p.y.toFixed(2)}`);
   };
 
   const endDrawing = (pageIndex: number) => {
+      if (redactBox?.page === pageIndex + 1) {
+          const box = boundingRect([redactBox.start, redactBox.end]);
+          // Anything smaller is a stray click
+          if (box.width > 2 && box.height > 2) addAnnotation({ id: uuidv4(), type: "redact", page: pageIndex + 1, ...box });
+          setRedactBox(null);
+          return;
+      }
       if (!isDrawing || tool !== "draw") return;
       setIsDrawing(false);
-      if (currentPath.length > 10) {
-          syncAnnotations([...annotations, {
-              id: uuidv4(), type: "path", page: pageIndex + 1, x: 0, y: 0, path: currentPath, color: "#ef4444", strokeWidth: 3
-          }]);
+      const g = pageGeometries[pageIndex + 1];
+      if (g && currentPath.length > 10) {
+          const origin = overlayToPage(g, { x: 0, y: 0 });
+          addAnnotation({
+              id: uuidv4(), type: "path", page: pageIndex + 1, ...origin, path: currentPath, color: "#ef4444", strokeWidth: 3
+          });
       }
       setCurrentPath("");
   };
 
+  // Turn the text selected on a page into a markup annotation, one quad per line
+  const markSelection = (e: React.MouseEvent, pageIndex: number) => {
+      if (!isTextMarkup(tool)) return;
+      const selection = window.getSelection();
+      const g = pageGeometries[pageIndex + 1];
+      if (!selection || selection.isCollapsed || !g) return;
+
+      const pageEl = e.currentTarget;
+      const bounds = pageEl.getBoundingClientRect();
+      const boxes: Rect[] = [];
+      for (const r of selection.getRangeAt(0).getClientRects()) {
+          // A selection dragged past the page edge also covers text on the neighbouring pages
+          const cx = r.left + r.width / 2;
+          const cy = r.top + r.height / 2;
+          if (r.width < 1 || r.height < 1 || cx < bounds.left || cx > bounds.right || cy < bounds.top || cy > bounds.bottom) continue;
+          const topLeft = pointerToDisplay(r.left, r.top, pageEl, pageIndex + 1)!;
+          const bottomRight = pointerToDisplay(r.right, r.bottom, pageEl, pageIndex + 1)!;
+          boxes.push(displayRectToPage(g, {
+              x: Math.min(topLeft.x, bottomRight.x),
+              y: Math.min(topLeft.y, bottomRight.y),
+              width: Math.abs(bottomRight.x - topLeft.x),
+              height: Math.abs(bottomRight.y - topLeft.y),
+          }));
+      }
+      if (!boxes.length) return;
+
+      // Selecting across blocks also returns the rects of whole text-layer
+      // elements; they're much taller than a line of text
+      const heights = boxes.map(b => b.height).sort((a, b) => a - b);
+      const median = heights[Math.floor(heights.length / 2)];
+      const lines: Rect[] = [];
+      for (const box of boxes.filter(b => b.height <= median * 2).sort((a, b) => b.y - a.y || a.x - b.x)) {
+          // Spans on the same line overlap vertically by at least half their height
+          const line = lines.find(l =>
+              Math.min(l.y + l.height, box.y + box.height) - Math.max(l.y, box.y) > Math.min(l.height, box.height) / 2
+          );
+          if (!line) { lines.push({ ...box }); continue; }
+          const right = Math.max(line.x + line.width, box.x + box.width);
+          const top = Math.max(line.y + line.height, box.y + box.height);
+          line.x = Math.min(line.x, box.x);
+          line.y = Math.min(line.y, box.y);
+          line.width = right - line.x;
+          line.height = top - line.y;
+      }
+
+      const left = Math.min(...lines.map(l => l.x));
+      const bottom = Math.min(...lines.map(l => l.y));
+      addAnnotation({
+          id: uuidv4(), type: tool, page: pageIndex + 1, x: left, y: bottom,
+          width: Math.max(...lines.map(l => l.x + l.width)) - left,
+          height: Math.max(...lines.map(l => l.y + l.height)) - bottom,
+          quads: lines, color: markupColors[tool],
+      });
+      selection.removeAllRanges();
+  };
+
   const deletePage = (index: number) => {
       if (confirm(`Delete page ${index + 1}?`)) {
-          const newDeleted = [...deletedPages, index];
-          setDeletedPages(newDeleted);
-          ws?.send(JSON.stringify({ type: "sync-deleted-pages", deletedPages: newDeleted }));
+          sendOp({ type: "page-delete", page: index });
       }
   };
 
   const triggerAi = () => {
-    if(!ws) return;
+    if(!ws || aiStatus === "thinking") return;
     setAiStatus("thinking");
+    setAiSummary("");
     ws.send(JSON.stringify({ type: "ai-summarize" }));
   };
 
+  const cancelAi = () => {
+    ws?.send(JSON.stringify({ type: "ai-cancel" }));
+    setAiStatus("idle");
+    setAiProgress(null);
+  };
+
+  const askQuestion = (question: string) => {
+    if (!ws || ws.readyState !== WebSocket.OPEN) return false;
+    ws.send(JSON.stringify({ type: "chat-ask", question }));
+    return true;
+  };
+
   const downloadPdf = async () => {
     if(!file) return;
-    // Map annotations to correct PDF logic if needed, 
-    // but modifyPdf handles the y-inversion mostly.
-    const modifiedBytes = await modifyPdf(file, annotations, deletedPages);
+    // Scanned pages' recognized text goes in too; the download works without it
+    let textLayer: PageText[] = [];
+    if (sessionId) {
+      try {
+        const res = await apiFetch(`/session/ocr?id=${sessionId}`);
+        if (res.ok) textLayer = ((await res.json()) as { pages: PageText[] }).pages;
+      } catch (e) {
+        console.error("Loading recognized text failed", e);
+      }
+    }
+    // Annotations are already in PDF user space, so they go to pdf-lib as-is
+    let modifiedBytes: Uint8Array;
+    try {
+      modifiedBytes = await modifyPdf(file, annotations, deletedPages, { mode: flatten ? "flatten" : "annotations", textLayer });
+    } catch (e) {
+      console.error("Export failed", e);
+      alert(e instanceof RedactionError ? e.message : "Couldn't export this document");
+      return;
+    }
     const blob = new Blob([modifiedBytes as any], { type: "application/pdf" });
     const link = document.createElement("a");
     link.href = URL.createObjectURL(blob);
     link.download = "edited_" + file.name;
     link.click();
     
-    if (sessionId) {
+    if (sessionId && !readOnly) {
         const fd = new FormData();
         fd.append("file", blob, "edited_" + file.name);
-        fetch(`${API_BASE}/session/save-changes?id=${sessionId}`, { method: "POST", body: fd });
+        apiFetch(`/session/save-changes?id=${sessionId}`, { method: "POST", body: fd });
     }
   };
 
@@ -313,28 +836,75 @@ export function PdfEditor() {
       <div className="absolute top-4 left-0 right-0 z-50 flex justify-center pointer-events-none">
         <div className="bg-black/90 backdrop-blur-md text-white rounded-full px-6 py-2 shadow-2xl pointer-events-auto flex items-center gap-4">
            <span className="font-bold text-sm tracking-wide">Cloudflare PDF Pro</span>
+           <PresenceRoster self={self} peers={peers} />
            {aiStatus === "thinking" && (
              <span className="text-xs bg-purple-600 px-2 py-0.5 rounded-full animate-pulse flex items-center gap-1">
-               <Sparkles className="w-3 h-3" /> AI Processing...
+               <Sparkles className="w-3 h-3" />
+               {summaryProgressLabel(aiProgress)}
+               <button className="ml-1 hover:text-purple-200" title="Stop" onClick={cancelAi}>
+                 <X className="w-3 h-3" />
+               </button>
              </span>
            )}
+           {conflictNotice && (
+             <span className="text-xs bg-amber-500 px-2 py-0.5 rounded-full">{conflictNotice}</span>
+           )}
+           {readOnly && file && (
+             <span className="text-xs bg-slate-600 px-2 py-0.5 rounded-full">{role === "commenter" ? "Can comment" : "View only"}</span>
+           )}
+           {file && (
+             <Button
+               variant="ghost"
+               size="sm"
+               className={`h-7 text-white hover:bg-white/10 hover:text-white ${commentsOpen ? "bg-white/10" : ""}`}
+               onClick={() => { setCommentsOpen(!commentsOpen); setSearchOpen(false); }}
+               title="Comments"
+             >
+               <MessageSquare className="w-4 h-4" /> {openComments}
+             </Button>
+           )}
+           {file && sessionId && (
+             <Button
+               variant="ghost"
+               size="sm"
+               className={`h-7 text-white hover:bg-white/10 hover:text-white ${searchOpen ? "bg-white/10" : ""}`}
+               // Both panels sit in the same place
+               onClick={() => { setSearchOpen(!searchOpen); setCommentsOpen(false); }}
+               title="Search and redact"
+             >
+               <ScanSearch className="w-4 h-4" />
+             </Button>
+           )}
+           {file && sessionId && (
+             <Button
+               variant="ghost"
+               size="sm"
+               className={`h-7 text-white hover:bg-white/10 hover:text-white ${findOpen ? "bg-white/10" : ""}`}
+               onClick={() => (findOpen ? closeFind() : setFindOpen(true))}
+               title="Find (Ctrl+F)"
+             >
+               <Search className="w-4 h-4" />
+             </Button>
+           )}
+           {role === "owner" && sessionId && !share && (
+             <Button variant="ghost" size="sm" className="h-7 text-white hover:bg-white/10 hover:text-white" onClick={() => setSharing(true)}>
+               <Link2 className="w-4 h-4" /> Share
+             </Button>
+           )}
         </div>
       </div>
 
       {/* Canvas */}
       <div className="flex-1 relative z-0">
         {!file ? (
-          <div className="h-full flex flex-col items-center justify-center p-6 text-center">
-            {/* ... Upload UI ... */}
-            <div className="w-20 h-20 bg-blue-100 rounded-3xl flex items-center justify-center mb-6 text-blue-600">
-               <Upload className="w-10 h-10" />
-            </div>
-            <h2 className="text-2xl font-bold text-slate-800">Tap to Upload</h2>
-            <Button size="lg" className="rounded-full px-8 h-12 text-lg shadow-lg relative mt-6 cursor-pointer">
-              <input type="file" accept="application/pdf" className="absolute inset-0 opacity-0 cursor-pointer" onChange={uploadFile} />
-              Select PDF
-            </Button>
-          </div>
+          share ? (
+            <ShareLanding
+              share={share}
+              onOpen={() => openDocument({ id: share.documentId, filename: share.filename, role: SHARE_ROLE_TO_ROLE[share.role] })}
+            />
+          ) : user && (
+            <DocumentLibrary user={user} onUpload={uploadFile} onOpen={openDocument} />
+          )
         ) : (
           <TransformWrapper
             ref={transformRef}
@@ -343,132 +913,134 @@ export function PdfEditor() {
             maxScale={4}
             centerOnInit
             disabled={tool !== "none" && tool !== "edit-text"} 
+            panning={{ excluded: ["annotation-handle"] }}
           >
             <TransformComponent wrapperClass="!w-full !h-full" contentClass="!w-full !h-full">
               <div className="w-full min-h-full flex flex-col items-center py-20 gap-8">
                  <Document file={file} onLoadSuccess={({ numPages }) => setNumPages(numPages)}>
                     {Array.from(new Array(numPages), (_, i) => {
                       if (deletedPages.includes(i)) return null;
+                      const geometry = pageGeometries[i + 1];
+                      // CSS pixels per point at the rendered size
+                      const pageScale = geometry ? pageWidthPx() / displaySize(geometry).width : 1;
+                      const redactPreview = redactBox?.page === i + 1 && geometry ? boundingRect([redactBox.start, redactBox.end]) : null;
+                      const redactCorner = redactPreview && pageToOverlay(geometry, { x: redactPreview.x, y: redactPreview.y + redactPreview.height });
                       return (
                         <div 
                           key={i} 
-                          className="relative shadow-2xl group page-container"
+                          id={`page-${i + 1}`}
+                          className={`relative shadow-2xl group page-container ${tool === "redact" ? "select-none" : ""}`}
                           onClick={(e) => handlePageTap(e, i)}
                           onMouseDown={(e) => startDrawing(e, i)}
-                          onMouseMove={drawMove}
-                          onMouseUp={() => endDrawing(i)}
+                          onMouseMove={(e) => drawMove(e, i)}
+                          onPointerMove={(e) => trackCursor(e, i)}
+                          onMouseUp={(e) => { endDrawing(i); markSelection(e, i); }}
                           onMouseLeave={() => endDrawing(i)}
                         >
                            {/* IMPORTANT: Capture Ref to get Page dimensions for coordinates */}
                            <Page 
                              pageNumber={i + 1} 
-                             width={window.innerWidth > 768 ? 600 : window.innerWidth * 0.9} 
+                             width={pageWidthPx()} 
                              renderTextLayer={true} // Enable Text Layer for Editing
+                             // Markup already in the file arrives as session annotations (see
+                             // `@shared/pdf-import`), so pdf.js mustn't draw it a second time
                              renderAnnotationLayer={false}
-                             onLoadSuccess={(_page) => {
-                                 // We could store page dimensions here if needed
+                             onLoadSuccess={(page) => {
+                                 setPageGeometries(prev => ({ ...prev, [i + 1]: pageGeometry(page.view, page.rotate) }));
                              }}
-                             onClick={(e) => {
-                                 // HACK: Find the page height from the DOM element
-                                 const height = e.currentTarget.getBoundingClientRect().height;
-                                 handleTextLayerClick(e, i, height);
+                             onRenderSuccess={() => {
+                                 if (startPageRef.current !== i + 1) return;
+                                 startPageRef.current = null;
+                                 showPage(i + 1);
                              }}
+                             onClick={(e) => handleTextLayerClick(e, i)}
                            />
                            
                            {/* Delete Page Button */}
-                           <Button 
+                           {!readOnly && <Button 
                              size="icon" 
                              variant="destructive" 
                              className="absolute -right-12 top-0 opacity-0 group-hover:opacity-100 transition-opacity rounded-full shadow-lg"
                              onClick={(e) => { e.stopPropagation(); deletePage(i); }}
                            >
                              <Trash2 className="w-4 h-4" />
-                           </Button>
+                           </Button>}
 
-                           {/* Render Annotations */}
-                           {annotations.filter(a => a.page === i + 1).map(ann => (
-                             <div 
-                               key={ann.id}
-                               className="absolute pointer-events-none whitespace-pre"
+                           {/* Render Annotations: laid out in points on the unrotated page, then
+                               scaled and rotated onto the rendered page in one transform */}
+                           {geometry && (
+                             <div
+                               className="absolute left-0 top-0 pointer-events-none"
                                style={{
-                                 left: 0, top: 0, width: '100%', height: '100%'
+                                 width: geometry.width,
+                                 height: geometry.height,
+                                 transformOrigin: "0 0",
+                                 transform: overlayTransform(geometry, pageScale),
                                }}
                              >
-                               {/* Render Text Replace: White Box + New Text */}
-                               {ann.type === "text-replace" && (
-                                   <>
-                                     <div style={{
-                                         position: "absolute",
-                                         left: ann.originalTextRect?.x,
-                                         top: ann.originalTextRect?.y ? (ann.y /* Using stored Top coord */) : ann.y, 
-                                         // NOTE: In viewer, y is usually Top-down. In PDF-lib, Bottom-up. 
-                                         // We stored 'x' and 'y' in viewer coords for the 'text' part in saveEdit().
-                                         // We stored 'originalTextRect' with PDF coords for the backend. 
-                                         // Here we just render the visual result.
-                                         // The "Redaction" visual:
-                                         // Actually, 'ann.x' was 'left', 'ann.y' was PDF bottom-up in saveEdit. 
-                                         // Wait, let's fix the Viewer Render logic.
-                                         // For Viewer, we need Top-Down.
-                                         // In saveEdit, we stored 'x' (left) and 'originalRect.y' (bottom-up).
-                                         // We need to store 'viewerY' (top-down) for React rendering.
-                                         // Let's assume ann.y for "text-replace" is TOP-DOWN for React, but we send transformed for PDF.
-                                         // To keep it simple: We use "x" and "y" as TOP-LEFT for React rendering.
-                                         // Backend maps them.
-                                     }} />
-                                     
-                                     {/* 1. The White-out Mask (Visual only, to hide underlying text) */}
-                                     <div style={{
-                                        position: "absolute",
-                                        left: ann.originalTextRect?.x,
-                                        top: ann.x === ann.originalTextRect?.x ? ann.y : ann.y, // Using ann.y as Top
-                                        width: ann.originalTextRect?.width,
-                                        height: ann.originalTextRect?.height,
-                                        backgroundColor: "white",
-                                        zIndex: 10
-                                     }} />
-
-                                     {/* 2. The New Text */}
-                                     <div style={{ 
-                                         position: "absolute", 
-                                         left: ann.x, 
-                                         top: ann.y, 
-                                         fontSize: ann.fontSize, 
-                                         color: ann.color, 
-                                         fontFamily: "Helvetica, sans-serif",
-                                         fontWeight: "bold",
-                                         zIndex: 11
-                                     }}>
-                                       {ann.text}
-                                   </div>
-                                   </>
-                               )}
+                               {annotations.filter(a => a.page === i + 1).map(ann => (
+                                 <AnnotationItem
+                                   key={ann.id}
+                                   annotation={drag?.id === ann.id ? { ...ann, ...drag.changes } : ann}
+                                   geometry={geometry}
+                                   selectable={tool === "none" && !readOnly}
+                                   selected={selectedAnnotation?.id === ann.id || activeCommentId === ann.id}
+                                   onDragStart={(e, mode) => startDrag(e, ann, mode)}
+                                   onDragMove={(e) => moveDrag(e, ann)}
+                                   onDragEnd={endDrag}
+                                   onActivate={() => showComment(ann.id)}
+                                 />
+                               ))}
 
-                               {ann.type === "text" && (
-                                   <div style={{ position: "absolute", left: ann.x, top: ann.y, fontSize: ann.fontSize, color: ann.color, fontWeight: "bold" }}>
-                                       {ann.text}
-                                   </div>
-                               )}
-                               {ann.type === "rect" && (
-                                   <div style={{ position: "absolute", left: ann.x, top: ann.y, width: ann.width, height: ann.height, backgroundColor: ann.color }} />
-                               )}
-                               {ann.type === "image" && (
-                                   <img src={ann.image} style={{ position: "absolute", left: ann.x, top: ann.y, width: ann.width, height: ann.height, objectFit: "contain" }} />
+                               {/* Redaction being dragged out */}
+                               {redactPreview && redactCorner && (
+                                   <div
+                                     className="absolute bg-black/60 outline-2 outline-dashed outline-red-600"
+                                     style={{ left: redactCorner.x, top: redactCorner.y, width: redactPreview.width, height: redactPreview.height }}
+                                   />
                                )}
-                               {ann.type === "path" && (
-                                   <svg style={{ position: "absolute", left: 0, top: 0, width: "100%", height: "100%", overflow: "visible" }}>
-                                       <path d={ann.path} stroke={ann.color} strokeWidth={ann.strokeWidth} fill="none" strokeLinecap="round" />
+
+                               {/* Find results */}
+                               {findHits.filter(hit => hit.page === i + 1 && hit !== searchHit).flatMap(hit => hit.quads).map((quad, q) => {
+                                   const corner = pageToOverlay(geometry, { x: quad.x, y: quad.y + quad.height });
+                                   return (
+                                     <div
+                                       key={q}
+                                       className="absolute bg-yellow-300/40"
+                                       style={{ left: corner.x, top: corner.y, width: quad.width, height: quad.height }}
+                                     />
+                                   );
+                               })}
+
+                               {/* Search hit being looked at */}
+                               {searchHit?.page === i + 1 && searchHit.quads.map((quad, q) => {
+                                   const corner = pageToOverlay(geometry, { x: quad.x, y: quad.y + quad.height });
+                                   return (
+                                     <div
+                                       key={q}
+                                       id={q === 0 ? "search-hit" : undefined}
+                                       className="absolute bg-amber-300/30 outline-2 outline-amber-500"
+                                       style={{ left: corner.x, top: corner.y, width: quad.width, height: quad.height }}
+                                     />
+                                   );
+                               })}
+
+                               {/* Active Drawing Path */}
+                               {isDrawing && tool === "draw" && (
+                                   <svg className="absolute inset-0 w-full h-full overflow-visible">
+                                       <path d={currentPath} stroke="#ef4444" strokeWidth={3} fill="none" strokeLinecap="round" />
                                    </svg>
                                )}
                              </div>
-                           ))}
+                           )}
 
                            {/* Active Editing Input Overlay */}
                            {editingField && editingField.page === i + 1 && (
                                <div
                                 style={{
                                     position: "absolute",
-                                    left: editingField.x,
-                                    top: editingField.y,
+                                    left: editingField.left,
+                                    top: editingField.top,
                                     zIndex: 100
                                 }}
                                 onClick={(e) => e.stopPropagation()}
@@ -483,7 +1055,7 @@ export function PdfEditor() {
                                      }}
                                      onBlur={saveEdit}
                                      style={{
-                                         fontSize: editingField.fontSize,
+                                         fontSize: editingField.cssFontSize,
                                          width: Math.max(100, editingField.width * 1.5),
                                          height: editingField.height + 10,
                                          padding: "0 4px",
@@ -494,12 +1066,13 @@ export function PdfEditor() {
                                </div>
                            )}
 
-                           {/* Active Drawing Path */}
-                           {isDrawing && tool === "draw" && (
-                               <svg className="absolute inset-0 w-full h-full pointer-events-none">
-                                   <path d={currentPath} stroke="#ef4444" strokeWidth={3} fill="none" strokeLinecap="round" />
-                               </svg>
-                           )}
+                           {/* Collaborator Cursors */}
+                           {geometry && peers.map(p => {
+                               const cursor = cursors[p.clientId];
+                               if (cursor?.page !== i + 1) return null;
+                               const d = pageToDisplay(geometry, cursor);
+                               return <RemoteCursor key={p.clientId} presence={p} left={d.x * pageScale} top={d.y * pageScale} />;
+                           })}
                         </div>
                       );
                     })}
@@ -517,6 +1090,7 @@ export function PdfEditor() {
               <Button variant={tool === "none" ? "default" : "ghost"} size="icon" className="rounded-full w-12 h-12" onClick={() => setTool("none")}>
                 <MousePointer2 className="w-5 h-5" />
               </Button>
+              {!readOnly && <>
               <Button 
                 variant={tool === "edit-text" ? "default" : "ghost"} 
                 size="icon" 
@@ -538,12 +1112,60 @@ export function PdfEditor() {
               <Button variant={tool === "erase" ? "default" : "ghost"} size="icon" className="rounded-full w-12 h-12" onClick={() => setTool("erase")}>
                 <Eraser className="w-5 h-5" />
               </Button>
+              <Button variant={tool === "redact" ? "default" : "ghost"} size="icon" className="rounded-full w-12 h-12" onClick={() => setTool("redact")} title="Redact: drag over what to remove for good on download">
+                <EyeOff className="w-5 h-5" />
+              </Button>
+              <Button variant={tool === "highlight" ? "default" : "ghost"} size="icon" className="rounded-full w-12 h-12" onClick={() => setTool("highlight")} title="Highlight selected text">
+                <Highlighter className="w-5 h-5" />
+              </Button>
+              <Button variant={tool === "underline" ? "default" : "ghost"} size="icon" className="rounded-full w-12 h-12" onClick={() => setTool("underline")} title="Underline selected text">
+                <Underline className="w-5 h-5" />
+              </Button>
+              <Button variant={tool === "strikeout" ? "default" : "ghost"} size="icon" className="rounded-full w-12 h-12" onClick={() => setTool("strikeout")} title="Strike out selected text">
+                <Strikethrough className="w-5 h-5" />
+              </Button>
+              {isTextMarkup(tool) && (
+                <Input
+                  type="color"
+                  className="w-10 h-10 p-1 rounded-full cursor-pointer"
+                  title="Markup color"
+                  value={markupColors[tool]}
+                  onChange={(e) => setMarkupColors(prev => ({ ...prev, [tool]: e.target.value }))}
+                />
+              )}
+              </>}
+              {canComment(role) && (
+                <Button variant={tool === "comment" ? "default" : "ghost"} size="icon" className="rounded-full w-12 h-12" onClick={() => setTool("comment")} title="Add a comment">
+                  <MessageSquarePlus className="w-5 h-5" />
+                </Button>
+              )}
            </div>
 
+           {!readOnly && <div className="bg-white rounded-full shadow-xl border p-1.5 flex items-center gap-1">
+              <Button variant="ghost" size="icon" className="rounded-full w-12 h-12" onClick={undo} disabled={!history.past.length} title="Undo (Ctrl+Z)">
+                <Undo2 className="w-5 h-5" />
+              </Button>
+              <Button variant="ghost" size="icon" className="rounded-full w-12 h-12" onClick={redo} disabled={!history.future.length} title="Redo (Ctrl+Shift+Z)">
+                <Redo2 className="w-5 h-5" />
+              </Button>
+           </div>}
+
            <div className="bg-white rounded-full shadow-xl border p-1.5 flex items-center gap-1">
-             <Button variant="outline" size="icon" className="rounded-full w-12 h-12 text-purple-600 bg-purple-50" onClick={triggerAi}>
+             <Button variant="outline" size="icon" className="rounded-full w-12 h-12 text-purple-600 bg-purple-50" onClick={triggerAi} title="Summarize">
                 <Sparkles className="w-5 h-5" />
               </Button>
+              <Button variant="ghost" size="icon" className="rounded-full w-12 h-12 text-purple-600" onClick={() => setAiPanel("chat")} title="Ask the document">
+                <MessageCircleQuestion className="w-5 h-5" />
+              </Button>
+              <Button
+                variant={flatten ? "default" : "ghost"}
+                size="icon"
+                className="rounded-full w-12 h-12"
+                onClick={() => setFlatten(!flatten)}
+                title={flatten ? "Download flattened into the pages" : "Download with editable annotations"}
+              >
+                <Layers className="w-5 h-5" />
+              </Button>
               <Button variant="default" size="icon" className="rounded-full w-12 h-12 bg-black text-white hover:bg-slate-800" onClick={downloadPdf}>
                 <Save className="w-5 h-5" />
               </Button>
@@ -551,19 +1173,101 @@ export function PdfEditor() {
         </div>
       )}
 
+      {/* Selected Annotation Properties */}
+      {selectedAnnotation && selectedAnnotation.type !== "comment" && !drag && (
+        <AnnotationProperties
+          annotation={selectedAnnotation}
+          onChange={(changes) => updateAnnotation(selectedAnnotation.id, changes)}
+          onDelete={() => deleteAnnotation(selectedAnnotation.id)}
+          onClose={() => setSelectedId(null)}
+        />
+      )}
+
+      {commentsOpen && file && (
+        <CommentsSidebar
+          comments={comments}
+          activeId={activeCommentId}
+          canResolve={canComment(role)}
+          canDelete={!readOnly}
+          onSelect={showComment}
+          onReply={replyToComment}
+          onResolve={(id, resolved) => updateAnnotation(id, { resolved })}
+          onDelete={deleteAnnotation}
+          onClose={() => setCommentsOpen(false)}
+        />
+      )}
+
+      {findOpen && sessionId && (
+        <FindBar
+          documentId={sessionId}
+          deletedPages={deletedPages}
+          active={searchHit}
+          onResults={setFindHits}
+          onShow={setSearchHit}
+          onClose={closeFind}
+        />
+      )}
+
+      {searchOpen && sessionId && (
+        <SearchPanel
+          documentId={sessionId}
+          deletedPages={deletedPages}
+          redactions={annotations.filter(a => a.type === "redact")}
+          activeHit={searchHit}
+          canRedact={!readOnly}
+          onShow={setSearchHit}
+          onRedact={redactHits}
+          onClose={() => { setSearchOpen(false); setSearchHit(null); }}
+        />
+      )}
+
+      {sharing && sessionId && <ShareDialog documentId={sessionId} onClose={() => setSharing(false)} />}
+
+      {accessEnded && (
+        <div className="absolute inset-0 z-[60] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4">
+          <Card className="w-full max-w-sm p-6 text-center">{accessEnded}</Card>
+        </div>
+      )}
+
       {/* AI Modal */}
-      {aiSummary && (
+      {aiPanel && (
         <div className="absolute inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in">
-          <Card className="w-full max-w-lg p-6 relative max-h-[80vh] overflow-y-auto">
-            <Button variant="ghost" size="icon" className="absolute top-2 right-2" onClick={() => setAiSummary("")}>
+          <Card className="w-full max-w-lg p-6 relative h-[80vh] flex flex-col">
+            <Button variant="ghost" size="icon" className="absolute top-2 right-2" onClick={() => setAiPanel(null)}>
               <X className="w-4 h-4" />
             </Button>
-            <h3 className="font-bold text-lg mb-4 flex items-center gap-2 text-purple-700">
-              <Sparkles className="w-5 h-5" /> Document Summary
-            </h3>
-            <div className="text-slate-700 leading-relaxed whitespace-pre-wrap font-mono text-sm">
-              {aiSummary}
+            <div className="flex gap-1 mb-4">
+              <Button variant={aiPanel === "summary" ? "secondary" : "ghost"} size="sm" className="text-purple-700" onClick={() => setAiPanel("summary")}>
+                <Sparkles className="w-4 h-4" /> Document Summary
+              </Button>
+              <Button variant={aiPanel === "chat" ? "secondary" : "ghost"} size="sm" className="text-purple-700" onClick={() => setAiPanel("chat")}>
+                <MessageCircleQuestion className="w-4 h-4" /> Ask
+              </Button>
             </div>
+            {aiPanel === "summary" ? <>
+              <div className="flex-1 overflow-y-auto text-slate-700 leading-relaxed whitespace-pre-wrap font-mono text-sm">
+                {aiSummary ? <>
+                  <CitedText text={aiSummary} pageCount={numPages} onShowPage={showPage} />
+                  {aiStatus === "thinking" && <span className="animate-pulse">▍</span>}
+                </> : (
+                  <div className="text-center py-8 font-sans flex flex-col items-center gap-3">
+                    <p className="text-slate-500">{aiStatus === "thinking" ? summaryProgressLabel(aiProgress) : "No summary yet."}</p>
+                    {aiStatus !== "thinking" && (
+                      <Button size="sm" onClick={triggerAi}>
+                        <Sparkles className="w-4 h-4" /> Summarize
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+              {aiStatus === "thinking" && (
+                <Button variant="outline" size="sm" className="self-center mt-3" onClick={cancelAi}>
+                  <X className="w-4 h-4" /> Stop
+                </Button>
+              )}
+            </> : (
+              <DocumentChat messages={chatMessages} pageCount={numPages} onAsk={askQuestion} onShowPage={showPage} />
+            )}
           </Card>
         </div>
       )}
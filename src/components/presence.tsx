@@ -0,0 +1,41 @@
+import { MousePointer2 } from "lucide-react";
+import type { Presence } from "@shared/protocol";
+import { initials } from "@/lib/presence";
+
+export function PresenceRoster({ self, peers }: { self: Presence | null; peers: Presence[] }) {
+  const everyone = self ? [self, ...peers] : peers;
+  if (!everyone.length) return null;
+
+  return (
+    <div className="flex items-center -space-x-2">
+      {everyone.map(p => (
+        <div
+          key={p.clientId}
+          title={p === self ? `${p.name} (you)` : p.name}
+          className="w-7 h-7 rounded-full border-2 border-black flex items-center justify-center text-[10px] font-bold text-white"
+          style={{ backgroundColor: p.color }}
+        >
+          {initials(p.name)}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Positioned in CSS pixels over the rendered page
+export function RemoteCursor({ presence, left, top }: { presence: Presence; left: number; top: number }) {
+  return (
+    <div
+      className="absolute pointer-events-none z-40 transition-[left,top] duration-75"
+      style={{ left, top }}
+    >
+      <MousePointer2 className="w-4 h-4 -translate-x-0.5 -translate-y-0.5" style={{ color: presence.color, fill: presence.color }} />
+      <span
+        className="ml-3 px-1.5 py-0.5 rounded text-[10px] font-medium text-white whitespace-nowrap"
+        style={{ backgroundColor: presence.color }}
+      >
+        {presence.name}
+      </span>
+    </div>
+  );
+}
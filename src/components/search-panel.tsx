@@ -0,0 +1,192 @@
+import { useEffect, useState } from "react";
+import { EyeOff, Search, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiFetch } from "@/lib/api";
+import { redactedAreas, type PdfAnnotation } from "@shared/annotations";
+import type { Rect } from "@shared/geometry";
+import { SEARCH_PRESETS, searchText, type PageText, type SearchHit, type SearchQuery } from "@shared/text-search";
+
+interface SearchPanelProps {
+  documentId: string;
+  deletedPages: number[]; // 0-based
+  redactions: PdfAnnotation[];
+  activeHit: SearchHit | null;
+  canRedact: boolean;
+  onShow: (hit: SearchHit) => void;
+  // Returns how many redactions were made
+  onRedact: (hits: SearchHit[]) => number;
+  onClose: () => void;
+}
+
+// Search mode for free text, alongside the preset ids
+const CUSTOM = "custom";
+
+function contains(outer: Rect, inner: Rect): boolean {
+  return (
+    outer.x <= inner.x && outer.y <= inner.y &&
+    outer.x + outer.width >= inner.x + inner.width && outer.y + outer.height >= inner.y + inner.height
+  );
+}
+
+/** Whether existing redactions already cover all of `hit`. */
+function isRedacted(hit: SearchHit, redactions: PdfAnnotation[]): boolean {
+  const areas = redactions.filter(r => r.page === hit.page).flatMap(redactedAreas);
+  return hit.quads.every(quad => areas.some(area => contains(area, quad)));
+}
+
+/** Finds text or patterns across the document and turns the hits into redactions. */
+export function SearchPanel({
+  documentId, deletedPages, redactions, activeHit, canRedact, onShow, onRedact, onClose
+}: SearchPanelProps) {
+  const [pages, setPages] = useState<PageText[] | null>(null);
+  const [mode, setMode] = useState(CUSTOM);
+  const [text, setText] = useState("");
+  const [regex, setRegex] = useState(false);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [hits, setHits] = useState<SearchHit[] | null>(null);
+  const [truncated, setTruncated] = useState(false);
+  // Indices into `hits` to redact
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    apiFetch(`/session/text?id=${documentId}`)
+      .then(res => (res.ok ? res.json() : Promise.reject(new Error(`Loading text failed (${res.status})`))))
+      .then((data: { pages: PageText[] }) => setPages(data.pages))
+      .catch(err => {
+        console.error(err);
+        setError("Couldn't read the document's text");
+      });
+  }, [documentId]);
+
+  const run = (query: SearchQuery) => {
+    if (!pages) return;
+    const result = searchText(pages.filter(p => !deletedPages.includes(p.page - 1)), query);
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    setError(null);
+    setHits(result.value.hits);
+    setTruncated(result.value.truncated);
+    // Everything not yet redacted starts out picked, so reviewing means unticking false positives
+    setSelected(new Set(result.value.hits.flatMap((hit, i) => (isRedacted(hit, redactions) ? [] : [i]))));
+  };
+
+  const choose = (value: string) => {
+    setMode(value);
+    if (value !== CUSTOM) run({ preset: value });
+  };
+
+  const toggle = (i: number) => setSelected(prev => {
+    const next = new Set(prev);
+    if (!next.delete(i)) next.add(i);
+    return next;
+  });
+
+  const redactSelected = () => {
+    if (!hits) return;
+    const made = onRedact(hits.filter((_, i) => selected.has(i)));
+    if (made) setSelected(new Set());
+  };
+
+  return (
+    <div className="absolute top-20 right-4 bottom-28 z-40 w-96 bg-white rounded-xl shadow-2xl border flex flex-col animate-in slide-in-from-right-10">
+      <div className="flex items-center justify-between px-4 py-3 border-b">
+        <h3 className="font-bold flex items-center gap-2">
+          <Search className="w-4 h-4" /> Search
+        </h3>
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onClose}>
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="p-3 flex flex-col gap-2 border-b">
+        <Select value={mode} onValueChange={choose}>
+          <SelectTrigger><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={CUSTOM}>Text or pattern</SelectItem>
+            {SEARCH_PRESETS.map(preset => (
+              <SelectItem key={preset.id} value={preset.id}>{preset.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {mode === CUSTOM && <>
+          <div className="flex gap-2">
+            <Input
+              className="h-8 text-sm"
+              placeholder={regex ? "Regular expression" : "Find text"}
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && run({ text, regex, caseSensitive })}
+            />
+            <Button size="sm" className="h-8" disabled={!pages} onClick={() => run({ text, regex, caseSensitive })}>Find</Button>
+          </div>
+          <div className="flex gap-4 text-xs text-slate-600">
+            <label className="flex items-center gap-1.5">
+              <input type="checkbox" checked={regex} onChange={(e) => setRegex(e.target.checked)} /> Regex
+            </label>
+            <label className="flex items-center gap-1.5">
+              <input type="checkbox" checked={caseSensitive} onChange={(e) => setCaseSensitive(e.target.checked)} /> Match case
+            </label>
+          </div>
+        </>}
+        {!pages && !error && <p className="text-xs text-slate-500">Reading the document…</p>}
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 flex flex-col gap-1">
+        {hits?.length === 0 && <p className="text-sm text-slate-500 text-center py-8">No matches.</p>}
+        {hits?.map((hit, i) => {
+          const redacted = isRedacted(hit, redactions);
+          const [first] = hit.quads;
+          return (
+            <div
+              key={i}
+              className={`rounded-md px-2 py-1.5 flex items-start gap-2 text-sm cursor-pointer ${
+                hit === activeHit ? "bg-amber-50 ring-1 ring-amber-400" : "hover:bg-slate-50"
+              }`}
+              onClick={() => onShow(hit)}
+            >
+              {canRedact && (
+                <input
+                  type="checkbox"
+                  className="mt-1"
+                  checked={selected.has(i)}
+                  disabled={redacted}
+                  onClick={(e) => e.stopPropagation()}
+                  onChange={() => toggle(i)}
+                />
+              )}
+              <div className="min-w-0">
+                <div className="text-xs text-slate-500" title="Position in points from the page's bottom-left corner">
+                  Page {hit.page} · {Math.round(first.x)}, {Math.round(first.y)}{redacted && " · Redacted"}
+                </div>
+                <p className="truncate">
+                  <span className="text-slate-400">{hit.before}</span>
+                  <mark className="bg-yellow-200">{hit.text}</mark>
+                  <span className="text-slate-400">{hit.after}</span>
+                </p>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {hits && hits.length > 0 && (
+        <div className="p-3 border-t flex items-center justify-between gap-2">
+          <span className="text-xs text-slate-500">
+            {hits.length}{truncated && "+"} {hits.length === 1 ? "match" : "matches"}
+          </span>
+          {canRedact && (
+            <Button size="sm" disabled={!selected.size} onClick={redactSelected}>
+              <EyeOff className="w-4 h-4" /> Redact {selected.size}
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import { useEffect, useState } from "react";
+import { Check, Copy, Link2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiFetch } from "@/lib/api";
+import { getGuestName, setGuestName } from "@/lib/presence";
+import { MAX_NAME_LENGTH, type CreatedShareLink, type ResolvedShare, type ShareLink, type ShareRole } from "@shared/auth";
+
+const ROLE_LABELS: Record<ShareRole, string> = {
+  view: "Can view",
+  comment: "Can comment",
+  edit: "Can edit",
+};
+
+// Hours; "never" is sent as no expiry
+const EXPIRY_OPTIONS: Record<string, { label: string; hours: number | null }> = {
+  day: { label: "1 day", hours: 24 },
+  week: { label: "7 days", hours: 7 * 24 },
+  month: { label: "30 days", hours: 30 * 24 },
+  never: { label: "Never", hours: null },
+};
+
+function shareUrl(token: string): string {
+  return `${window.location.origin}${window.location.pathname}?share=${encodeURIComponent(token)}`;
+}
+
+function linkStatus(link: ShareLink): string {
+  if (link.revokedAt) return "Revoked";
+  if (!link.expiresAt) return "Never expires";
+  const expires = new Date(link.expiresAt);
+  return expires.getTime() <= Date.now() ? "Expired" : `Expires ${expires.toLocaleDateString()}`;
+}
+
+/** Owner-only: mint, copy and revoke share links for a document. */
+export function ShareDialog({ documentId, onClose }: { documentId: string; onClose: () => void }) {
+  const [role, setRole] = useState<ShareRole>("view");
+  const [expiry, setExpiry] = useState("week");
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [created, setCreated] = useState<CreatedShareLink | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Bumped to reload the list after a change
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    apiFetch(`/shares?documentId=${documentId}`)
+      .then(res => (res.ok ? res.json() : Promise.reject(new Error(`Loading links failed (${res.status})`))))
+      .then((data: { links: ShareLink[] }) => setLinks(data.links))
+      .catch(err => {
+        console.error(err);
+        setError("Couldn't load existing links");
+      });
+  }, [documentId, version]);
+
+  const createLink = async () => {
+    setError(null);
+    const res = await apiFetch("/shares", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ documentId, role, expiresInHours: EXPIRY_OPTIONS[expiry].hours }),
+    });
+    if (!res.ok) {
+      setError(await res.text());
+      return;
+    }
+    setCreated(await res.json());
+    setCopied(false);
+    setVersion(v => v + 1);
+  };
+
+  const revoke = async (id: string) => {
+    const res = await apiFetch(`/shares?id=${id}`, { method: "DELETE" });
+    if (!res.ok) setError(await res.text());
+    if (created?.id === id) setCreated(null);
+    setVersion(v => v + 1);
+  };
+
+  const copy = async (token: string) => {
+    await navigator.clipboard.writeText(shareUrl(token));
+    setCopied(true);
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <Card className="w-full max-w-md p-6 gap-4 relative" onClick={(e) => e.stopPropagation()}>
+        <Button variant="ghost" size="icon" className="absolute top-2 right-2" onClick={onClose}>
+          <X className="w-4 h-4" />
+        </Button>
+        <h3 className="font-bold text-lg flex items-center gap-2">
+          <Link2 className="w-5 h-5" /> Share a link
+        </h3>
+
+        <div className="flex items-end gap-2">
+          <div className="grid gap-1.5">
+            <Label>Access</Label>
+            <Select value={role} onValueChange={(value) => setRole(value as ShareRole)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ROLE_LABELS) as ShareRole[]).map(key => (
+                  <SelectItem key={key} value={key}>{ROLE_LABELS[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-1.5">
+            <Label>Expires after</Label>
+            <Select value={expiry} onValueChange={setExpiry}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {Object.entries(EXPIRY_OPTIONS).map(([key, option]) => (
+                  <SelectItem key={key} value={key}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={createLink}>Create link</Button>
+        </div>
+
+        {created && (
+          <div className="flex items-center gap-2">
+            <Input readOnly value={shareUrl(created.token)} onFocus={(e) => e.target.select()} />
+            <Button variant="outline" size="icon" onClick={() => copy(created.token)} title="Copy link">
+              {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+            </Button>
+          </div>
+        )}
+        {created && <p className="text-xs text-slate-500">Copy it now, the link can't be shown again.</p>}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {links.length > 0 && (
+          <div className="flex flex-col gap-1 max-h-60 overflow-y-auto">
+            {links.map(link => (
+              <div key={link.id} className="flex items-center justify-between gap-2 text-sm py-1">
+                <span>{ROLE_LABELS[link.role]}</span>
+                <span className="text-xs text-slate-500 flex-1">{linkStatus(link)}</span>
+                {!link.revokedAt && (
+                  <Button variant="ghost" size="sm" className="text-red-600" onClick={() => revoke(link.id)}>
+                    Revoke
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
+
+/** What a share link opens, before the document is loaded, and the name the guest goes by in it. */
+export function ShareLanding({ share, onOpen }: { share: ResolvedShare; onOpen: () => void }) {
+  const [name, setName] = useState(getGuestName);
+
+  const open = () => {
+    setGuestName(name.trim());
+    onOpen();
+  };
+
+  return (
+    <div className="h-full flex flex-col items-center justify-center p-6 text-center gap-2">
+      <Link2 className="w-10 h-10 text-blue-600 mb-4" />
+      <h2 className="text-2xl font-bold text-slate-800">{share.title}</h2>
+      <p className="text-slate-500 text-sm">
+        {ROLE_LABELS[share.role]}
+        {share.expiresAt && ` · link expires ${new Date(share.expiresAt).toLocaleString()}`}
+      </p>
+      <div className="grid gap-1.5 mt-4 w-64 text-left">
+        <Label htmlFor="guest-name">Your name</Label>
+        <Input
+          id="guest-name"
+          placeholder="Shown to others in the document"
+          maxLength={MAX_NAME_LENGTH}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && open()}
+        />
+      </div>
+      <Button size="lg" className="rounded-full px-8 mt-4" onClick={open}>Open document</Button>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { getAuth, signOut } from "@/lib/auth";
+
+const API_BASE = import.meta.env.PROD ? "/api" : "http://localhost:8787/api";
+const WS_BASE = import.meta.env.PROD ? "wss://" + window.location.host + "/api" : "ws://localhost:8787/api";
+
+// Set when the app was opened from a share link; requests then go out as the link, not the account
+let shareToken: string | null = null;
+
+export function setShareToken(token: string | null) {
+  shareToken = token;
+}
+
+/** `fetch` against the API as the signed-in user. An expired token signs the user out. */
+export async function apiFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  const auth = shareToken ? null : getAuth();
+  if (shareToken) headers.set("X-Share-Token", shareToken);
+  if (auth) headers.set("Authorization", `Bearer ${auth.token}`);
+
+  const res = await fetch(`${API_BASE}${path}`, { ...init, headers });
+  if (res.status === 401 && auth) signOut();
+  return res;
+}
+
+/** WebSocket URL for `path`; browsers can't send headers on sockets, so credentials go in the query. */
+export function wsUrl(path: string, params: Record<string, string>): string {
+  const credentials: Record<string, string> = shareToken ? { share: shareToken } : {};
+  const token = shareToken ? undefined : getAuth()?.token;
+  if (token) credentials.token = token;
+  return `${WS_BASE}${path}?${new URLSearchParams({ ...params, ...credentials })}`;
+}
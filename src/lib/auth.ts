@@ -0,0 +1,27 @@
+import type { AuthResponse } from "@shared/auth";
+
+const AUTH_KEY = "pdfcore:auth";
+const SIGNED_OUT_EVENT = "pdfcore:signed-out";
+
+export function getAuth(): AuthResponse | null {
+  try {
+    return JSON.parse(localStorage.getItem(AUTH_KEY) ?? "null") as AuthResponse | null;
+  } catch {
+    return null;
+  }
+}
+
+export function setAuth(auth: AuthResponse) {
+  localStorage.setItem(AUTH_KEY, JSON.stringify(auth));
+}
+
+/** Forgets the token and tells the app (see `onSignedOut`) to show the sign-in screen. */
+export function signOut() {
+  localStorage.removeItem(AUTH_KEY);
+  window.dispatchEvent(new Event(SIGNED_OUT_EVENT));
+}
+
+export function onSignedOut(listener: () => void): () => void {
+  window.addEventListener(SIGNED_OUT_EVENT, listener);
+  return () => window.removeEventListener(SIGNED_OUT_EVENT, listener);
+}
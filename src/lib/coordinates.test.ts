@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import {
+  displaySize, displayToPage, overlayTransform, pageGeometry, pageToDisplay, pageToOverlay, uprightAnchor,
+  type PageGeometry, type PageRotation, type Point, type Rect
+} from "@/lib/coordinates";
+
+const ROTATIONS: PageRotation[] = [0, 90, 180, 270];
+
+// pdf.js `page.view` boxes: Letter, A4 landscape, and one cropped away from the origin
+const VIEWS: Record<string, number[]> = {
+  letter: [0, 0, 612, 792],
+  "a4 landscape": [0, 0, 842, 595],
+  "offset crop": [36, 120, 436, 420],
+};
+
+const cases = Object.entries(VIEWS).flatMap(([name, view]) =>
+  ROTATIONS.map(rotation => ({ name: `${name}, /Rotate ${rotation}`, g: pageGeometry(view, rotation) }))
+);
+
+// Points inside the page, in user space
+function samplePoints(g: PageGeometry): Point[] {
+  return [[0, 0], [1, 0], [0, 1], [1, 1], [0.25, 0.7], [0.6, 0.1]].map(([fx, fy]) => ({
+    x: g.x + fx * g.width,
+    y: g.y + fy * g.height,
+  }));
+}
+
+// Applies the `translate(...) rotate(...) scale(...)` string `overlayTransform` returns
+function applyCssTransform(transform: string, p: Point): Point {
+  const match = /translate\((-?[\d.]+)px, (-?[\d.]+)px\) rotate\((\d+)deg\) scale\(([\d.]+)\)/.exec(transform);
+  if (!match) throw new Error(`Unexpected transform: ${transform}`);
+  const [tx, ty, deg, scale] = match.slice(1).map(Number);
+  const angle = (deg * Math.PI) / 180;
+  // Clockwise on screen, where y points down
+  const x = p.x * scale;
+  const y = p.y * scale;
+  return { x: tx + x * Math.cos(angle) - y * Math.sin(angle), y: ty + x * Math.sin(angle) + y * Math.cos(angle) };
+}
+
+function expectPoint(actual: Point, expected: Point) {
+  expect(actual.x).toBeCloseTo(expected.x, 6);
+  expect(actual.y).toBeCloseTo(expected.y, 6);
+}
+
+describe("pageGeometry", () => {
+  it("normalizes the box and the rotation", () => {
+    expect(pageGeometry([436, 420, 36, 120], -90)).toEqual({ x: 36, y: 120, width: 400, height: 300, rotation: 270 });
+    expect(pageGeometry([0, 0, 612, 792], 450).rotation).toBe(90);
+  });
+});
+
+describe.each(cases)("$name", ({ g }) => {
+  it("round-trips user space through display coordinates", () => {
+    for (const p of samplePoints(g)) expectPoint(displayToPage(g, pageToDisplay(g, p)), p);
+  });
+
+  it("round-trips display coordinates through user space", () => {
+    const { width, height } = displaySize(g);
+    for (const [fx, fy] of [[0, 0], [1, 1], [0.3, 0.8], [0.9, 0.2]]) {
+      const p = { x: fx * width, y: fy * height };
+      expectPoint(pageToDisplay(g, displayToPage(g, p)), p);
+    }
+  });
+
+  it("maps the page onto the displayed box", () => {
+    const { width, height } = displaySize(g);
+    for (const p of samplePoints(g)) {
+      const d = pageToDisplay(g, p);
+      expect(d.x).toBeGreaterThanOrEqual(-1e-9);
+      expect(d.y).toBeGreaterThanOrEqual(-1e-9);
+      expect(d.x).toBeLessThanOrEqual(width + 1e-9);
+      expect(d.y).toBeLessThanOrEqual(height + 1e-9);
+    }
+  });
+
+  it("turns the page clockwise by its rotation", () => {
+    // The user space corner that ends up at the top-left of the display
+    const topLeft = {
+      0: { x: g.x, y: g.y + g.height },
+      90: { x: g.x, y: g.y },
+      180: { x: g.x + g.width, y: g.y },
+      270: { x: g.x + g.width, y: g.y + g.height },
+    }[g.rotation];
+    expectPoint(pageToDisplay(g, topLeft), { x: 0, y: 0 });
+  });
+
+  it("lays the overlay over the displayed page", () => {
+    const scale = 1.5;
+    for (const p of samplePoints(g)) {
+      const shown = pageToDisplay(g, p);
+      expectPoint(applyCssTransform(overlayTransform(g, scale), pageToOverlay(g, p)), { x: shown.x * scale, y: shown.y * scale });
+    }
+  });
+
+  it("anchors upright content so it fills its box and reads upright", () => {
+    const rect: Rect = { x: g.x + 40, y: g.y + 30, width: 120, height: 50 };
+    const anchor = uprightAnchor(rect, g.rotation);
+    // pdf-lib draws a `width` x `height` box from the anchor, turned counter-clockwise in user space
+    const sideways = g.rotation % 180 !== 0;
+    const size = { width: sideways ? rect.height : rect.width, height: sideways ? rect.width : rect.height };
+    const angle = (g.rotation * Math.PI) / 180;
+    const place = (dx: number, dy: number): Point => ({
+      x: anchor.x + dx * Math.cos(angle) - dy * Math.sin(angle),
+      y: anchor.y + dx * Math.sin(angle) + dy * Math.cos(angle),
+    });
+    const corners = [place(0, 0), place(size.width, 0), place(0, size.height), place(size.width, size.height)];
+
+    const xs = corners.map(c => c.x);
+    const ys = corners.map(c => c.y);
+    expect(Math.min(...xs)).toBeCloseTo(rect.x, 6);
+    expect(Math.min(...ys)).toBeCloseTo(rect.y, 6);
+    expect(Math.max(...xs)).toBeCloseTo(rect.x + rect.width, 6);
+    expect(Math.max(...ys)).toBeCloseTo(rect.y + rect.height, 6);
+
+    // Its own bottom-left corner is the bottom-left of what the reader sees, and its width runs left to right
+    const shown = corners.map(c => pageToDisplay(g, c));
+    const [origin, widthEnd] = shown;
+    expect(origin.x).toBeCloseTo(Math.min(...shown.map(c => c.x)), 6);
+    expect(origin.y).toBeCloseTo(Math.max(...shown.map(c => c.y)), 6);
+    expect(widthEnd.x - origin.x).toBeCloseTo(size.width, 6);
+    expect(widthEnd.y).toBeCloseTo(origin.y, 6);
+  });
+});
@@ -0,0 +1,89 @@
+// Conversions between what the viewer shows and PDF user space.
+//
+// Annotations are stored in PDF user space: points, origin at the bottom-left,
+// y pointing up, before the page's /Rotate is applied. That is what pdf-lib
+// draws in, so export needs no conversion at all. The viewer works in
+// "display" coordinates instead: points from the top-left corner of the page
+// as it is shown (after rotation, before any zoom or CSS scaling).
+
+import { displayToPage, normalizeRotation, type PageGeometry, type Point, type Rect } from "@shared/geometry";
+
+export {
+  displayToPage, markupLine, normalizeRotation, pageToDisplay, uprightAnchor,
+  type PageGeometry, type PageRotation, type Point, type Rect
+} from "@shared/geometry";
+
+/** Builds the geometry from pdf.js' `page.view` ([x1, y1, x2, y2]) and `page.rotate`. */
+export function pageGeometry(view: number[], rotate: number): PageGeometry {
+  const [x1, y1, x2, y2] = view;
+  return {
+    x: Math.min(x1, x2),
+    y: Math.min(y1, y2),
+    width: Math.abs(x2 - x1),
+    height: Math.abs(y2 - y1),
+    rotation: normalizeRotation(rotate),
+  };
+}
+
+/** Size of the page as displayed, in points. */
+export function displaySize(g: PageGeometry): { width: number; height: number } {
+  return g.rotation % 180 === 0
+    ? { width: g.width, height: g.height }
+    : { width: g.height, height: g.width };
+}
+
+/**
+ * User space point to the unrotated overlay laid out by `overlayTransform`:
+ * points from the top-left of the page before rotation.
+ */
+export function pageToOverlay(g: PageGeometry, p: Point): Point {
+  return { x: p.x - g.x, y: g.y + g.height - p.y };
+}
+
+export function overlayToPage(g: PageGeometry, p: Point): Point {
+  return { x: g.x + p.x, y: g.y + g.height - p.y };
+}
+
+/**
+ * CSS transform (with `transform-origin: 0 0`) that maps a `g.width` x `g.height`
+ * box laid out in overlay points onto the displayed page, `scale` pixels per point.
+ */
+export function overlayTransform(g: PageGeometry, scale: number): string {
+  const w = g.width * scale;
+  const h = g.height * scale;
+  const offset = { 0: "0px, 0px", 90: `${h}px, 0px`, 180: `${w}px, ${h}px`, 270: `0px, ${w}px` }[g.rotation];
+  return `translate(${offset}) rotate(${g.rotation}deg) scale(${scale})`;
+}
+
+/**
+ * Client (screen) coordinates to display points. Works from the element's
+ * on-screen box, so zoom and any CSS scaling cancel out.
+ */
+export function clientToDisplay(
+  g: PageGeometry,
+  bounds: { left: number; top: number; width: number; height: number },
+  clientX: number,
+  clientY: number
+): Point {
+  const size = displaySize(g);
+  return {
+    x: ((clientX - bounds.left) / bounds.width) * size.width,
+    y: ((clientY - bounds.top) / bounds.height) * size.height,
+  };
+}
+
+export function boundingRect(points: Point[]): Rect {
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+/** A rectangle drawn on the display, as an axis-aligned user space rect. */
+export function displayRectToPage(g: PageGeometry, r: Rect): Rect {
+  return boundingRect([
+    displayToPage(g, { x: r.x, y: r.y }),
+    displayToPage(g, { x: r.x + r.width, y: r.y + r.height }),
+  ]);
+}
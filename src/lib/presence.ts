@@ -0,0 +1,27 @@
+// Position in PDF user space, see `@/lib/coordinates`
+export interface RemoteCursor {
+  x: number;
+  y: number;
+  page: number; // 1-based index
+}
+
+const GUEST_NAME_KEY = "pdfcore:guest-name";
+
+/** What share link guests are called; accounts go by their own name. Remembered across visits. */
+export function getGuestName(): string {
+  return localStorage.getItem(GUEST_NAME_KEY) ?? "";
+}
+
+export function setGuestName(name: string) {
+  if (name) localStorage.setItem(GUEST_NAME_KEY, name);
+  else localStorage.removeItem(GUEST_NAME_KEY);
+}
+
+export function initials(name: string): string {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(part => part[0].toUpperCase())
+    .join("");
+}
@@ -0,0 +1,15 @@
+import path from "path"
+import { defineConfig } from "vitest/config"
+
+// Tests run in Node, without the React and Cloudflare plugins the app is built with
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+      "@shared": path.resolve(__dirname, "./shared"),
+    },
+  },
+  test: {
+    include: ["{src,shared,worker}/**/*.test.ts"],
+  },
+})
@@ -0,0 +1,197 @@
+import { MAX_NAME_LENGTH, MIN_PASSWORD_LENGTH, ROLES, type AuthResponse, type AuthUser, type Role } from "@shared/auth";
+
+// Workers cap PBKDF2 at 100k iterations
+const PBKDF2_ITERATIONS = 100_000;
+const TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+interface UserRow {
+	id: string;
+	email: string;
+	name: string;
+	password_hash: string;
+	password_salt: string;
+}
+
+interface TokenPayload {
+	sub: string;
+	email: string;
+	name: string;
+	exp: number; // seconds since epoch
+}
+
+const encoder = new TextEncoder();
+
+export function toBase64Url(bytes: Uint8Array): string {
+	return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array {
+	const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+	return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+async function hashPassword(password: string, salt: Uint8Array): Promise<Uint8Array> {
+	const key = await crypto.subtle.importKey("raw", encoder.encode(password), "PBKDF2", false, ["deriveBits"]);
+	const bits = await crypto.subtle.deriveBits(
+		{ name: "PBKDF2", hash: "SHA-256", salt, iterations: PBKDF2_ITERATIONS },
+		key,
+		256
+	);
+	return new Uint8Array(bits);
+}
+
+function hmacKey(env: Env): Promise<CryptoKey> {
+	if (!env.AUTH_SECRET) throw new Error("AUTH_SECRET is not configured");
+	return crypto.subtle.importKey("raw", encoder.encode(env.AUTH_SECRET), { name: "HMAC", hash: "SHA-256" }, false, [
+		"sign",
+		"verify",
+	]);
+}
+
+/** `<payload>.<signature>`, both base64url; the payload is JSON. */
+async function signToken(user: AuthUser, env: Env): Promise<string> {
+	const payload: TokenPayload = {
+		sub: user.id,
+		email: user.email,
+		name: user.name,
+		exp: Math.floor(Date.now() / 1000) + TOKEN_TTL_SECONDS,
+	};
+	const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+	const signature = await crypto.subtle.sign("HMAC", await hmacKey(env), encoder.encode(body));
+	return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+async function verifyToken(token: string, env: Env): Promise<AuthUser | null> {
+	const [body, signature] = token.split(".");
+	if (!body || !signature) return null;
+	try {
+		const valid = await crypto.subtle.verify("HMAC", await hmacKey(env), fromBase64Url(signature), encoder.encode(body));
+		if (!valid) return null;
+		const payload = JSON.parse(new TextDecoder().decode(fromBase64Url(body))) as TokenPayload;
+		if (payload.exp < Date.now() / 1000) return null;
+		return { id: payload.sub, email: payload.email, name: payload.name };
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * The signed-in user, from `Authorization: Bearer <token>`. Browsers can't set
+ * headers on a WebSocket, so sockets pass the token as `?token=` instead.
+ */
+export async function authenticate(request: Request, env: Env): Promise<AuthUser | null> {
+	const header = request.headers.get("Authorization") ?? "";
+	const token = header.startsWith("Bearer ")
+		? header.slice("Bearer ".length)
+		: new URL(request.url).searchParams.get("token");
+	return token ? verifyToken(token, env) : null;
+}
+
+async function authResponse(user: AuthUser, env: Env): Promise<Response> {
+	return Response.json({ token: await signToken(user, env), user } satisfies AuthResponse);
+}
+
+async function readCredentials(request: Request): Promise<{ email: string; password: string; name: string } | null> {
+	try {
+		const body = (await request.json()) as Record<string, unknown>;
+		const email = typeof body.email === "string" ? body.email.trim().toLowerCase() : "";
+		const password = typeof body.password === "string" ? body.password : "";
+		const name = typeof body.name === "string" ? body.name.trim().slice(0, MAX_NAME_LENGTH) : "";
+		return /^[^\s@]+@[^\s@]+$/.test(email) && password ? { email, password, name } : null;
+	} catch {
+		return null;
+	}
+}
+
+async function handleRegister(request: Request, env: Env): Promise<Response> {
+	const credentials = await readCredentials(request);
+	if (!credentials) return new Response("Email and password are required", { status: 400 });
+	if (credentials.password.length < MIN_PASSWORD_LENGTH) {
+		return new Response(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`, { status: 400 });
+	}
+
+	const existing = await env.DB.prepare("SELECT id FROM users WHERE email = ?").bind(credentials.email).first();
+	if (existing) return new Response("An account with that email already exists", { status: 409 });
+
+	const salt = crypto.getRandomValues(new Uint8Array(16));
+	const hash = await hashPassword(credentials.password, salt);
+	const user: AuthUser = {
+		id: crypto.randomUUID(),
+		email: credentials.email,
+		name: credentials.name || credentials.email.split("@")[0],
+	};
+	await env.DB.prepare(
+		"INSERT INTO users (id, email, name, password_hash, password_salt, created_at) VALUES (?, ?, ?, ?, ?, ?)"
+	)
+		.bind(user.id, user.email, user.name, toBase64Url(hash), toBase64Url(salt), new Date().toISOString())
+		.run();
+	return authResponse(user, env);
+}
+
+async function handleLogin(request: Request, env: Env): Promise<Response> {
+	const credentials = await readCredentials(request);
+	if (!credentials) return new Response("Email and password are required", { status: 400 });
+
+	const row = await env.DB.prepare("SELECT * FROM users WHERE email = ?").bind(credentials.email).first<UserRow>();
+	// Hash even for unknown emails so response times don't reveal which exist
+	const salt = row ? fromBase64Url(row.password_salt) : new Uint8Array(16);
+	const hash = await hashPassword(credentials.password, salt);
+	const expected = row ? fromBase64Url(row.password_hash) : new Uint8Array(hash.length);
+	if (!row || hash.length !== expected.length || !crypto.subtle.timingSafeEqual(hash, expected)) {
+		return new Response("Wrong email or password", { status: 401 });
+	}
+	return authResponse({ id: row.id, email: row.email, name: row.name }, env);
+}
+
+/** POST /api/auth/register, POST /api/auth/login, GET /api/auth/me */
+export async function handleAuth(request: Request, url: URL, env: Env): Promise<Response> {
+	const action = url.pathname.split("/").pop();
+	if (action === "register" && request.method === "POST") return handleRegister(request, env);
+	if (action === "login" && request.method === "POST") return handleLogin(request, env);
+	if (action === "me" && request.method === "GET") {
+		const user = await authenticate(request, env);
+		return user ? Response.json({ user }) : new Response("Unauthorized", { status: 401 });
+	}
+	return new Response("Not found", { status: 404 });
+}
+
+// The worker authenticates and authorizes; PDFSession trusts these headers.
+// They are always overwritten, so a client can't smuggle its own in.
+const USER_ID_HEADER = "X-User-Id";
+const USER_NAME_HEADER = "X-User-Name";
+const USER_ROLE_HEADER = "X-User-Role";
+const SHARE_ID_HEADER = "X-Share-Id";
+const SHARE_EXPIRES_HEADER = "X-Share-Expires";
+
+export interface SessionIdentity {
+	userId: string;
+	name: string;
+	role: Role;
+	// Set when access comes from a share link rather than an account
+	shareId?: string;
+	expiresAt?: string | null;
+}
+
+export function withIdentity(request: Request, identity: SessionIdentity): Request {
+	const headers = new Headers(request.headers);
+	headers.set(USER_ID_HEADER, identity.userId);
+	headers.set(USER_NAME_HEADER, encodeURIComponent(identity.name));
+	headers.set(USER_ROLE_HEADER, identity.role);
+	headers.delete(SHARE_ID_HEADER);
+	headers.delete(SHARE_EXPIRES_HEADER);
+	if (identity.shareId) headers.set(SHARE_ID_HEADER, identity.shareId);
+	if (identity.expiresAt) headers.set(SHARE_EXPIRES_HEADER, identity.expiresAt);
+	return new Request(request, { headers });
+}
+
+/** Read by PDFSession; falls back to the least privileged identity. */
+export function identityOf(request: Request): SessionIdentity {
+	const role = request.headers.get(USER_ROLE_HEADER) as Role | null;
+	return {
+		userId: request.headers.get(USER_ID_HEADER) ?? "",
+		name: decodeURIComponent(request.headers.get(USER_NAME_HEADER) ?? ""),
+		role: role && ROLES.includes(role) ? role : "viewer",
+		shareId: request.headers.get(SHARE_ID_HEADER) ?? undefined,
+		expiresAt: request.headers.get(SHARE_EXPIRES_HEADER),
+	};
+}
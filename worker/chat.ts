@@ -0,0 +1,38 @@
+import type { ChatMessage, ChatSource } from "@shared/chat";
+import { CITATION_FORMAT } from "@shared/summary";
+import { streamedText } from "./streaming";
+
+const CHAT_MODEL = "@cf/meta/llama-3-8b-instruct";
+const MAX_ANSWER_TOKENS = 1024;
+
+const ANSWER_PROMPT = `You answer questions about a document using only the passages from it below, each starting with a [Page N] line.
+Cite the pages each point comes from as ${CITATION_FORMAT}. If the passages don't answer the question, say so rather than guess.`;
+
+export interface ChatTurn {
+	role: "system" | "user" | "assistant";
+	content: string;
+}
+
+/** A conversation in, the reply out a piece at a time as the model writes it. */
+export interface ChatModel {
+	stream(turns: ChatTurn[]): AsyncIterable<string>;
+}
+
+export function workersAiChatModel(ai: Ai): ChatModel {
+	return {
+		async *stream(turns: ChatTurn[]) {
+			const response = await ai.run(CHAT_MODEL, { messages: turns, max_tokens: MAX_ANSWER_TOKENS, stream: true });
+			yield* streamedText(response as ReadableStream<Uint8Array>);
+		},
+	};
+}
+
+/** The conversation that gets `question` answered from `sources`, following on from `history`. */
+export function answerTurns(sources: ChatSource[], history: ChatMessage[], question: string): ChatTurn[] {
+	const passages = sources.map((source) => `[Page ${source.page}]\n${source.text}`).join("\n\n");
+	return [
+		{ role: "system", content: `${ANSWER_PROMPT}\n\n${passages}` },
+		...history.map((message) => ({ role: message.role, content: message.text })),
+		{ role: "user", content: question },
+	];
+}
@@ -0,0 +1,114 @@
+import type { AuthUser, Role } from "@shared/auth";
+import {
+	DOCUMENT_SORTS,
+	MAX_DOCUMENTS_PAGE_SIZE,
+	type DocumentListResponse,
+	type DocumentSort,
+	type DocumentSummary,
+} from "@shared/documents";
+
+export interface DocumentRow {
+	id: string;
+	title: string;
+	filename: string;
+	page_count: number;
+	size: number;
+	owner: string;
+	created_at: string;
+	updated_at: string;
+	role: Role;
+}
+
+const SORT_COLUMNS: Record<DocumentSort, string> = {
+	updated: "d.updated_at",
+	created: "d.created_at",
+	title: "d.title COLLATE NOCASE",
+	size: "d.size",
+};
+
+const DEFAULT_PAGE_SIZE = 20;
+
+export function toSummary(row: DocumentRow): DocumentSummary {
+	return {
+		id: row.id,
+		title: row.title,
+		filename: row.filename,
+		pageCount: row.page_count,
+		size: row.size,
+		owner: row.owner,
+		createdAt: row.created_at,
+		updatedAt: row.updated_at,
+		role: row.role,
+	};
+}
+
+/** Adds a freshly uploaded document to the library. */
+export async function recordUpload(
+	db: D1Database,
+	doc: Pick<DocumentSummary, "id" | "title" | "filename" | "pageCount" | "size" | "owner">
+) {
+	const now = new Date().toISOString();
+	await db
+		.prepare(
+			`INSERT INTO documents (id, title, filename, page_count, size, owner, created_at, updated_at)
+			 VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+			 ON CONFLICT (id) DO UPDATE SET
+			   title = excluded.title, filename = excluded.filename, page_count = excluded.page_count,
+			   size = excluded.size, updated_at = excluded.updated_at`
+		)
+		.bind(doc.id, doc.title, doc.filename, doc.pageCount, doc.size, doc.owner, now, now)
+		.run();
+}
+
+/** Bumps a document after a save; `pageCount` is what is left after page deletions. */
+export async function recordSave(db: D1Database, id: string, pageCount: number) {
+	await db
+		.prepare("UPDATE documents SET page_count = ?, updated_at = ? WHERE id = ?")
+		.bind(pageCount, new Date().toISOString(), id)
+		.run();
+}
+
+function escapeLike(term: string): string {
+	return term.replace(/[\\%_]/g, (ch) => `\\${ch}`);
+}
+
+function intParam(value: string | null, fallback: number, min: number, max: number): number {
+	const n = Number(value);
+	return value !== null && Number.isInteger(n) ? Math.min(Math.max(n, min), max) : fallback;
+}
+
+/**
+ * GET /api/documents?q=&sort=updated|created|title|size&order=asc|desc&limit=&offset=
+ * `q` matches title or filename, case-insensitively. Only documents `user` has a role on are listed.
+ */
+export async function handleListDocuments(url: URL, db: D1Database, user: AuthUser): Promise<Response> {
+	const params = url.searchParams;
+	const q = (params.get("q") ?? "").trim();
+	const sortParam = params.get("sort") ?? "updated";
+	const sort: DocumentSort = (DOCUMENT_SORTS as readonly string[]).includes(sortParam)
+		? (sortParam as DocumentSort)
+		: "updated";
+	// Titles read best A-Z, everything else newest/largest first
+	const order = (params.get("order") ?? (sort === "title" ? "asc" : "desc")) === "asc" ? "ASC" : "DESC";
+	const limit = intParam(params.get("limit"), DEFAULT_PAGE_SIZE, 1, MAX_DOCUMENTS_PAGE_SIZE);
+	const offset = intParam(params.get("offset"), 0, 0, Number.MAX_SAFE_INTEGER);
+
+	const from = "FROM documents d JOIN document_permissions p ON p.document_id = d.id AND p.user_id = ?1";
+	const where = q ? "WHERE d.title LIKE ?2 ESCAPE '\\' OR d.filename LIKE ?2 ESCAPE '\\'" : "";
+	const binds = q ? [user.id, `%${escapeLike(q)}%`] : [user.id];
+
+	const [rows, count] = await db.batch([
+		db
+			.prepare(`SELECT d.*, p.role ${from} ${where} ORDER BY ${SORT_COLUMNS[sort]} ${order}, d.id LIMIT ${limit} OFFSET ${offset}`)
+			.bind(...binds),
+		db.prepare(`SELECT COUNT(*) AS total ${from} ${where}`).bind(...binds),
+	]);
+
+	const body: DocumentListResponse = {
+		documents: (rows.results as DocumentRow[]).map(toSummary),
+		total: (count.results[0] as { total: number } | undefined)?.total ?? 0,
+		limit,
+		offset,
+	};
+	return Response.json(body);
+}
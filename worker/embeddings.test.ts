@@ -0,0 +1,143 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import type { LibraryMatch, PassageMatch } from "@shared/documents";
+import { handleSearchLibrary, indexPassages, removePagePassages, searchDocument, type Embedder } from "./embeddings";
+import { localD1 } from "./local-d1";
+
+let db: D1Database;
+let dispose: () => Promise<void>;
+
+beforeAll(async () => {
+	({ db, dispose } = await localD1());
+});
+
+afterAll(() => dispose());
+
+beforeEach(async () => {
+	await db.batch(["passages", "document_permissions", "documents", "users"].map((table) => db.prepare(`DELETE FROM ${table}`)));
+});
+
+const DIMENSIONS = 64;
+
+// Words hashed into buckets: texts that share words are close, texts that share none aren't at all
+function hashingEmbedder(model = "test-hash"): Embedder & { calls: string[][] } {
+	const calls: string[][] = [];
+	const vector = (text: string) => {
+		const out = new Array<number>(DIMENSIONS).fill(0);
+		for (const word of text.toLowerCase().match(/\w+/g) ?? []) {
+			let hash = 0;
+			for (const ch of word) hash = (hash * 31 + ch.charCodeAt(0)) | 0;
+			out[Math.abs(hash) % DIMENSIONS] += 1;
+		}
+		return out;
+	};
+	return {
+		model,
+		calls,
+		async embed(texts) {
+			calls.push(texts);
+			return texts.map(vector);
+		},
+	};
+}
+
+const PASSAGES = [
+	{ page: 1, text: "The lease runs for twelve months from the first of March." },
+	{ page: 2, text: "Rent is due monthly and late payment incurs a fee." },
+	{ page: 3, text: "Either party may terminate with sixty days written notice." },
+];
+
+describe("indexPassages and searchDocument", () => {
+	it("finds the passage closest to the query first", async () => {
+		const embedder = hashingEmbedder();
+		await indexPassages(db, embedder, "doc-1", PASSAGES);
+
+		const matches: PassageMatch[] = await searchDocument(db, embedder, "doc-1", "late rent payment fee");
+		expect(matches[0]).toMatchObject({ page: 2, text: PASSAGES[1].text });
+		expect(matches[0].score).toBeGreaterThan(0.5);
+		expect(matches.map((m) => m.page)).not.toContain(3);
+	});
+
+	it("replaces what a document had, and leaves other documents alone", async () => {
+		const embedder = hashingEmbedder();
+		await indexPassages(db, embedder, "doc-1", PASSAGES);
+		await indexPassages(db, embedder, "doc-2", [PASSAGES[2]]);
+		await indexPassages(db, embedder, "doc-1", [{ page: 1, text: "Only this is left." }]);
+
+		expect(await searchDocument(db, embedder, "doc-1", "sixty days written notice")).toEqual([]);
+		expect(await searchDocument(db, embedder, "doc-1", "only this is left")).toHaveLength(1);
+		expect(await searchDocument(db, embedder, "doc-2", "sixty days written notice")).toHaveLength(1);
+	});
+
+	it("embeds and stores long documents in batches, in order", async () => {
+		const embedder = hashingEmbedder();
+		const passages = Array.from({ length: 120 }, (_, i) => ({ page: Math.floor(i / 10) + 1, text: `passage number${i}` }));
+		await indexPassages(db, embedder, "doc-1", passages);
+
+		expect(embedder.calls.map((texts) => texts.length)).toEqual([50, 50, 20]);
+		const { results } = await db
+			.prepare("SELECT seq, page, text FROM passages WHERE document_id = ? ORDER BY seq")
+			.bind("doc-1")
+			.all<{ seq: number; page: number; text: string }>();
+		expect(results).toEqual(passages.map((p, seq) => ({ seq, ...p })));
+	});
+
+	it("only compares vectors from the same model", async () => {
+		await indexPassages(db, hashingEmbedder("model-a"), "doc-1", PASSAGES);
+		expect(await searchDocument(db, hashingEmbedder("model-b"), "doc-1", PASSAGES[0].text)).toEqual([]);
+	});
+});
+
+describe("handleSearchLibrary", () => {
+	const user = { id: "user-1", email: "a@example.com", name: "A" };
+	const now = "2026-01-01T00:00:00Z";
+
+	async function addDocument(id: string, title: string, userId: string | null) {
+		await db
+			.prepare("INSERT INTO documents (id, title, filename, created_at, updated_at) VALUES (?, ?, ?, ?, ?)")
+			.bind(id, title, `${title}.pdf`, now, now)
+			.run();
+		if (userId) {
+			await db
+				.prepare("INSERT INTO document_permissions (document_id, user_id, role, created_at) VALUES (?, ?, 'viewer', ?)")
+				.bind(id, userId, now)
+				.run();
+		}
+	}
+
+	async function search(q: string) {
+		const url = new URL(`https://example.com/api/documents/search?q=${encodeURIComponent(q)}`);
+		return handleSearchLibrary(url, db, hashingEmbedder(), user);
+	}
+
+	beforeEach(async () => {
+		await db
+			.prepare("INSERT INTO users (id, email, name, password_hash, password_salt, created_at) VALUES (?, ?, ?, '', '', ?)")
+			.bind(user.id, user.email, user.name, now)
+			.run();
+		await addDocument("lease", "Lease", user.id);
+		await addDocument("other", "Someone else's", null);
+		await indexPassages(db, hashingEmbedder(), "lease", PASSAGES);
+		await indexPassages(db, hashingEmbedder(), "other", [{ page: 1, text: "Rent is due monthly and late payment incurs a fee." }]);
+	});
+
+	it("finds passages in documents the user has a role on, and no others", async () => {
+		const response = await search("late rent payment fee");
+		expect(response.status).toBe(200);
+		const { matches } = (await response.json()) as { matches: LibraryMatch[] };
+		expect(matches).toHaveLength(1);
+		expect(matches[0]).toMatchObject({ page: 2, text: PASSAGES[1].text, document: { id: "lease", title: "Lease", role: "viewer" } });
+	});
+
+	it("stops finding a page once it's deleted from the document", async () => {
+		await removePagePassages(db, "lease", 2);
+
+		const { matches } = (await (await search("late rent payment fee")).json()) as { matches: LibraryMatch[] };
+		expect(matches).toEqual([]);
+		expect(await searchDocument(db, hashingEmbedder(), "lease", PASSAGES[2].text)).toHaveLength(1);
+	});
+
+	it("turns away empty and overlong queries", async () => {
+		expect((await search("  ")).status).toBe(400);
+		expect((await search("x".repeat(501))).status).toBe(400);
+	});
+});
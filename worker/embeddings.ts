@@ -0,0 +1,148 @@
+import type { AuthUser } from "@shared/auth";
+import type { LibraryMatch, PassageMatch } from "@shared/documents";
+import { toSummary, type DocumentRow } from "./documents";
+import type { Passage } from "./retrieval";
+
+const EMBEDDING_MODEL = "@cf/baai/bge-base-en-v1.5";
+// Passages per `embed` call; Workers AI takes up to 100 texts at a time
+const EMBED_BATCH = 50;
+// D1 binds at most 100 parameters per statement, and a passage takes six
+const ROWS_PER_INSERT = 16;
+// About 8 million characters, in 626 statements: well inside D1's 1,000 queries per invocation
+export const MAX_PASSAGES = 10_000;
+
+export const MAX_SEMANTIC_QUERY_LENGTH = 500;
+const MAX_MATCHES = 20;
+// Below this a passage is only as close as unrelated text tends to be
+const MIN_SIMILARITY = 0.5;
+// Library searches compare against at most this many passages, from the most recently edited documents
+const MAX_LIBRARY_PASSAGES = 20_000;
+
+/** Turns texts into vectors, one per text, in the same order. */
+export interface Embedder {
+	// Names the vector space: vectors only compare with others from the same model
+	readonly model: string;
+	embed(texts: string[]): Promise<number[][]>;
+}
+
+export function workersAiEmbedder(ai: Ai): Embedder {
+	return {
+		model: EMBEDDING_MODEL,
+		async embed(texts: string[]): Promise<number[][]> {
+			const { data } = (await ai.run(EMBEDDING_MODEL, { text: texts })) as { data: number[][] };
+			return data;
+		},
+	};
+}
+
+// Stored at unit length, so comparing two is a dot product
+function toBlob(vector: number[]): ArrayBuffer {
+	const length = Math.hypot(...vector) || 1;
+	return Float32Array.from(vector, (x) => x / length).buffer;
+}
+
+// D1 hands BLOBs back as arrays of bytes
+function fromBlob(value: ArrayBuffer | number[]): Float32Array {
+	const bytes = value instanceof ArrayBuffer ? new Uint8Array(value) : Uint8Array.from(value);
+	return new Float32Array(bytes.buffer, 0, bytes.length / Float32Array.BYTES_PER_ELEMENT);
+}
+
+async function queryVector(embedder: Embedder, query: string): Promise<Float32Array> {
+	const [vector] = await embedder.embed([query]);
+	return new Float32Array(toBlob(vector));
+}
+
+function similarity(a: Float32Array, b: Float32Array): number {
+	let sum = 0;
+	for (let i = 0; i < Math.min(a.length, b.length); i++) sum += a[i] * b[i];
+	return sum;
+}
+
+// The closest rows first, leaving out any that aren't close at all
+function closest<T extends { embedding: ArrayBuffer | number[] }>(rows: T[], query: Float32Array, limit: number) {
+	return rows
+		.map((row) => ({ row, score: similarity(query, fromBlob(row.embedding)) }))
+		.filter(({ score }) => score >= MIN_SIMILARITY)
+		.sort((a, b) => b.score - a.score)
+		.slice(0, limit);
+}
+
+/**
+ * Replaces the passages stored for a document with the first `MAX_PASSAGES`
+ * of `passages` and their embeddings. The old ones go first and the new ones
+ * are written as they're embedded, so a search meanwhile finds fewer
+ * passages, never ones the document no longer has.
+ */
+export async function indexPassages(db: D1Database, embedder: Embedder, documentId: string, passages: Passage[]) {
+	await db.prepare("DELETE FROM passages WHERE document_id = ?").bind(documentId).run();
+	const kept = passages.slice(0, MAX_PASSAGES);
+	for (let start = 0; start < kept.length; start += EMBED_BATCH) {
+		const batch = kept.slice(start, start + EMBED_BATCH);
+		const vectors = await embedder.embed(batch.map((passage) => passage.text));
+		const rows = batch.map((passage, i) => [documentId, start + i, passage.page, passage.text, embedder.model, toBlob(vectors[i])]);
+		const statements: D1PreparedStatement[] = [];
+		for (let i = 0; i < rows.length; i += ROWS_PER_INSERT) {
+			const group = rows.slice(i, i + ROWS_PER_INSERT);
+			statements.push(
+				db.prepare(
+					`INSERT INTO passages (document_id, seq, page, text, model, embedding) VALUES ${group.map(() => "(?, ?, ?, ?, ?, ?)").join(", ")}`
+				).bind(...group.flat())
+			);
+		}
+		await db.batch(statements);
+	}
+}
+
+/** Drops the passages of a page deleted from the document, so searches stop finding it. */
+export async function removePagePassages(db: D1Database, documentId: string, page: number) {
+	await db.prepare("DELETE FROM passages WHERE document_id = ? AND page = ?").bind(documentId, page).run();
+}
+
+/** The passages of one document closest in meaning to `query`. */
+export async function searchDocument(
+	db: D1Database,
+	embedder: Embedder,
+	documentId: string,
+	query: string,
+	limit = MAX_MATCHES
+): Promise<PassageMatch[]> {
+	const vector = await queryVector(embedder, query);
+	const { results } = await db
+		.prepare("SELECT page, text, embedding FROM passages WHERE document_id = ? AND model = ?")
+		.bind(documentId, embedder.model)
+		.all<{ page: number; text: string; embedding: number[] }>();
+	return closest(results, vector, limit).map(({ row, score }) => ({ page: row.page, text: row.text, score }));
+}
+
+/**
+ * GET /api/documents/search?q=
+ * Passages closest in meaning to `q` across every document `user` has a role on.
+ */
+export async function handleSearchLibrary(url: URL, db: D1Database, embedder: Embedder, user: AuthUser): Promise<Response> {
+	const q = (url.searchParams.get("q") ?? "").trim();
+	if (!q || q.length > MAX_SEMANTIC_QUERY_LENGTH) {
+		return new Response(`q must be 1 to ${MAX_SEMANTIC_QUERY_LENGTH} characters`, { status: 400 });
+	}
+
+	const vector = await queryVector(embedder, q);
+	const { results } = await db
+		.prepare(
+			`SELECT d.*, p.role, s.page AS match_page, s.text AS match_text, s.embedding
+			 FROM passages s
+			 JOIN documents d ON d.id = s.document_id
+			 JOIN document_permissions p ON p.document_id = d.id AND p.user_id = ?
+			 WHERE s.model = ?
+			 ORDER BY d.updated_at DESC
+			 LIMIT ${MAX_LIBRARY_PASSAGES}`
+		)
+		.bind(user.id, embedder.model)
+		.all<DocumentRow & { match_page: number; match_text: string; embedding: number[] }>();
+
+	const matches: LibraryMatch[] = closest(results, vector, MAX_MATCHES).map(({ row, score }) => ({
+		document: toSummary(row),
+		page: row.match_page,
+		text: row.match_text,
+		score,
+	}));
+	return Response.json({ matches });
+}
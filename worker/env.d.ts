@@ -0,0 +1,6 @@
+// Secrets aren't in wrangler.jsonc, so `wrangler types` doesn't know about them.
+// Set them with `wrangler secret put` (and in .dev.vars for local development).
+interface Env {
+	// Signs session tokens, see worker/auth.ts
+	AUTH_SECRET: string;
+}
@@ -0,0 +1,101 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { PDFDocument, StandardFonts } from "pdf-lib";
+import type { AuthResponse, CreatedShareLink } from "@shared/auth";
+import { localD1 } from "./local-d1";
+import { grantRole } from "./permissions";
+import worker from "./index";
+
+// The session runs on `cloudflare:workers`, which only exists in the runtime; these tests stop at the router
+vi.mock("./pdf-session", () => ({ PDFSession: class {} }));
+
+const DOCUMENT_ID = "document-1";
+const SECRET = "SECRET-4471";
+
+let env: Env;
+let dispose: () => Promise<void>;
+let revision: Uint8Array;
+// Routes the session was asked for, in order
+const forwarded: string[] = [];
+
+// A revision saved before the text in it was redacted
+async function revisionWithSecret(): Promise<Uint8Array> {
+	const pdfDoc = await PDFDocument.create();
+	const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+	pdfDoc.addPage([400, 300]).drawText(`Account ${SECRET}`, { x: 50, y: 150, size: 14, font });
+	return pdfDoc.save({ useObjectStreams: false });
+}
+
+// Answers as the session would: the revision for `revision`, a listing for `revisions`
+function sessionNamespace(): DurableObjectNamespace {
+	const stub = {
+		async fetch(request: Request) {
+			const route = new URL(request.url).pathname.split("/").pop() ?? "";
+			forwarded.push(route);
+			if (route === "revisions") return Response.json({ revisions: [{ number: 1 }] });
+			return new Response(revision, { headers: { "Content-Type": "application/pdf" } });
+		},
+	};
+	return {
+		idFromString: (id: string) => ({ toString: () => id }),
+		get: () => stub,
+	} as unknown as DurableObjectNamespace;
+}
+
+function call(path: string, init: RequestInit = {}, token?: string) {
+	const headers = new Headers(init.headers);
+	if (token) headers.set("Authorization", `Bearer ${token}`);
+	return worker.fetch(new Request(`https://pdf.example.com${path}`, { ...init, headers }), env, {} as ExecutionContext);
+}
+
+async function register(email: string): Promise<AuthResponse> {
+	const response = await call("/api/auth/register", { method: "POST", body: JSON.stringify({ email, password: "correct horse battery" }) });
+	return response.json();
+}
+
+const tokens: Record<"owner" | "editor" | "viewer", string> = { owner: "", editor: "", viewer: "" };
+
+beforeAll(async () => {
+	const d1 = await localD1();
+	dispose = d1.dispose;
+	env = { DB: d1.db, AUTH_SECRET: "test-secret", PDF_SESSION: sessionNamespace() } as unknown as Env;
+	revision = await revisionWithSecret();
+
+	for (const role of ["owner", "editor", "viewer"] as const) {
+		const { token, user } = await register(`${role}@example.com`);
+		tokens[role] = token;
+		await grantRole(env.DB, DOCUMENT_ID, user.id, role);
+	}
+});
+
+afterAll(() => dispose());
+
+describe("saved revisions", () => {
+	it("are kept from viewers, who may see the document only as redacted now", async () => {
+		forwarded.length = 0;
+		for (const path of [`/api/session/revision?id=${DOCUMENT_ID}&number=1`, `/api/session/revisions?id=${DOCUMENT_ID}`]) {
+			const response = await call(path, {}, tokens.viewer);
+			expect(response.status).toBe(403);
+			expect(await response.text()).not.toContain(SECRET);
+		}
+		expect(forwarded).toEqual([]);
+	});
+
+	it("are kept from guests on view and comment links", async () => {
+		forwarded.length = 0;
+		for (const role of ["view", "comment"]) {
+			const created = await call("/api/shares", { method: "POST", body: JSON.stringify({ documentId: DOCUMENT_ID, role }) }, tokens.owner);
+			const { token } = (await created.json()) as CreatedShareLink;
+			const response = await call(`/api/session/revision?id=${DOCUMENT_ID}&number=1`, { headers: { "X-Share-Token": token } });
+			expect(response.status).toBe(403);
+		}
+		expect(forwarded).toEqual([]);
+	});
+
+	it("go to editors", async () => {
+		forwarded.length = 0;
+		const response = await call(`/api/session/revision?id=${DOCUMENT_ID}&number=1`, {}, tokens.editor);
+		expect(response.status).toBe(200);
+		expect(new Uint8Array(await response.arrayBuffer())).toEqual(revision);
+		expect(forwarded).toEqual(["revision"]);
+	});
+});
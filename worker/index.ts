@@ -1,7 +1,30 @@
+import { canEdit, SHARE_ROLE_TO_ROLE } from "@shared/auth";
+import { authenticate, handleAuth, withIdentity, type SessionIdentity } from "./auth";
+import { handleListDocuments } from "./documents";
+import { handleSearchLibrary } from "./embeddings";
 import { PDFSession } from "./pdf-session";
+import { getRole, grantRole, handlePermissions } from "./permissions";
+import { aiProviders } from "./providers";
+import { handleResolveShare, handleShares, resolveShareToken } from "./shares";
 
 export { PDFSession };
 
+// Session routes (last path segment) only editors may use: the ones that change
+// the document, and saved revisions, which keep whatever was redacted after them
+const EDITOR_ROUTES = new Set(["save-changes", "restore", "revisions", "revision"]);
+
+function withCors(response: Response): Response {
+	// Upgrade responses can't be rebuilt, and CORS doesn't apply to them anyway
+	if (response.webSocket) return response;
+	const headers = new Headers(response.headers);
+	headers.set("Access-Control-Allow-Origin", "*");
+	return new Response(response.body, {
+		status: response.status,
+		statusText: response.statusText,
+		headers,
+	});
+}
+
 export default {
 	async fetch(request: Request, env: Env, _ctx: ExecutionContext): Promise<Response> {
 		const url = new URL(request.url);
@@ -12,33 +35,94 @@ export default {
 				headers: {
 					"Access-Control-Allow-Origin": "*",
 					"Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
-					"Access-Control-Allow-Headers": "Content-Type, Upgrade, WebSocket",
+					"Access-Control-Allow-Headers": "Content-Type, Authorization, X-Share-Token, Upgrade, WebSocket",
 				},
 			});
 		}
 
+		if (url.pathname.startsWith("/api/auth/")) {
+			return withCors(await handleAuth(request, url, env));
+		}
+
+		if (url.pathname === "/api/shares/resolve") {
+			return withCors(await handleResolveShare(url, env.DB));
+		}
+
+		if (!url.pathname.startsWith("/api/")) {
+			return new Response("Cloudflare PDF Core Ready", { status: 200 });
+		}
+
+		// Everything else needs an account, or a share link for its own document's session
+		const user = await authenticate(request, env);
+		const shareToken = request.headers.get("X-Share-Token") ?? url.searchParams.get("share");
+		if (!user && !(shareToken && url.pathname.startsWith("/api/session"))) {
+			return withCors(new Response("Unauthorized", { status: 401 }));
+		}
+
+		if (user && url.pathname === "/api/documents" && request.method === "GET") {
+			return withCors(await handleListDocuments(url, env.DB, user));
+		}
+
+		if (user && url.pathname === "/api/documents/search" && request.method === "GET") {
+			return withCors(await handleSearchLibrary(url, env.DB, aiProviders(env).embedder, user));
+		}
+
+		if (user && url.pathname === "/api/documents/permissions") {
+			return withCors(await handlePermissions(request, url, env.DB, user));
+		}
+
+		if (user && url.pathname === "/api/shares") {
+			return withCors(await handleShares(request, url, env.DB, user, async (link) => {
+				await env.PDF_SESSION.get(env.PDF_SESSION.idFromString(link.documentId)).revokeShare(link.id);
+			}));
+		}
+
 		// Route to Durable Object
 		if (url.pathname.startsWith("/api/session")) {
-			const idParam = url.searchParams.get("id");
-			// If no ID provided, generate a new random ID for the DO
-			const id = idParam
-				? env.PDF_SESSION.idFromString(idParam)
-				: env.PDF_SESSION.newUniqueId();
-			
+			const route = url.pathname.split("/").pop() ?? "";
+			const idParam = url.searchParams.get("id") ?? "";
+			let id: DurableObjectId;
+			let identity: SessionIdentity;
+
+			if (route === "upload") {
+				// Uploads always start a new document, owned by whoever uploaded it
+				if (!user) return withCors(new Response("Unauthorized", { status: 401 }));
+				id = env.PDF_SESSION.newUniqueId();
+				identity = { userId: user.id, name: user.name, role: "owner" };
+			} else if (user) {
+				const granted = await getRole(env.DB, idParam, user.id);
+				// Same answer for "doesn't exist" and "not yours", so ids can't be probed
+				if (!granted) return withCors(new Response("Not found", { status: 404 }));
+				id = env.PDF_SESSION.idFromString(idParam);
+				identity = { userId: user.id, name: user.name, role: granted };
+			} else {
+				const link = await resolveShareToken(env.DB, shareToken ?? "");
+				if (!link || link.documentId !== idParam) return withCors(new Response("Not found", { status: 404 }));
+				id = env.PDF_SESSION.idFromString(idParam);
+				// Guests name themselves; the session caps the name and makes one up if there isn't one
+				identity = {
+					userId: `share:${link.id}`,
+					name: url.searchParams.get("name") ?? "",
+					role: SHARE_ROLE_TO_ROLE[link.role],
+					shareId: link.id,
+					expiresAt: link.expiresAt,
+				};
+			}
+
+			if (EDITOR_ROUTES.has(route) && !canEdit(identity.role)) {
+				return withCors(new Response("Forbidden", { status: 403 }));
+			}
+
 			const stub = env.PDF_SESSION.get(id);
 
-			const response = await stub.fetch(request);
-			
+			const response = await stub.fetch(withIdentity(request, identity));
+			// Only a document that was stored gets an owner, so failed uploads leave nothing behind
+			if (route === "upload" && response.ok) await grantRole(env.DB, id.toString(), identity.userId, identity.role);
+
 			// Re-attach CORS headers to the response from DO
-			const newHeaders = new Headers(response.headers);
-			newHeaders.set("Access-Control-Allow-Origin", "*");
-			return new Response(response.body, {
-				status: response.status,
-				statusText: response.statusText,
-				headers: newHeaders,
-			});
+			return withCors(response);
 		}
 
-		return new Response("Cloudflare PDF Core Ready", { status: 200 });
+		return withCors(new Response("Not found", { status: 404 }));
 	},
 } satisfies ExportedHandler<Env>;
@@ -0,0 +1,25 @@
+// A real D1 for tests, as local development runs it, with the app's migrations applied
+import { readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { Miniflare } from "miniflare";
+
+export async function localD1(): Promise<{ db: D1Database; dispose: () => Promise<void> }> {
+	const mf = new Miniflare({
+		workers: [{
+			config: {
+				name: "local-d1",
+				compatibilityDate: "2025-01-01",
+				manifest: { mainModule: "index.js", modules: { "index.js": { type: "esm", contents: "export default {}" } } },
+				env: { DB: { type: "d1", id: "local-d1" } },
+			},
+		}],
+	});
+	const db = (await mf.getD1Database("DB")) as unknown as D1Database;
+	const dir = path.resolve(__dirname, "../migrations");
+	for (const file of readdirSync(dir).sort()) {
+		const sql = readFileSync(path.join(dir, file), "utf8").replace(/--.*$/gm, "");
+		const statements = sql.split(";").map((s) => s.trim()).filter(Boolean);
+		await db.batch(statements.map((statement) => db.prepare(statement)));
+	}
+	return { db, dispose: () => mf.dispose() };
+}
@@ -0,0 +1,76 @@
+import type { OcrEngine, OcrImage, OcrLine } from "@shared/ocr";
+
+const OCR_MODEL = "@cf/meta/llama-4-scout-17b-16e-instruct";
+const MAX_OCR_TOKENS = 4096;
+
+const OCR_PROMPT = `Transcribe every line of text on this scanned page, top to bottom, exactly as written.
+For each line give its bounding box as fractions of the image width and height, origin top-left.`;
+
+const LINES_SCHEMA = {
+	type: "object",
+	properties: {
+		lines: {
+			type: "array",
+			items: {
+				type: "object",
+				properties: {
+					text: { type: "string" },
+					box: { type: "object", properties: { x: { type: "number" }, y: { type: "number" }, width: { type: "number" }, height: { type: "number" } } },
+				},
+				required: ["text"],
+			},
+		},
+	},
+	required: ["lines"],
+};
+
+function toBase64(bytes: Uint8Array): string {
+	let binary = "";
+	for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+	return btoa(binary);
+}
+
+// Boxes have to land on the image; without one a line is still text we can search
+function lineFrom(value: unknown): OcrLine | null {
+	if (typeof value !== "object" || value === null) return null;
+	const { text, box } = value as { text?: unknown; box?: Record<string, unknown> };
+	if (typeof text !== "string" || !text.trim()) return null;
+	const [x, y, width, height] = [box?.x, box?.y, box?.width, box?.height];
+	const inside = [x, y, width, height].every((n) => typeof n === "number" && n >= 0 && n <= 1) &&
+		(x as number) + (width as number) <= 1.01 && (y as number) + (height as number) <= 1.01 && (width as number) > 0 && (height as number) > 0;
+	return inside ? { text, box: { x: x as number, y: y as number, width: width as number, height: height as number } } : { text };
+}
+
+/**
+ * Recognition by a vision model on Workers AI. It reads well but places
+ * lines only roughly, which is enough to select and search them.
+ */
+export function workersAiOcr(ai: Ai): OcrEngine {
+	return {
+		async recognize(image: OcrImage): Promise<OcrLine[]> {
+			const response = await ai.run(OCR_MODEL, {
+				messages: [{
+					role: "user",
+					content: [
+						{ type: "text", text: OCR_PROMPT },
+						{ type: "image_url", image_url: { url: `data:${image.mimeType};base64,${toBase64(image.data)}` } },
+					],
+				}],
+				response_format: { type: "json_schema", json_schema: LINES_SCHEMA },
+				max_tokens: MAX_OCR_TOKENS,
+			});
+			// JSON mode answers with the object itself, or its text when the model strays
+			let result: unknown = (response as { response?: unknown }).response;
+			if (typeof result === "string") {
+				const text = result;
+				try {
+					result = JSON.parse(text);
+				} catch {
+					return text.split("\n").flatMap((line) => (line.trim() ? [{ text: line }] : []));
+				}
+			}
+			const lines = (result as { lines?: unknown } | null)?.lines;
+			return Array.isArray(lines) ? lines.map(lineFrom).filter((line) => line !== null) : [];
+		},
+	};
+}
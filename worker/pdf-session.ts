@@ -1,41 +1,412 @@
 import { DurableObject } from "cloudflare:workers";
-import { extractText, getDocumentProxy } from "unpdf";
-
-// Re-defining interface here to avoid build dependency issues between worker/app
-export interface PdfAnnotation {
-	id: string;
-	type: "text" | "rect" | "image" | "path" | "text-replace";
-	page: number;
-	x: number;
-	y: number;
-	text?: string;
-    fontSize?: number;
-	width?: number;
-	height?: number;
-	color?: string;
-    image?: string;
-    path?: string;
-    strokeWidth?: number;
-    originalTextRect?: { x: number; y: number; width: number; height: number };
+import { PDFDocument } from "pdf-lib";
+import { getDocumentProxy } from "unpdf";
+
+import {
+	applyAnnotationOp,
+	MAX_THREAD_LENGTH,
+	validateAnnotation,
+	type AnnotationOp,
+	type CommentEntry,
+	type PageOp,
+	type PdfAnnotation,
+} from "@shared/annotations";
+import { canEdit, MAX_NAME_LENGTH, type Role } from "@shared/auth";
+import type { ChatMessage, ChatSource } from "@shared/chat";
+import { recognizePages, type OcrEngine } from "@shared/ocr";
+import { applyEditsToPdf, EXPORT_MODES, redactPdf, type ExportMode } from "@shared/pdf-export";
+import { importAnnotations } from "@shared/pdf-import";
+import { readPageContents, RedactionError, type Glyph } from "@shared/pdf-redact";
+import { alignGlyphs, indexedText, redactText, searchText, type PageText, type TextRun } from "@shared/text-search";
+import {
+	CLOSE_SHARE_EXPIRED,
+	CLOSE_SHARE_REVOKED,
+	maySend,
+	parseClientMessage,
+	type ChangeEnvelope,
+	type Presence,
+	type WSMessage,
+} from "@shared/protocol";
+import { identityOf } from "./auth";
+import { answerTurns, type ChatModel } from "./chat";
+import { recordSave, recordUpload } from "./documents";
+import { indexPassages, MAX_SEMANTIC_QUERY_LENGTH, removePagePassages, searchDocument, type Embedder } from "./embeddings";
+import { aiProviders } from "./providers";
+import { passagesOf, rankPassages } from "./retrieval";
+import { SummaryRuns } from "./summary";
+
+interface SocketAttachment {
+	presence: Presence;
+	userId: string;
+	// Fixed when the socket connects
+	role: Role;
+	// Share link the socket came in through, see `revokeShare`
+	shareId?: string;
+	expiresAt?: string | null;
+}
+
+const PRESENCE_COLORS = ["#ef4444", "#f97316", "#eab308", "#22c55e", "#14b8a6", "#3b82f6", "#8b5cf6", "#ec4899"];
+
+// Same key, same color: an account keeps its color across reconnects
+function colorFor(key: string): string {
+	let hash = 0;
+	for (const ch of key) hash = (hash * 31 + ch.charCodeAt(0)) | 0;
+	return PRESENCE_COLORS[Math.abs(hash) % PRESENCE_COLORS.length];
 }
 
-export type WSMessage =
-	| { type: "sync-annotations"; annotations: PdfAnnotation[] }
-    | { type: "sync-deleted-pages"; deletedPages: number[] }
-	| { type: "cursor-move"; x: number; y: number; page: number; clientId: string }
-	| { type: "ai-summarize" }
-	| { type: "ai-status"; status: "thinking" | "ready" | "error" }
-	| { type: "ai-result"; text: string };
+// How many accepted changes we remember for rebasing stale edits
+const OP_LOG_LIMIT = 1000;
+
+// Op log target for changes that replace the whole document (restoring a revision)
+const DOCUMENT_TARGET = "document";
+
+// Questions and answers we keep, and how many of the latest go back to the model with a question
+const CHAT_HISTORY_LIMIT = 200;
+const CHAT_CONTEXT_MESSAGES = 6;
+// Passages an answer is based on
+const CHAT_PASSAGES = 6;
+
+const MAX_QUERY_LENGTH = 200;
+// The text index matches runs of three characters; shorter queries check every page
+const TRIGRAM_LENGTH = 3;
+// How long embedding waits after failing before it's tried again
+const EMBED_RETRY_MS = 60 * 60 * 1000;
+
+// R2 customMetadata values are strings
+interface RevisionMetadata {
+	author: string;
+	createdAt: string; // ISO 8601
+	annotationCount: string;
+	documentRevision: string;
+}
+
+// What a saved revision was made from, so restoring it can rebuild the session
+interface RevisionSnapshot {
+	annotations: PdfAnnotation[];
+	deletedPages: number[];
+}
 
 export class PDFSession extends DurableObject<Env> {
 	private sessions: Set<WebSocket> = new Set();
 	private annotations: PdfAnnotation[] = [];
     private deletedPages: Set<number> = new Set();
+	private revision = 0;
 	private pdfKey: string;
+	private revisionsPrefix: string;
+	// Pending import of the upload's own markup, see `ensureImported`
+	private importing: Promise<void> | null = null;
+	// Pending build of the text index, see `ensureTextIndex`
+	private indexing: Promise<void> | null = null;
+	// Pending recognition of scanned pages, see `ensureOcr`
+	private recognizing: Promise<void> | null = null;
+	// Pending embedding of the document's passages, see `ensureEmbeddings`
+	private embedding: Promise<void> | null = null;
+	// Counts changes to what the passages should hold, see `embedPassages`
+	private passagesVersion = 0;
+	private ocr: OcrEngine;
+	private summaries: SummaryRuns;
+	private chatModel: ChatModel;
+	private embedder: Embedder;
 
 	constructor(ctx: DurableObjectState, env: Env) {
 		super(ctx, env);
+		// The upload is never overwritten; saved exports live under `revisionsPrefix`
 		this.pdfKey = `${this.ctx.id.toString()}.pdf`;
+		this.revisionsPrefix = `${this.ctx.id.toString()}/revisions/`;
+		const providers = aiProviders(env);
+		this.ocr = providers.ocr;
+		this.summaries = new SummaryRuns(providers.summary);
+		this.chatModel = providers.chat;
+		this.embedder = providers.embedder;
+
+		// Sockets survive hibernation, our in-memory set does not
+		for (const ws of this.ctx.getWebSockets()) this.sessions.add(ws);
+
+		this.ctx.storage.sql.exec(
+			"CREATE TABLE IF NOT EXISTS annotations (id TEXT PRIMARY KEY, position INTEGER NOT NULL, data TEXT NOT NULL)"
+		);
+		this.ctx.storage.sql.exec("CREATE TABLE IF NOT EXISTS deleted_pages (page INTEGER PRIMARY KEY)");
+		this.ctx.storage.sql.exec("CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY, value INTEGER NOT NULL)");
+		this.ctx.storage.sql.exec(
+			"CREATE TABLE IF NOT EXISTS op_log (revision INTEGER PRIMARY KEY, target TEXT NOT NULL, client_id TEXT NOT NULL)"
+		);
+		// The upload's text, see `ensureTextIndex`; `text_index` rowids are page numbers
+		this.ctx.storage.sql.exec("CREATE TABLE IF NOT EXISTS page_text (page INTEGER PRIMARY KEY, runs TEXT NOT NULL)");
+		this.ctx.storage.sql.exec("CREATE VIRTUAL TABLE IF NOT EXISTS text_index USING fts5(content, tokenize = 'trigram')");
+		// Text recognized on scanned pages, which is also their `page_text`; see `ensureOcr`
+		this.ctx.storage.sql.exec("CREATE TABLE IF NOT EXISTS ocr_text (page INTEGER PRIMARY KEY, runs TEXT NOT NULL)");
+		this.ctx.storage.sql.exec("CREATE TABLE IF NOT EXISTS chat_messages (seq INTEGER PRIMARY KEY AUTOINCREMENT, data TEXT NOT NULL)");
+		this.loadState();
+	}
+
+	// --- Persistence (SQLite-backed DO storage) ---
+
+	private loadState() {
+		this.annotations = this.ctx.storage.sql
+			.exec<{ data: string }>("SELECT data FROM annotations ORDER BY position")
+			.toArray()
+			.map((row) => JSON.parse(row.data) as PdfAnnotation);
+		this.deletedPages = new Set(
+			this.ctx.storage.sql
+				.exec<{ page: number }>("SELECT page FROM deleted_pages")
+				.toArray()
+				.map((row) => row.page)
+		);
+		this.revision = this.getMeta("revision");
+	}
+
+	/** Records an accepted change against `target` and returns the new document revision. */
+	private commitRevision(target: string, clientId: string): number {
+		const revision = this.revision + 1;
+		this.setMeta("revision", revision);
+		this.ctx.storage.sql.exec(
+			"INSERT INTO op_log (revision, target, client_id) VALUES (?, ?, ?)",
+			revision, target, clientId
+		);
+		this.ctx.storage.sql.exec("DELETE FROM op_log WHERE revision <= ?", revision - OP_LOG_LIMIT);
+		// Only once storage has it, in case a write throws and rolls the transaction back
+		this.revision = revision;
+		return revision;
+	}
+
+	private getMeta(key: string): number {
+		return this.ctx.storage.sql
+			.exec<{ value: number }>("SELECT value FROM meta WHERE key = ?", key)
+			.toArray()[0]?.value ?? 0;
+	}
+
+	private setMeta(key: string, value: number) {
+		this.ctx.storage.sql.exec(
+			"INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value",
+			key, value
+		);
+	}
+
+	/**
+	 * Brings markup already in the upload into the session, once per document.
+	 * Exports replace that markup with the session's copy, so this has to happen
+	 * before anyone sees or exports the document. Documents uploaded before
+	 * imports existed catch up the first time they're opened.
+	 */
+	private ensureImported(): Promise<void> {
+		if (this.getMeta("annotations_imported")) return Promise.resolve();
+		this.importing ??= this.importUploadAnnotations().finally(() => (this.importing = null));
+		return this.importing;
+	}
+
+	private async importUploadAnnotations() {
+		const object = await this.env.PDF_BUCKET.get(this.pdfKey);
+		if (!object) return;
+
+		let imported: PdfAnnotation[] = [];
+		try {
+			imported = importAnnotations(await PDFDocument.load(await object.arrayBuffer()));
+		} catch (e) {
+			// Export can't read the file either, so there's nothing it could double up
+			console.error("Failed to import annotations", e);
+		}
+
+		const fresh = imported.filter((ann) => !this.annotations.some((a) => a.id === ann.id));
+		const revision = this.ctx.storage.transactionSync(() => {
+			for (const ann of fresh) this.saveAnnotation(ann);
+			this.setMeta("annotations_imported", 1);
+			return fresh.length ? this.commitRevision(DOCUMENT_TARGET, "") : this.revision;
+		});
+		if (!fresh.length) return;
+		this.annotations = [...this.annotations, ...fresh];
+		if (fresh.some((ann) => ann.type === "redact")) this.redactionsChanged();
+		this.broadcast(JSON.stringify({ type: "sync-annotations", annotations: this.annotations, revision } satisfies WSMessage));
+	}
+
+	/**
+	 * Extracts the upload's text into `page_text` and `text_index`, once per
+	 * document. The upload never changes, so neither does its text.
+	 */
+	private async ensureTextIndex(): Promise<void> {
+		// The text is served without what the upload's own redactions cover
+		await this.ensureImported();
+		if (this.getMeta("text_indexed")) return;
+		this.indexing ??= this.buildTextIndex().finally(() => (this.indexing = null));
+		return this.indexing;
+	}
+
+	private async buildTextIndex() {
+		const object = await this.env.PDF_BUCKET.get(this.pdfKey);
+		if (!object) return;
+		const pages = await this.extractText(new Uint8Array(await object.arrayBuffer()));
+
+		this.ctx.storage.transactionSync(() => {
+			this.ctx.storage.sql.exec("DELETE FROM page_text");
+			this.ctx.storage.sql.exec("DELETE FROM text_index");
+			for (const { page, runs } of pages) {
+				this.ctx.storage.sql.exec("INSERT INTO page_text (page, runs) VALUES (?, ?)", page, JSON.stringify(runs));
+				this.ctx.storage.sql.exec("INSERT INTO text_index (rowid, content) VALUES (?, ?)", page, indexedText(runs));
+			}
+			this.setMeta("text_indexed", 1);
+		});
+	}
+
+	/** The text of each page, with where each run is drawn and, where we can tell, each character. */
+	private async extractText(bytes: Uint8Array): Promise<PageText[]> {
+		// Without glyph positions search boxes are estimates, which is still worth answering with
+		let glyphs: Glyph[][] = [];
+		try {
+			glyphs = readPageContents(await PDFDocument.load(bytes)).map((contents) => contents.glyphs);
+		} catch (e) {
+			console.error("Failed to read glyph positions", e);
+		}
+
+		// pdf.js takes ownership of the buffer it's given
+		const pdf = await getDocumentProxy(bytes.slice());
+		const pages: PageText[] = [];
+		for (let page = 1; page <= pdf.numPages; page++) {
+			const { items } = await (await pdf.getPage(page)).getTextContent();
+			const runs = items.flatMap((item) => ("str" in item ? [{
+				text: item.str,
+				transform: item.transform as number[],
+				width: item.width,
+				height: item.height,
+				eol: item.hasEOL,
+			}] : []));
+			alignGlyphs(runs, glyphs[page - 1] ?? []);
+			pages.push({ page, runs });
+		}
+		return pages;
+	}
+
+	/**
+	 * Reads the text off scanned pages with `this.ocr` and makes it their text,
+	 * once per document. Pages the engine fails on are tried again next time.
+	 */
+	private async ensureOcr(): Promise<void> {
+		await this.ensureImported();
+		if (this.getMeta("ocr_done")) return;
+		this.recognizing ??= this.recognizeScans().finally(() => (this.recognizing = null));
+		return this.recognizing;
+	}
+
+	private async recognizeScans() {
+		await this.ensureTextIndex();
+		const object = await this.env.PDF_BUCKET.get(this.pdfKey);
+		if (!object) return;
+		const pdfDoc = await PDFDocument.load(await object.arrayBuffer());
+		const done = new Set(
+			this.ctx.storage.sql.exec<{ page: number }>("SELECT page FROM ocr_text").toArray().map((row) => row.page)
+		);
+
+		const complete = await recognizePages(pdfDoc, this.ocr, done, (page, runs) => {
+			this.ctx.storage.transactionSync(() => {
+				this.ctx.storage.sql.exec("INSERT OR REPLACE INTO ocr_text (page, runs) VALUES (?, ?)", page, JSON.stringify(runs));
+				this.ctx.storage.sql.exec("UPDATE page_text SET runs = ? WHERE page = ?", JSON.stringify(runs), page);
+				this.ctx.storage.sql.exec("UPDATE text_index SET content = ? WHERE rowid = ?", indexedText(runs), page);
+				// Passages embedded before this page had text are missing it
+				this.setMeta("embedded", 0);
+			});
+		});
+		if (complete) this.setMeta("ocr_done", 1);
+	}
+
+	/**
+	 * Embeds the document's passages for semantic search, in this document and
+	 * across the library, once its text (recognized text included) is in.
+	 * A failure is recorded, so connects and searches make do with what's
+	 * stored until `EMBED_RETRY_MS` has passed rather than each try again.
+	 */
+	private ensureEmbeddings(): Promise<void> {
+		if (this.getMeta("embedded")) return Promise.resolve();
+		if (Date.now() - this.getMeta("embed_failed_at") < EMBED_RETRY_MS) return Promise.resolve();
+		this.embedding ??= this.embedPassages()
+			.catch((e) => {
+				this.setMeta("embed_failed_at", Date.now());
+				throw e;
+			})
+			.finally(() => (this.embedding = null));
+		return this.embedding;
+	}
+
+	private async embedPassages() {
+		await this.ensureOcr();
+		// Passages from before a redaction or page deletion made while we were at it would still have that text
+		let version: number;
+		do {
+			version = this.passagesVersion;
+			await indexPassages(this.env.DB, this.embedder, this.ctx.id.toString(), passagesOf(this.textOfPages()));
+		} while (version !== this.passagesVersion);
+		this.setMeta("embedded", 1);
+	}
+
+	/** Passages hold the text as it was embedded, so they're embedded again without what's redacted now. */
+	private redactionsChanged() {
+		// Not even after a failure: the passages stored may have the redacted text
+		this.setMeta("embed_failed_at", 0);
+		this.passagesChanged();
+	}
+
+	/** Embeds the passages again, from the text the document has now. */
+	private passagesChanged() {
+		this.passagesVersion += 1;
+		this.setMeta("embedded", 0);
+		this.ctx.waitUntil(this.ensureEmbeddings().catch((e) => console.error("Indexing failed", e)));
+	}
+
+	/**
+	 * A deleted page's passages go at once, since library search can't tell
+	 * they're deleted. Restoring it embeds the passages again.
+	 */
+	private pageDeleted(page: number) {
+		// An embedding under way started from the text with the page
+		this.passagesVersion += 1;
+		this.ctx.waitUntil(
+			removePagePassages(this.env.DB, this.ctx.id.toString(), page + 1).catch((e) => console.error("Removing passages failed", e))
+		);
+	}
+
+	// Text under redactions never leaves the session, whoever asks and whatever for
+	private readPageText(rows: Iterable<{ page: number; runs: string }>): PageText[] {
+		const pages = Array.from(rows, (row) => ({ page: row.page, runs: JSON.parse(row.runs) as TextRun[] }));
+		return redactText(pages, this.annotations);
+	}
+
+	/**
+	 * A change based on an older revision is rebased onto the current one unless
+	 * another connection has touched the same target since. The connection's own
+	 * earlier changes never count, so it can pipeline edits without waiting for acks.
+	 */
+	private isStale(target: string, baseRevision: number | undefined, clientId: string): boolean {
+		if (baseRevision === undefined || baseRevision > this.revision) return true;
+		if (baseRevision === this.revision) return false;
+		// Too old to tell what happened in between
+		if (baseRevision < this.revision - OP_LOG_LIMIT) return true;
+
+		const row = this.ctx.storage.sql
+			.exec<{ n: number }>(
+				"SELECT COUNT(*) AS n FROM op_log WHERE revision > ? AND target IN (?, ?) AND client_id != ?",
+				baseRevision, target, DOCUMENT_TARGET, clientId
+			)
+			.one();
+		return row.n > 0;
+	}
+
+	private saveAnnotation(ann: PdfAnnotation) {
+		// Keep the original position on update so z-order survives reloads
+		this.ctx.storage.sql.exec(
+			`INSERT INTO annotations (id, position, data)
+			 VALUES (?, (SELECT COALESCE(MAX(position), -1) + 1 FROM annotations), ?)
+			 ON CONFLICT (id) DO UPDATE SET data = excluded.data`,
+			ann.id, JSON.stringify(ann)
+		);
+	}
+
+	private removeAnnotation(id: string) {
+		this.ctx.storage.sql.exec("DELETE FROM annotations WHERE id = ?", id);
+	}
+
+	private saveDeletedPage(page: number) {
+		this.ctx.storage.sql.exec("INSERT OR IGNORE INTO deleted_pages (page) VALUES (?)", page);
+	}
+
+	private removeDeletedPage(page: number) {
+		this.ctx.storage.sql.exec("DELETE FROM deleted_pages WHERE page = ?", page);
 	}
 
 	async fetch(request: Request): Promise<Response> {
@@ -48,44 +419,102 @@ export class PDFSession extends DurableObject<Env> {
 
 		switch (path) {
 			case "upload": return this.handleUpload(request);
-			case "download": return this.handleDownload();
+			case "download": return this.handleDownload(request);
+			case "text": return this.handleText();
+			case "search": return this.handleSearch(url);
+			case "ocr": return this.handleRecognizedText();
+			case "semantic": return this.handleSemanticSearch(url);
+			case "export": return this.handleExport(url);
 			case "save-changes": return this.handleSaveChanges(request);
+			case "revisions": return this.handleListRevisions();
+			case "revision": return this.handleDownloadRevision(url);
+			case "restore":
+				if (request.method !== "POST") return new Response("Method not allowed", { status: 405 });
+				return this.handleRestoreRevision(url);
 			default: return new Response("Not found", { status: 404 });
 		}
 	}
 
-	async handleWebSocket(_request: Request): Promise<Response> {
+	async handleWebSocket(request: Request): Promise<Response> {
 		const pair = new WebSocketPair();
 		const [client, server] = Object.values(pair);
 
+		// Ours to assign, never the client's: `isStale` lets a connection build on
+		// its own edits, so no two may share an id, even from duplicated tabs
+		const clientId = crypto.randomUUID();
+		const { userId, name: userName, role, shareId, expiresAt } = identityOf(request);
+		await this.ensureImported();
+		// Documents uploaded before recognition and embeddings existed catch up when they're opened
+		this.ctx.waitUntil(this.ensureEmbeddings().catch((e) => console.error("Indexing failed", e)));
+		const name = userName.trim().slice(0, MAX_NAME_LENGTH) || `Guest ${clientId.slice(0, 4)}`;
+		// Everyone on a share link has the same user id, so guests are colored per connection
+		const presence: Presence = { clientId, name, color: colorFor(shareId ? clientId : userId) };
+
 		this.ctx.acceptWebSocket(server);
+		server.serializeAttachment({ presence, userId, role, shareId, expiresAt } satisfies SocketAttachment);
 		this.sessions.add(server);
+		if (expiresAt) await this.scheduleExpiry(Date.parse(expiresAt));
 
 		// Send initial state
-		server.send(JSON.stringify({ type: "sync-annotations", annotations: this.annotations }));
-        server.send(JSON.stringify({ type: "sync-deleted-pages", deletedPages: Array.from(this.deletedPages) }));
+		server.send(JSON.stringify({ type: "sync-annotations", annotations: this.annotations, revision: this.revision }));
+        server.send(JSON.stringify({
+            type: "sync-deleted-pages", deletedPages: Array.from(this.deletedPages), revision: this.revision,
+        }));
+		server.send(JSON.stringify({ type: "presence-sync", self: presence, clients: this.roster(), role } satisfies WSMessage));
+		server.send(JSON.stringify({ type: "chat-history", messages: this.chatHistory() } satisfies WSMessage));
+		this.broadcast(JSON.stringify({ type: "presence-join", client: presence } satisfies WSMessage), server);
 
 		return new Response(null, { status: 101, webSocket: client });
 	}
 
 	async webSocketMessage(ws: WebSocket, message: string | ArrayBuffer) {
+		const parsed = parseClientMessage(message);
+		if (!parsed.ok) {
+			ws.send(JSON.stringify({ type: "error", message: parsed.error } satisfies WSMessage));
+			return;
+		}
+
+		const attachment = this.attachmentOf(ws);
+		if (attachment?.expiresAt && Date.parse(attachment.expiresAt) <= Date.now()) {
+			this.closeSession(ws, CLOSE_SHARE_EXPIRED, "Share link expired");
+			return;
+		}
+		if (!maySend(attachment?.role ?? "viewer", parsed.value, this.annotations)) {
+			ws.send(JSON.stringify({
+				type: "error",
+				message: "You don't have permission to make that change",
+				opId: "opId" in parsed.value ? parsed.value.opId : undefined,
+			} satisfies WSMessage));
+			return;
+		}
+
 		try {
-			const data = JSON.parse(message as string) as WSMessage;
+			const data = parsed.value;
 
 			switch (data.type) {
-				case "sync-annotations":
-					this.annotations = data.annotations;
-					this.broadcast(message as string, ws);
+				case "annotation-add":
+				case "annotation-update":
+				case "annotation-delete":
+				case "comment-reply":
+					this.handleAnnotationOp(ws, data);
 					break;
-                case "sync-deleted-pages":
-                    this.deletedPages = new Set(data.deletedPages);
-                    this.broadcast(message as string, ws);
+                case "page-delete":
+                case "page-restore":
+                    this.handlePageOp(ws, data);
                     break;
 				case "cursor-move":
-					this.broadcast(message as string, ws);
+					// Never trust the sender to say who it is
+					this.broadcast(JSON.stringify({ ...data, clientId: this.clientIdOf(ws) }), ws);
 					break;
 				case "ai-summarize":
-					this.ctx.waitUntil(this.runAiSummary(ws));
+					this.summarize(ws);
+					break;
+				case "ai-cancel":
+					this.leaveSummary(ws);
+					ws.send(JSON.stringify({ type: "ai-status", status: "ready" } satisfies WSMessage));
+					break;
+				case "chat-ask":
+					this.ctx.waitUntil(this.answerQuestion(ws, data.question));
 					break;
 			}
 		} catch (err) {
@@ -93,8 +522,182 @@ export class PDFSession extends DurableObject<Env> {
 		}
 	}
 
+	private attachmentOf(ws: WebSocket): SocketAttachment | null {
+		return ws.deserializeAttachment() as SocketAttachment | null;
+	}
+
+	private clientIdOf(ws: WebSocket): string {
+		return this.attachmentOf(ws)?.presence.clientId ?? "";
+	}
+
+	private handleAnnotationOp(ws: WebSocket, received: AnnotationOp & ChangeEnvelope) {
+		const op = this.stampComments(ws, received);
+		const id = op.type === "annotation-add" ? op.annotation.id : op.id;
+		const target = `annotation:${id}`;
+		const clientId = this.clientIdOf(ws);
+		const opId = op.opId ?? "";
+
+		// An update is only valid if the annotation it produces is
+		if (op.type === "annotation-update") {
+			const current = this.annotations.find((a) => a.id === id);
+			const merged = current && validateAnnotation({ ...current, ...op.changes });
+			if (merged && !merged.ok) {
+				ws.send(JSON.stringify({ type: "error", message: merged.error, opId } satisfies WSMessage));
+				return;
+			}
+		}
+
+		// Replies only ever append, so there is nothing for them to conflict with
+		const stale = op.type !== "comment-reply" && this.isStale(target, op.baseRevision, clientId);
+		// The annotation, its op log entry and the revision are stored together or not at all
+		const annotations = stale ? null : this.ctx.storage.transactionSync(() => {
+			const applied = this.applyAnnotationOp(op);
+			if (applied) this.commitRevision(target, clientId);
+			return applied;
+		});
+		if (!annotations) {
+			ws.send(JSON.stringify({
+				type: "conflict",
+				opId,
+				revision: this.revision,
+				reason: stale ? "stale" : op.type === "annotation-add" ? "exists" : "not-found",
+				annotation: this.annotations.find((a) => a.id === id) ?? null,
+			} satisfies WSMessage));
+			return;
+		}
+		const redacts = (list: PdfAnnotation[]) => list.find((a) => a.id === id)?.type === "redact";
+		const redactionChanged = redacts(this.annotations) || redacts(annotations);
+		this.annotations = annotations;
+		if (redactionChanged) this.redactionsChanged();
+
+		const revision = this.revision;
+		ws.send(JSON.stringify({ type: "op-ack", opId, revision } satisfies WSMessage));
+		// The sender needs the stamped copy of comment changes too
+		const stamped = op !== received;
+		this.broadcast(JSON.stringify({ ...op, baseRevision: undefined, revision }), stamped ? undefined : ws);
+	}
+
+	/**
+	 * Fills in who wrote comment entries and when, from the sender's identity
+	 * whatever their role: nobody gets to post under another name. Undoing a
+	 * delete therefore brings a thread back under the name of whoever undid it.
+	 */
+	private stampComments(ws: WebSocket, op: AnnotationOp & ChangeEnvelope): AnnotationOp & ChangeEnvelope {
+		const attachment = this.attachmentOf(ws);
+		const stamp = (entry: CommentEntry): CommentEntry => ({
+			...entry,
+			author: attachment?.presence.name ?? "Unknown",
+			authorId: attachment?.userId ?? "",
+			createdAt: new Date().toISOString(),
+		});
+
+		if (op.type === "comment-reply") return { ...op, reply: stamp(op.reply) };
+		if (op.type === "annotation-add" && op.annotation.type === "comment") {
+			const thread = (op.annotation.thread ?? []).map(stamp);
+			return { ...op, annotation: { ...op.annotation, thread } };
+		}
+		return op;
+	}
+
+	private handlePageOp(ws: WebSocket, op: PageOp & ChangeEnvelope) {
+		const target = `page:${op.page}`;
+		const clientId = this.clientIdOf(ws);
+		const opId = op.opId ?? "";
+
+		if (this.isStale(target, op.baseRevision, clientId)) {
+			ws.send(JSON.stringify({
+				type: "conflict",
+				opId,
+				revision: this.revision,
+				reason: "stale",
+				deletedPages: Array.from(this.deletedPages),
+			} satisfies WSMessage));
+			return;
+		}
+
+		const revision = this.ctx.storage.transactionSync(() => {
+			if (op.type === "page-delete") this.saveDeletedPage(op.page);
+			else this.removeDeletedPage(op.page);
+			return this.commitRevision(target, clientId);
+		});
+		if (op.type === "page-delete") {
+			this.deletedPages.add(op.page);
+			this.pageDeleted(op.page);
+		} else if (this.deletedPages.delete(op.page)) {
+			this.passagesChanged();
+		}
+
+		ws.send(JSON.stringify({ type: "op-ack", opId, revision } satisfies WSMessage));
+		this.broadcast(JSON.stringify({ ...op, baseRevision: undefined, revision }), ws);
+	}
+
+	/**
+	 * Persists a single annotation operation and returns the annotations it
+	 * leaves, or null if its target is gone or, for an add, already there.
+	 */
+	private applyAnnotationOp(op: AnnotationOp): PdfAnnotation[] | null {
+		const id = op.type === "annotation-add" ? op.annotation.id : op.id;
+		const current = this.annotations.find((a) => a.id === id);
+		// An add never replaces: whoever sent it may not be allowed to change what it would
+		if (op.type === "annotation-add" ? current : !current) return null;
+		if (op.type === "comment-reply" && (current?.type !== "comment" || (current.thread?.length ?? 0) >= MAX_THREAD_LENGTH)) {
+			return null;
+		}
+
+		const annotations = applyAnnotationOp(this.annotations, op);
+		const saved = annotations.find((a) => a.id === id);
+		if (saved) this.saveAnnotation(saved);
+		else this.removeAnnotation(id);
+		return annotations;
+	}
+
 	async webSocketClose(ws: WebSocket) {
-		this.sessions.delete(ws);
+		this.removeSession(ws);
+	}
+
+	async webSocketError(ws: WebSocket) {
+		this.removeSession(ws);
+	}
+
+	/** Disconnects everyone who came in through a share link that was just revoked. */
+	async revokeShare(shareId: string) {
+		for (const ws of this.sessions) {
+			if (this.attachmentOf(ws)?.shareId === shareId) this.closeSession(ws, CLOSE_SHARE_REVOKED, "Share link revoked");
+		}
+	}
+
+	private async scheduleExpiry(time: number) {
+		const current = await this.ctx.storage.getAlarm();
+		if (current === null || time < current) await this.ctx.storage.setAlarm(time);
+	}
+
+	/** Disconnects share link sockets as their links expire. */
+	async alarm() {
+		let next: number | null = null;
+		for (const ws of this.sessions) {
+			const expiresAt = this.attachmentOf(ws)?.expiresAt;
+			if (!expiresAt) continue;
+			const time = Date.parse(expiresAt);
+			if (time <= Date.now()) this.closeSession(ws, CLOSE_SHARE_EXPIRED, "Share link expired");
+			else next = Math.min(next ?? time, time);
+		}
+		if (next !== null) await this.ctx.storage.setAlarm(next);
+	}
+
+	private closeSession(ws: WebSocket, code: number, reason: string) {
+		ws.close(code, reason);
+		this.removeSession(ws);
+	}
+
+	private removeSession(ws: WebSocket) {
+		this.leaveSummary(ws);
+		if (!this.sessions.delete(ws)) return;
+		this.broadcast(JSON.stringify({ type: "presence-leave", clientId: this.clientIdOf(ws) } satisfies WSMessage));
+	}
+
+	/** Everyone currently connected, one entry per connection. */
+	private roster(): Presence[] {
+		return Array.from(this.sessions, (session) => this.attachmentOf(session)?.presence).filter((p) => p !== undefined);
 	}
 
 	broadcast(msg: string, source?: WebSocket) {
@@ -106,64 +709,385 @@ export class PDFSession extends DurableObject<Env> {
 	}
 
     // ... (rest of the file: runAiSummary, handleUpload, handleDownload, handleSaveChanges remain unchanged)
-    async runAiSummary(requestorWs: WebSocket) {
-		requestorWs.send(JSON.stringify({ type: "ai-status", status: "thinking" }));
+	/** The text of each page that isn't deleted, for the model to read. */
+	private textOfPages(): { page: number; text: string }[] {
+		const rows = this.ctx.storage.sql.exec<{ page: number; runs: string }>("SELECT page, runs FROM page_text ORDER BY page");
+		return this.readPageText(rows)
+			.filter(({ page }) => !this.deletedPages.has(page - 1))
+			.map(({ page, runs }) => ({ page, text: indexedText(runs) }));
+	}
 
-		const pdfObject = await this.env.PDF_BUCKET.get(this.pdfKey);
-		if (!pdfObject) {
-			requestorWs.send(JSON.stringify({ type: "ai-result", text: "Error: No PDF found." }));
-			return;
+	private chatHistory(): ChatMessage[] {
+		return this.ctx.storage.sql
+			.exec<{ data: string }>("SELECT data FROM chat_messages ORDER BY seq")
+			.toArray()
+			.map((row) => JSON.parse(row.data) as ChatMessage);
+	}
+
+	private saveChatMessage(message: ChatMessage) {
+		this.ctx.storage.sql.exec("INSERT INTO chat_messages (data) VALUES (?)", JSON.stringify(message));
+		this.ctx.storage.sql.exec(
+			"DELETE FROM chat_messages WHERE seq <= (SELECT MAX(seq) FROM chat_messages) - ?", CHAT_HISTORY_LIMIT
+		);
+	}
+
+	/** Passages closest to `question` in meaning, or sharing its words when there's no embedding to go by. */
+	private async relevantPassages(question: string): Promise<ChatSource[]> {
+		try {
+			await this.ensureEmbeddings();
+			const matches = await searchDocument(this.env.DB, this.embedder, this.ctx.id.toString(), question, CHAT_PASSAGES * 2);
+			const found = matches.filter(({ page }) => !this.deletedPages.has(page - 1)).slice(0, CHAT_PASSAGES);
+			if (found.length) return found.map(({ page, text }) => ({ page, text }));
+		} catch (e) {
+			console.error("Semantic search failed", e);
 		}
+		await this.ensureOcr();
+		return rankPassages(passagesOf(this.textOfPages()), question, CHAT_PASSAGES);
+	}
+
+	/**
+	 * Answers from the passages that best match the question, streaming the
+	 * answer to everyone in the session as the model writes it.
+	 */
+	private async answerQuestion(ws: WebSocket, question: string) {
+		const history = this.chatHistory().slice(-CHAT_CONTEXT_MESSAGES);
+		const asked: ChatMessage = {
+			id: crypto.randomUUID(),
+			role: "user",
+			text: question,
+			author: this.attachmentOf(ws)?.presence.name,
+			createdAt: new Date().toISOString(),
+		};
+		this.saveChatMessage(asked);
+		this.broadcast(JSON.stringify({ type: "chat-question", message: asked } satisfies WSMessage));
 
+		const id = crypto.randomUUID();
+		let sources: ChatSource[] = [];
+		let text = "";
 		try {
-			const arrayBuffer = await pdfObject.arrayBuffer();
-			const pdfData = new Uint8Array(arrayBuffer);
-			const pdf = await getDocumentProxy(pdfData);
-			const { text } = await extractText(pdf, { mergePages: true });
-			const safeText = Array.isArray(text) ? text.join(" ") : text;
-            
-			const response = await this.env.AI.run("@cf/meta/llama-3-8b-instruct", {
-				messages: [
-					{ role: "system", content: "Summarize this document concisely." },
-					{ role: "user", content: safeText.slice(0, 12000) },
-				],
-			});
-			const summary = (response as { response: string }).response;
-			const resultMsg = JSON.stringify({ type: "ai-result", text: summary });
-			this.broadcast(resultMsg); 
-			requestorWs.send(resultMsg); 
+			sources = await this.relevantPassages(question);
+			this.broadcast(JSON.stringify({ type: "chat-sources", id, sources } satisfies WSMessage));
+			for await (const token of this.chatModel.stream(answerTurns(sources, history, question))) {
+				text += token;
+				this.broadcast(JSON.stringify({ type: "chat-token", id, text: token } satisfies WSMessage));
+			}
 		} catch (e) {
-			requestorWs.send(JSON.stringify({ type: "ai-result", text: "Error processing analysis." }));
+			console.error("Answer failed", e);
+			text += `${text ? "\n\n" : ""}Error answering the question.`;
 		}
+		const answer: ChatMessage = { id, role: "assistant", text: text.trim(), sources, createdAt: new Date().toISOString() };
+		this.saveChatMessage(answer);
+		this.broadcast(JSON.stringify({ type: "chat-answer", message: answer } satisfies WSMessage));
+	}
+
+	/**
+	 * Starts a summary for `ws`, or if one is already being written, has `ws`
+	 * wait for that one too, starting with what it has so far.
+	 */
+	private summarize(ws: WebSocket) {
+		this.ctx.waitUntil(this.runAiSummary(ws));
+	}
+
+	/** Stops sending `ws` the summary, and stops writing it once nobody is waiting. */
+	private leaveSummary(ws: WebSocket) {
+		this.summaries.leave(ws);
+	}
+
+	async runAiSummary(requestorWs: WebSocket) {
+		const summary = await this.summaries.request(requestorWs, async () => {
+			if (!(await this.env.PDF_BUCKET.head(this.pdfKey))) return null;
+			// The text index has scanned pages' text too, once they've been recognized
+			await this.ensureOcr();
+			return this.textOfPages();
+		});
+		// Everyone sees the finished summary, not just who asked for it
+		if (summary !== null) this.broadcast(JSON.stringify({ type: "ai-result", text: summary } satisfies WSMessage));
 	}
 
     async handleUpload(request: Request): Promise<Response> {
 		const formData = await request.formData();
 		const file = formData.get("file") as File;
 		if (!file) return new Response("No file uploaded", { status: 400 });
+		const owner = identityOf(request).name;
 
-		await this.env.PDF_BUCKET.put(this.pdfKey, file.stream(), {
+		const bytes = await file.arrayBuffer();
+		await this.env.PDF_BUCKET.put(this.pdfKey, bytes, {
 			httpMetadata: { contentType: file.type },
 		});
+		await this.ensureImported();
+		// Ready before anyone searches, but not worth holding up the upload for
+		this.ctx.waitUntil(this.ensureEmbeddings().catch((e) => console.error("Indexing failed", e)));
+
+		// The session works without a library entry, so don't fail the upload over it
+		try {
+			const pdf = await getDocumentProxy(new Uint8Array(bytes));
+			const { info } = await pdf.getMetadata();
+			const metaTitle = (info as { Title?: unknown }).Title;
+			this.setMeta("page_count", pdf.numPages);
+			await recordUpload(this.env.DB, {
+				id: this.ctx.id.toString(),
+				title: (typeof metaTitle === "string" && metaTitle.trim()) || file.name.replace(/\.pdf$/i, ""),
+				filename: file.name,
+				pageCount: pdf.numPages,
+				size: file.size,
+				owner,
+			});
+		} catch (e) {
+			console.error("Failed to index document", e);
+		}
 		return Response.json({ id: this.ctx.id.toString() });
 	}
 
-	async handleDownload(): Promise<Response> {
+	/**
+	 * The upload. Editors get it as it is, to work on; anyone else gets it
+	 * without what's under the redactions.
+	 */
+	async handleDownload(request: Request): Promise<Response> {
 		const object = await this.env.PDF_BUCKET.get(this.pdfKey);
 		if (!object) return new Response("Not found", { status: 404 });
+		await this.ensureImported();
+		const redactions = this.annotations.filter((ann) => ann.type === "redact");
+		if (redactions.length && !canEdit(identityOf(request).role)) {
+			try {
+				return new Response(await redactPdf(await object.arrayBuffer(), redactions), { headers: { "Content-Type": "application/pdf" } });
+			} catch (e) {
+				if (e instanceof RedactionError) return new Response(e.message, { status: 422 });
+				console.error("Redacting the download failed", e);
+				return new Response("Could not render PDF", { status: 500 });
+			}
+		}
 		const headers = new Headers();
 		object.writeHttpMetadata(headers);
 		headers.set("etag", object.httpEtag);
 		return new Response(object.body, { headers });
 	}
 
+	/**
+	 * The upload's text, page by page, for searches the text index can't
+	 * answer. Patterns run in the client, never here.
+	 */
+	async handleText(): Promise<Response> {
+		try {
+			await this.ensureTextIndex();
+		} catch (e) {
+			console.error("Text extraction failed", e);
+			return new Response("Could not read PDF text", { status: 500 });
+		}
+		const rows = this.ctx.storage.sql.exec<{ page: number; runs: string }>("SELECT page, runs FROM page_text ORDER BY page");
+		return Response.json({ pages: this.readPageText(rows) });
+	}
+
+	/** `?q=`: the passages closest to it in meaning, best first. */
+	async handleSemanticSearch(url: URL): Promise<Response> {
+		const q = (url.searchParams.get("q") ?? "").trim();
+		if (!q || q.length > MAX_SEMANTIC_QUERY_LENGTH) {
+			return new Response(`q must be 1 to ${MAX_SEMANTIC_QUERY_LENGTH} characters`, { status: 400 });
+		}
+		try {
+			await this.ensureEmbeddings();
+			const matches = await searchDocument(this.env.DB, this.embedder, this.ctx.id.toString(), q);
+			return Response.json({ matches: matches.filter(({ page }) => !this.deletedPages.has(page - 1)) });
+		} catch (e) {
+			console.error("Semantic search failed", e);
+			return new Response("Search failed", { status: 500 });
+		}
+	}
+
+	/** Text recognized on scanned pages, for exports made in the browser to write into them. */
+	async handleRecognizedText(): Promise<Response> {
+		return Response.json({ pages: this.recognizedText() });
+	}
+
+	private recognizedText(): PageText[] {
+		return this.readPageText(this.ctx.storage.sql.exec<{ page: number; runs: string }>("SELECT page, runs FROM ocr_text ORDER BY page"));
+	}
+
+	/** `?q=` as literal text, `&case=1` to match case. Answers with hits on every page, deleted or not. */
+	async handleSearch(url: URL): Promise<Response> {
+		const query = (url.searchParams.get("q") ?? "").trim();
+		if (!query || query.length > MAX_QUERY_LENGTH) {
+			return new Response(`q must be 1-${MAX_QUERY_LENGTH} characters`, { status: 400 });
+		}
+		try {
+			await this.ensureTextIndex();
+		} catch (e) {
+			console.error("Text extraction failed", e);
+			return new Response("Could not read PDF text", { status: 500 });
+		}
+
+		// The index narrows the search down to pages with the phrase on them somewhere;
+		// `searchText` then finds where, with the same whitespace rules the index was built with
+		const phrase = query.replace(/\s+/g, " ");
+		const rows = phrase.length >= TRIGRAM_LENGTH
+			? this.ctx.storage.sql.exec<{ page: number; runs: string }>(
+				`SELECT page, runs FROM page_text
+				 WHERE page IN (SELECT rowid FROM text_index WHERE text_index MATCH ?) ORDER BY page`,
+				`"${phrase.replaceAll('"', '""')}"`
+			)
+			: this.ctx.storage.sql.exec<{ page: number; runs: string }>("SELECT page, runs FROM page_text ORDER BY page");
+
+		const result = searchText(this.readPageText(rows), {
+			text: query,
+			regex: false,
+			caseSensitive: url.searchParams.get("case") === "1",
+		});
+		return result.ok ? Response.json(result.value) : new Response(result.error, { status: 400 });
+	}
+
+	/**
+	 * The stored PDF with the session's annotations and page deletions applied.
+	 * Edits are drawn into the pages, as this route always did; `?mode=annotations`
+	 * keeps them as annotations instead.
+	 */
+	async handleExport(url: URL): Promise<Response> {
+		const mode = (url.searchParams.get("mode") ?? "flatten") as ExportMode;
+		if (!EXPORT_MODES.includes(mode)) return new Response(`mode must be one of ${EXPORT_MODES.join(", ")}`, { status: 400 });
+
+		const object = await this.env.PDF_BUCKET.get(this.pdfKey);
+		if (!object) return new Response("Not found", { status: 404 });
+		await this.ensureImported();
+
+		// Snapshot before awaiting so edits arriving mid-render don't tear the export
+		const annotations = [...this.annotations];
+		const deletedPages = [...this.deletedPages];
+		const revision = this.revision;
+
+		let bytes: Uint8Array;
+		try {
+			bytes = await applyEditsToPdf(await object.arrayBuffer(), annotations, deletedPages, { mode, textLayer: this.recognizedText() });
+		} catch (e) {
+			if (e instanceof RedactionError) return new Response(e.message, { status: 422 });
+			console.error("Export failed", e);
+			return new Response("Could not render PDF", { status: 500 });
+		}
+
+		return new Response(bytes, {
+			headers: {
+				"Content-Type": "application/pdf",
+				"Content-Disposition": `attachment; filename="${this.ctx.id.toString()}.pdf"`,
+				"X-Document-Revision": String(revision),
+			},
+		});
+	}
+
+	/**
+	 * Stores an export as the next numbered revision, next to the snapshot of
+	 * the session state it was made from. The original upload is left alone.
+	 */
 	async handleSaveChanges(request: Request): Promise<Response> {
 		const formData = await request.formData();
 		const file = formData.get("file") as File;
-        if (!file) return new Response("No file", { status: 400 });
-		await this.env.PDF_BUCKET.put(this.pdfKey, file.stream(), {
-			httpMetadata: { contentType: "application/pdf" },
+		if (!file) return new Response("No file", { status: 400 });
+		const author = identityOf(request).name || "Anonymous";
+
+		// Reserve the number before awaiting so concurrent saves never share one
+		const number = this.getMeta("saved_revisions") + 1;
+		this.setMeta("saved_revisions", number);
+
+		const snapshot: RevisionSnapshot = { annotations: this.annotations, deletedPages: Array.from(this.deletedPages) };
+		const metadata: RevisionMetadata = {
+			author,
+			createdAt: new Date().toISOString(),
+			annotationCount: String(snapshot.annotations.length),
+			documentRevision: String(this.revision),
+		};
+
+		await Promise.all([
+			this.env.PDF_BUCKET.put(`${this.revisionsPrefix}${number}.json`, JSON.stringify(snapshot), {
+				httpMetadata: { contentType: "application/json" },
+			}),
+			this.env.PDF_BUCKET.put(`${this.revisionsPrefix}${number}.pdf`, file.stream(), {
+				httpMetadata: { contentType: "application/pdf" },
+				customMetadata: { ...metadata },
+			}),
+		]);
+		try {
+			await recordSave(this.env.DB, this.ctx.id.toString(), this.getMeta("page_count") - this.deletedPages.size);
+		} catch (e) {
+			console.error("Failed to index document", e);
+		}
+		return Response.json({ success: true, revision: number });
+	}
+
+	async handleListRevisions(): Promise<Response> {
+		const revisions = [];
+		let cursor: string | undefined;
+		do {
+			const page = await this.env.PDF_BUCKET.list({ prefix: this.revisionsPrefix, cursor, include: ["customMetadata"] });
+			for (const object of page.objects) {
+				if (!object.key.endsWith(".pdf")) continue;
+				const meta = object.customMetadata as Partial<RevisionMetadata> | undefined;
+				revisions.push({
+					number: Number(object.key.slice(this.revisionsPrefix.length, -".pdf".length)),
+					author: meta?.author ?? "",
+					createdAt: meta?.createdAt ?? object.uploaded.toISOString(),
+					annotationCount: Number(meta?.annotationCount ?? 0),
+					documentRevision: Number(meta?.documentRevision ?? 0),
+					size: object.size,
+				});
+			}
+			cursor = page.truncated ? page.cursor : undefined;
+		} while (cursor);
+
+		revisions.sort((a, b) => a.number - b.number);
+		return Response.json({ revisions });
+	}
+
+	private revisionNumber(url: URL): number | null {
+		const number = Number(url.searchParams.get("number"));
+		return Number.isInteger(number) && number > 0 ? number : null;
+	}
+
+	/**
+	 * A saved revision as it was saved, redacted text and all if it predates
+	 * the redaction, so the worker only routes editors here.
+	 */
+	async handleDownloadRevision(url: URL): Promise<Response> {
+		const number = this.revisionNumber(url);
+		if (number === null) return new Response("Invalid revision number", { status: 400 });
+
+		const object = await this.env.PDF_BUCKET.get(`${this.revisionsPrefix}${number}.pdf`);
+		if (!object) return new Response("Not found", { status: 404 });
+		const headers = new Headers();
+		object.writeHttpMetadata(headers);
+		headers.set("etag", object.httpEtag);
+		headers.set("Content-Disposition", `attachment; filename="revision-${number}.pdf"`);
+		return new Response(object.body, { headers });
+	}
+
+	/**
+	 * Puts the session back to the state a revision was saved from. Everyone
+	 * connected gets the new state, and edits based on anything older are
+	 * treated as stale.
+	 */
+	async handleRestoreRevision(url: URL): Promise<Response> {
+		const number = this.revisionNumber(url);
+		if (number === null) return new Response("Invalid revision number", { status: 400 });
+
+		const object = await this.env.PDF_BUCKET.get(`${this.revisionsPrefix}${number}.json`);
+		if (!object) return new Response("Not found", { status: 404 });
+		const snapshot = await object.json<RevisionSnapshot>();
+
+		const revision = this.ctx.storage.transactionSync(() => {
+			this.ctx.storage.sql.exec("DELETE FROM annotations");
+			this.ctx.storage.sql.exec("DELETE FROM deleted_pages");
+			for (const ann of snapshot.annotations) this.saveAnnotation(ann);
+			for (const page of snapshot.deletedPages) this.saveDeletedPage(page);
+			return this.commitRevision(DOCUMENT_TARGET, "");
 		});
-		return Response.json({ success: true });
+		const redacts = (list: PdfAnnotation[]) => list.some((ann) => ann.type === "redact");
+		const redactionChanged = redacts(this.annotations) || redacts(snapshot.annotations);
+		const pagesChanged = this.deletedPages.size !== snapshot.deletedPages.length
+			|| snapshot.deletedPages.some((page) => !this.deletedPages.has(page));
+		this.annotations = snapshot.annotations;
+		this.deletedPages = new Set(snapshot.deletedPages);
+		if (redactionChanged) this.redactionsChanged();
+		else if (pagesChanged) this.passagesChanged();
+
+		this.broadcast(JSON.stringify({ type: "sync-annotations", annotations: this.annotations, revision } satisfies WSMessage));
+		this.broadcast(JSON.stringify({
+			type: "sync-deleted-pages", deletedPages: snapshot.deletedPages, revision,
+		} satisfies WSMessage));
+		return Response.json({ success: true, revision });
 	}
 }
@@ -0,0 +1,77 @@
+import type { AuthUser, Role } from "@shared/auth";
+
+export interface DocumentPermission {
+	userId: string;
+	email: string;
+	name: string;
+	role: Role;
+}
+
+export async function getRole(db: D1Database, documentId: string, userId: string): Promise<Role | null> {
+	const row = await db
+		.prepare("SELECT role FROM document_permissions WHERE document_id = ? AND user_id = ?")
+		.bind(documentId, userId)
+		.first<{ role: Role }>();
+	return row?.role ?? null;
+}
+
+export async function grantRole(db: D1Database, documentId: string, userId: string, role: Role) {
+	await db
+		.prepare(
+			`INSERT INTO document_permissions (document_id, user_id, role, created_at) VALUES (?, ?, ?, ?)
+			 ON CONFLICT (document_id, user_id) DO UPDATE SET role = excluded.role`
+		)
+		.bind(documentId, userId, role, new Date().toISOString())
+		.run();
+}
+
+/**
+ * GET    /api/documents/permissions?id=           everyone with access
+ * POST   /api/documents/permissions?id=           { email, role: "editor" | "viewer" }
+ * DELETE /api/documents/permissions?id=&userId=
+ * Only the owner may call these. Ownership itself can't be granted or taken away here.
+ */
+export async function handlePermissions(request: Request, url: URL, db: D1Database, user: AuthUser): Promise<Response> {
+	const documentId = url.searchParams.get("id") ?? "";
+	if ((await getRole(db, documentId, user.id)) !== "owner") return new Response("Not found", { status: 404 });
+
+	if (request.method === "GET") {
+		const { results } = await db
+			.prepare(
+				`SELECT u.id AS userId, u.email, u.name, p.role FROM document_permissions p
+				 JOIN users u ON u.id = p.user_id WHERE p.document_id = ? ORDER BY p.created_at`
+			)
+			.bind(documentId)
+			.all<DocumentPermission>();
+		return Response.json({ permissions: results });
+	}
+
+	if (request.method === "POST") {
+		let body: { email?: unknown; role?: unknown };
+		try {
+			body = await request.json();
+		} catch {
+			return new Response("Invalid JSON", { status: 400 });
+		}
+		const role = body.role as Role;
+		if (role !== "editor" && role !== "viewer") return new Response("role must be editor or viewer", { status: 400 });
+		const email = typeof body.email === "string" ? body.email.trim() : "";
+		const target = await db.prepare("SELECT id FROM users WHERE email = ?").bind(email).first<{ id: string }>();
+		if (!target) return new Response("No account with that email", { status: 404 });
+		if (target.id === user.id) return new Response("You already own this document", { status: 400 });
+
+		await grantRole(db, documentId, target.id, role);
+		return Response.json({ success: true });
+	}
+
+	if (request.method === "DELETE") {
+		const userId = url.searchParams.get("userId") ?? "";
+		await db
+			.prepare("DELETE FROM document_permissions WHERE document_id = ? AND user_id = ? AND role != 'owner'")
+			.bind(documentId, userId)
+			.run();
+		return Response.json({ success: true });
+	}
+
+	return new Response("Method not allowed", { status: 405 });
+}
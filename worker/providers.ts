@@ -0,0 +1,34 @@
+// The models behind OCR, summaries, chat and semantic search. Workers AI by
+// default; `setAiProviders` runs them on anything else with the same shape.
+import type { OcrEngine } from "@shared/ocr";
+import { workersAiChatModel, type ChatModel } from "./chat";
+import { workersAiEmbedder, type Embedder } from "./embeddings";
+import { workersAiOcr } from "./ocr";
+import { workersAiSummaryModel, type SummaryModel } from "./summary";
+
+export interface AiProviders {
+	ocr: OcrEngine;
+	summary: SummaryModel;
+	chat: ChatModel;
+	embedder: Embedder;
+}
+
+export function workersAiProviders(ai: Ai): AiProviders {
+	return {
+		ocr: workersAiOcr(ai),
+		summary: workersAiSummaryModel(ai),
+		chat: workersAiChatModel(ai),
+		embedder: workersAiEmbedder(ai),
+	};
+}
+
+let providersFor = (env: Env): AiProviders => workersAiProviders(env.AI);
+
+/** Replaces the providers sessions and library search get from here on, e.g. with local models in development. */
+export function setAiProviders(factory: (env: Env) => AiProviders) {
+	providersFor = factory;
+}
+
+export function aiProviders(env: Env): AiProviders {
+	return providersFor(env);
+}
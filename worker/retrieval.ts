@@ -0,0 +1,81 @@
+// Finding the passages of a document that bear on a question, so answers can
+// be based on the pages rather than on what the model happens to know.
+
+export interface Passage {
+	page: number;
+	text: string;
+}
+
+// Long enough to make sense on its own, short enough that a handful fit in one prompt
+const PASSAGE_LENGTH = 800;
+
+// BM25 parameters, the usual ones
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set(
+	("the and for are but not you all any can had her was one our out has his how its may new now who why did get " +
+		"what when where which with this that these those from have into does about there their them then than they will " +
+		"would could should been being were your some such only also just more most other over very page document pdf").split(" ")
+);
+
+/** Each page's text in pieces of about `PASSAGE_LENGTH`, broken between sentences where possible. */
+export function passagesOf(pages: { page: number; text: string }[]): Passage[] {
+	const passages: Passage[] = [];
+	for (const { page, text } of pages) {
+		let current = "";
+		for (const sentence of text.match(/[^.!?]+[.!?]*\s*/g) ?? []) {
+			if (current && current.length + sentence.length > PASSAGE_LENGTH) {
+				passages.push({ page, text: current.trim() });
+				current = "";
+			}
+			// A sentence longer than a passage gets split between words
+			let rest = sentence;
+			while (rest.length > PASSAGE_LENGTH) {
+				const end = rest.lastIndexOf(" ", PASSAGE_LENGTH);
+				passages.push({ page, text: rest.slice(0, end > 0 ? end : PASSAGE_LENGTH).trim() });
+				rest = rest.slice(end > 0 ? end : PASSAGE_LENGTH);
+			}
+			current += rest;
+		}
+		if (current.trim()) passages.push({ page, text: current.trim() });
+	}
+	return passages;
+}
+
+function terms(text: string): string[] {
+	return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter((term) => term.length > 2 && !STOP_WORDS.has(term));
+}
+
+/**
+ * The `limit` passages that best match the words of `question`, in document
+ * order. When none share a word with it, the document's opening passages
+ * stand in, which is what questions like "what is this about?" need.
+ */
+export function rankPassages(passages: Passage[], question: string, limit: number): Passage[] {
+	const wanted = new Set(terms(question));
+	const counted = passages.map((passage) => {
+		const counts = new Map<string, number>();
+		const words = terms(passage.text);
+		for (const word of words) if (wanted.has(word)) counts.set(word, (counts.get(word) ?? 0) + 1);
+		return { counts, length: words.length };
+	});
+	const averageLength = counted.reduce((sum, c) => sum + c.length, 0) / (counted.length || 1) || 1;
+	const frequency = new Map<string, number>();
+	for (const { counts } of counted) for (const term of counts.keys()) frequency.set(term, (frequency.get(term) ?? 0) + 1);
+
+	const scored = counted
+		.map(({ counts, length }, i) => {
+			let score = 0;
+			for (const [term, count] of counts) {
+				const idf = Math.log(1 + (passages.length - frequency.get(term)! + 0.5) / (frequency.get(term)! + 0.5));
+				score += (idf * count * (K1 + 1)) / (count + K1 * (1 - B + (B * length) / averageLength));
+			}
+			return { i, score };
+		})
+		.filter(({ score }) => score > 0)
+		.sort((a, b) => b.score - a.score)
+		.slice(0, limit);
+	if (!scored.length) return passages.slice(0, limit);
+	return scored.map(({ i }) => i).sort((a, b) => a - b).map((i) => passages[i]);
+}
@@ -0,0 +1,145 @@
+import {
+	SHARE_ROLES,
+	type AuthUser,
+	type CreatedShareLink,
+	type ResolvedShare,
+	type ShareLink,
+	type ShareRole,
+} from "@shared/auth";
+import { toBase64Url } from "./auth";
+import { getRole } from "./permissions";
+
+// Longest a link may live; links may also never expire
+const MAX_EXPIRY_HOURS = 365 * 24;
+
+interface ShareLinkRow {
+	id: string;
+	document_id: string;
+	role: ShareRole;
+	created_at: string;
+	expires_at: string | null;
+	revoked_at: string | null;
+}
+
+function toShareLink(row: ShareLinkRow): ShareLink {
+	return {
+		id: row.id,
+		documentId: row.document_id,
+		role: row.role,
+		createdAt: row.created_at,
+		expiresAt: row.expires_at,
+		revokedAt: row.revoked_at,
+	};
+}
+
+async function hashToken(token: string): Promise<string> {
+	const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+	return toBase64Url(new Uint8Array(digest));
+}
+
+/** The live link a token belongs to, or null if it is unknown, revoked or expired. */
+export async function resolveShareToken(db: D1Database, token: string): Promise<ShareLink | null> {
+	const row = await db
+		.prepare(
+			`SELECT * FROM share_links
+			 WHERE token_hash = ? AND revoked_at IS NULL AND (expires_at IS NULL OR expires_at > ?)`
+		)
+		.bind(await hashToken(token), new Date().toISOString())
+		.first<ShareLinkRow>();
+	return row ? toShareLink(row) : null;
+}
+
+/** GET /api/shares/resolve?token=, needs no account. */
+export async function handleResolveShare(url: URL, db: D1Database): Promise<Response> {
+	const link = await resolveShareToken(db, url.searchParams.get("token") ?? "");
+	if (!link) return new Response("This link has expired or been revoked", { status: 404 });
+
+	const doc = await db
+		.prepare("SELECT title, filename FROM documents WHERE id = ?")
+		.bind(link.documentId)
+		.first<{ title: string; filename: string }>();
+	return Response.json({
+		documentId: link.documentId,
+		role: link.role,
+		title: doc?.title ?? "Shared document",
+		filename: doc?.filename ?? "shared.pdf",
+		expiresAt: link.expiresAt,
+	} satisfies ResolvedShare);
+}
+
+/**
+ * GET    /api/shares?documentId=   links for a document, newest first
+ * POST   /api/shares               { documentId, role, expiresInHours? } (omit for no expiry)
+ * DELETE /api/shares?id=           revokes; `onRevoke` disconnects whoever is using it
+ * Only the document's owner may manage its links.
+ */
+export async function handleShares(
+	request: Request,
+	url: URL,
+	db: D1Database,
+	user: AuthUser,
+	onRevoke: (link: ShareLink) => Promise<void>
+): Promise<Response> {
+	const isOwner = async (documentId: string) => (await getRole(db, documentId, user.id)) === "owner";
+
+	if (request.method === "GET") {
+		const documentId = url.searchParams.get("documentId") ?? "";
+		if (!(await isOwner(documentId))) return new Response("Not found", { status: 404 });
+		const { results } = await db
+			.prepare("SELECT * FROM share_links WHERE document_id = ? ORDER BY created_at DESC")
+			.bind(documentId)
+			.all<ShareLinkRow>();
+		return Response.json({ links: results.map(toShareLink) });
+	}
+
+	if (request.method === "POST") {
+		let body: { documentId?: unknown; role?: unknown; expiresInHours?: unknown };
+		try {
+			body = await request.json();
+		} catch {
+			return new Response("Invalid JSON", { status: 400 });
+		}
+		const documentId = typeof body.documentId === "string" ? body.documentId : "";
+		if (!(await isOwner(documentId))) return new Response("Not found", { status: 404 });
+		const role = body.role as ShareRole;
+		if (!SHARE_ROLES.includes(role)) return new Response("role must be view, comment or edit", { status: 400 });
+		const hours = body.expiresInHours;
+		if (hours !== undefined && hours !== null && !(typeof hours === "number" && hours > 0 && hours <= MAX_EXPIRY_HOURS)) {
+			return new Response(`expiresInHours must be between 0 and ${MAX_EXPIRY_HOURS}`, { status: 400 });
+		}
+
+		const token = toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+		const now = new Date();
+		const link: ShareLink = {
+			id: crypto.randomUUID(),
+			documentId,
+			role,
+			createdAt: now.toISOString(),
+			expiresAt: typeof hours === "number" ? new Date(now.getTime() + hours * 3_600_000).toISOString() : null,
+			revokedAt: null,
+		};
+		await db
+			.prepare(
+				`INSERT INTO share_links (id, document_id, token_hash, role, created_by, created_at, expires_at)
+				 VALUES (?, ?, ?, ?, ?, ?, ?)`
+			)
+			.bind(link.id, documentId, await hashToken(token), role, user.id, link.createdAt, link.expiresAt)
+			.run();
+		return Response.json({ ...link, token } satisfies CreatedShareLink);
+	}
+
+	if (request.method === "DELETE") {
+		const row = await db
+			.prepare("SELECT * FROM share_links WHERE id = ?")
+			.bind(url.searchParams.get("id") ?? "")
+			.first<ShareLinkRow>();
+		if (!row || !(await isOwner(row.document_id))) return new Response("Not found", { status: 404 });
+
+		const link = { ...toShareLink(row), revokedAt: row.revoked_at ?? new Date().toISOString() };
+		await db.prepare("UPDATE share_links SET revoked_at = ? WHERE id = ?").bind(link.revokedAt, link.id).run();
+		await onRevoke(link);
+		return Response.json({ success: true });
+	}
+
+	return new Response("Method not allowed", { status: 405 });
+}
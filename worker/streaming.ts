@@ -0,0 +1,22 @@
+// Workers AI streams server-sent events, `data: {"response": "..."}` per piece
+export async function* streamedText(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+	const reader = stream.pipeThrough(new TextDecoderStream()).getReader();
+	let buffer = "";
+	try {
+		for (let read = await reader.read(); !read.done; read = await reader.read()) {
+			buffer += read.value;
+			const lines = buffer.split("\n");
+			buffer = lines.pop() ?? "";
+			for (const line of lines) {
+				if (!line.startsWith("data:")) continue;
+				const data = line.slice("data:".length).trim();
+				if (data === "[DONE]") return;
+				const text = (JSON.parse(data) as { response?: unknown }).response;
+				if (typeof text === "string" && text) yield text;
+			}
+		}
+	} finally {
+		// Stops generation when the reader gives up early
+		void reader.cancel();
+	}
+}
@@ -0,0 +1,209 @@
+import { describe, expect, it } from "vitest";
+import type { WSMessage } from "@shared/protocol";
+import type { SummaryProgress } from "@shared/summary";
+import { SummaryRuns, summarizePages, type SummaryModel } from "./summary";
+
+interface ModelRequest {
+	instructions: string;
+	text: string;
+	streamed: boolean;
+}
+
+// Answers every request by citing the pages in it, as page markers or citations, so what reaches the summary shows what went in
+function stubModel(): SummaryModel & { requests: ModelRequest[] } {
+	const requests: ModelRequest[] = [];
+	const answer = (text: string) => `Notes on ${[...text.matchAll(/\[(?:Page|p\.) (\d+)\]/g)].map((m) => `[p. ${m[1]}]`).join(" ")}`;
+	return {
+		requests,
+		async generate(instructions, text) {
+			requests.push({ instructions, text, streamed: false });
+			return answer(text);
+		},
+		async *stream(instructions, text) {
+			requests.push({ instructions, text, streamed: true });
+			yield "  ";
+			for (const word of answer(text).split(/(?= )/)) yield word;
+		},
+	};
+}
+
+function summarize(pages: { page: number; text: string }[], model: SummaryModel, signal?: AbortSignal) {
+	const progress: SummaryProgress[] = [];
+	const pieces: string[] = [];
+	const summary = summarizePages(pages, model, {
+		onProgress: (p) => progress.push(p),
+		onText: (text) => pieces.push(text),
+		signal,
+	});
+	return { summary, progress, pieces };
+}
+
+// About 5,000 characters of words per page
+const longPage = (page: number) => ({ page, text: `page${page} `.repeat(700) });
+
+describe("summarizePages", () => {
+	it("streams one answer for a document that fits in one request", async () => {
+		const model = stubModel();
+		const { summary, progress, pieces } = summarize([{ page: 1, text: "Intro." }, { page: 2, text: "Details." }], model);
+
+		expect(await summary).toBe("Notes on [p. 1] [p. 2]");
+		expect(pieces.join("")).toBe("Notes on [p. 1] [p. 2]");
+		expect(progress).toEqual([{ pages: { from: 1, to: 2 }, done: 0, total: 1 }]);
+		expect(model.requests).toHaveLength(1);
+		expect(model.requests[0].text).toBe("[Page 1]\nIntro.\n\n[Page 2]\nDetails.");
+	});
+
+	it("summarizes every page of a long document, then combines the summaries", async () => {
+		const model = stubModel();
+		const pages = Array.from({ length: 7 }, (_, i) => longPage(i + 1));
+		const { summary, progress, pieces } = summarize(pages, model);
+		const result = await summary;
+
+		const chunks = model.requests.filter((r) => !r.streamed);
+		expect(chunks.length).toBeGreaterThan(1);
+		// Every page goes to the model once, in order, whole
+		const sent = chunks.flatMap((r) => [...r.text.matchAll(/\[Page (\d+)\]/g)].map((m) => Number(m[1])));
+		expect(sent).toEqual([1, 2, 3, 4, 5, 6, 7]);
+		for (const { text } of chunks) expect(text.length).toBeLessThanOrEqual(12_000);
+
+		expect(progress.map((p) => p.pages)).toEqual([...chunks.map((r) => {
+			const cited = [...r.text.matchAll(/\[Page (\d+)\]/g)].map((m) => Number(m[1]));
+			return { from: cited[0], to: cited[cited.length - 1] };
+		}), null]);
+
+		// Only the final answer reaches the reader, and it keeps every page's citation
+		const final = model.requests[model.requests.length - 1];
+		expect(final.streamed).toBe(true);
+		expect(pieces.join("")).toBe(result);
+		for (const page of pages) expect(final.text).toContain(`[p. ${page.page}]`);
+	});
+
+	it("says so when there's no text", async () => {
+		const model = stubModel();
+		const { summary, pieces } = summarize([{ page: 1, text: "  " }], model);
+		expect(await summary).toBe("This document has no text to summarize.");
+		expect(pieces).toEqual(["This document has no text to summarize."]);
+		expect(model.requests).toEqual([]);
+	});
+
+	it("stops between requests once cancelled", async () => {
+		const model = stubModel();
+		const controller = new AbortController();
+		const { summary } = summarize([longPage(1), longPage(2), longPage(3)], {
+			...model,
+			async generate(instructions, text) {
+				controller.abort();
+				return model.generate(instructions, text);
+			},
+		}, controller.signal);
+		await expect(summary).rejects.toThrow();
+		expect(model.requests).toHaveLength(1);
+	});
+});
+
+// The stub model, holding back the rest of each answer after its first word until `release`
+function heldModel() {
+	const model = stubModel();
+	let release!: () => void;
+	const released = new Promise<void>((resolve) => (release = resolve));
+	let started!: () => void;
+	const streaming = new Promise<void>((resolve) => (started = resolve));
+	return {
+		...model,
+		release,
+		// Once the first word has gone out
+		streaming,
+		async *stream(instructions: string, text: string) {
+			let held = false;
+			for await (const piece of model.stream(instructions, text)) {
+				yield piece;
+				if (held || !piece.trim()) continue;
+				held = true;
+				started();
+				await released;
+			}
+		},
+	};
+}
+
+function listener() {
+	const messages: WSMessage[] = [];
+	return { messages, send: (message: string) => void messages.push(JSON.parse(message)) };
+}
+
+const textOf = (messages: WSMessage[]) => messages.map((m) => (m.type === "ai-chunk" ? m.text : "")).join("");
+const pages = async () => [{ page: 1, text: "Intro." }];
+
+describe("SummaryRuns", () => {
+	it("has a second request join the summary being written, from what it has so far", async () => {
+		const model = heldModel();
+		const runs = new SummaryRuns(model);
+		const [first, second] = [listener(), listener()];
+
+		const started = runs.request(first, pages);
+		await model.streaming;
+		expect(await runs.request(second, pages)).toBeNull();
+		expect(second.messages).toEqual([
+			{ type: "ai-status", status: "thinking", progress: { pages: { from: 1, to: 1 }, done: 0, total: 1 } },
+			{ type: "ai-chunk", offset: 0, text: "Notes" },
+		]);
+
+		model.release();
+		expect(await started).toBe("Notes on [p. 1]");
+		expect(model.requests).toHaveLength(1);
+		expect(textOf(first.messages)).toBe("Notes on [p. 1]");
+		expect(textOf(second.messages)).toBe("Notes on [p. 1]");
+	});
+
+	it("keeps writing while anyone is waiting", async () => {
+		const model = heldModel();
+		const runs = new SummaryRuns(model);
+		const [first, second] = [listener(), listener()];
+
+		const started = runs.request(first, pages);
+		await model.streaming;
+		await runs.request(second, pages);
+		runs.leave(first);
+		const before = first.messages.length;
+
+		model.release();
+		expect(await started).toBe("Notes on [p. 1]");
+		expect(first.messages).toHaveLength(before);
+		expect(textOf(second.messages)).toBe("Notes on [p. 1]");
+	});
+
+	it("stops once everyone has left, without reporting an error", async () => {
+		const model = heldModel();
+		const runs = new SummaryRuns(model);
+		const [first, second] = [listener(), listener()];
+
+		const started = runs.request(first, pages);
+		await model.streaming;
+		await runs.request(second, pages);
+		runs.leave(first);
+		runs.leave(second);
+
+		model.release();
+		expect(await started).toBeNull();
+		expect([...first.messages, ...second.messages].filter((m) => m.type === "ai-result")).toEqual([]);
+		expect(textOf(first.messages)).toBe("Notes");
+	});
+
+	it("starts afresh when asked again after a cancel, while the cancelled one finishes", async () => {
+		const model = heldModel();
+		const runs = new SummaryRuns(model);
+		const [first, again] = [listener(), listener()];
+
+		const cancelled = runs.request(first, pages);
+		await model.streaming;
+		runs.leave(first);
+		const restarted = runs.request(again, pages);
+
+		model.release();
+		expect(await cancelled).toBeNull();
+		expect(await restarted).toBe("Notes on [p. 1]");
+		expect(model.requests).toHaveLength(2);
+		expect(again.messages[0]).toEqual({ type: "ai-status", status: "thinking" });
+		expect(textOf(again.messages)).toBe("Notes on [p. 1]");
+	});
+});
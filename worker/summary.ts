@@ -0,0 +1,246 @@
+import type { WSMessage } from "@shared/protocol";
+import { CITATION_FORMAT, type SummaryProgress } from "@shared/summary";
+import { streamedText } from "./streaming";
+
+const SUMMARY_MODEL = "@cf/meta/llama-3-8b-instruct";
+// Text per request, well inside the model's 8k token context with room for the answer
+const CHUNK_LENGTH = 12_000;
+const MAX_SUMMARY_TOKENS = 1024;
+
+const CHUNK_PROMPT = `Summarize these pages of a longer document in a few sentences. Each page starts with a [Page N] line.
+Cite the pages each point comes from as ${CITATION_FORMAT}.`;
+const WHOLE_PROMPT = `Summarize this document concisely. Each page starts with a [Page N] line.
+Cite the pages each point comes from as ${CITATION_FORMAT}.`;
+const MERGE_PROMPT = `These are summaries of consecutive parts of one document. Combine them into one shorter summary.
+Keep their page citations, written as ${CITATION_FORMAT}.`;
+const FINAL_PROMPT = `These are summaries of consecutive parts of one document. Write a concise summary of the whole document from them.
+Keep their page citations, written as ${CITATION_FORMAT}.`;
+
+/** Instructions and text in, the model's answer out, whole or a piece at a time. */
+export interface SummaryModel {
+	generate(instructions: string, text: string): Promise<string>;
+	stream(instructions: string, text: string): AsyncIterable<string>;
+}
+
+export function workersAiSummaryModel(ai: Ai): SummaryModel {
+	const messages = (instructions: string, text: string) => [
+		{ role: "system", content: instructions },
+		{ role: "user", content: text },
+	];
+	return {
+		async generate(instructions: string, text: string): Promise<string> {
+			const response = await ai.run(SUMMARY_MODEL, { messages: messages(instructions, text), max_tokens: MAX_SUMMARY_TOKENS });
+			return ((response as { response?: string }).response ?? "").trim();
+		},
+		async *stream(instructions: string, text: string) {
+			const response = await ai.run(SUMMARY_MODEL, {
+				messages: messages(instructions, text),
+				max_tokens: MAX_SUMMARY_TOKENS,
+				stream: true,
+			});
+			yield* streamedText(response as ReadableStream<Uint8Array>);
+		},
+	};
+}
+
+export interface SummaryCallbacks {
+	// Before each chunk of pages and before combining their summaries
+	onProgress: (progress: SummaryProgress) => void;
+	// Each piece of the summary as the model writes it
+	onText: (text: string) => void;
+	// Stops the summary between requests to the model, or mid-answer
+	signal?: AbortSignal;
+}
+
+interface Chunk {
+	from: number;
+	to: number;
+	text: string;
+}
+
+/**
+ * Whole pages, in order, up to `CHUNK_LENGTH` of text each. A page longer than
+ * that gets chunks of its own, broken between words.
+ */
+function chunkPages(pages: { page: number; text: string }[]): Chunk[] {
+	const chunks: Chunk[] = [];
+	for (const { page, text } of pages) {
+		let rest = text.trim();
+		while (rest) {
+			const marked = `[Page ${page}]\n`;
+			let piece = rest;
+			if (marked.length + piece.length > CHUNK_LENGTH) {
+				const end = rest.lastIndexOf(" ", CHUNK_LENGTH - marked.length);
+				piece = rest.slice(0, end > 0 ? end : CHUNK_LENGTH - marked.length);
+			}
+			rest = rest.slice(piece.length).trim();
+
+			const last = chunks[chunks.length - 1];
+			const entry = marked + piece;
+			if (last && last.to !== page && last.text.length + 2 + entry.length <= CHUNK_LENGTH) {
+				last.text += "\n\n" + entry;
+				last.to = page;
+			} else {
+				chunks.push({ from: page, to: page, text: entry });
+			}
+		}
+	}
+	return chunks;
+}
+
+// Consecutive summaries, as many per request as fit and at least two
+function batches(summaries: string[]): string[] {
+	const out: string[] = [];
+	let current: string[] = [];
+	for (const summary of summaries) {
+		if (current.length >= 2 && [...current, summary].join("\n\n").length > CHUNK_LENGTH) {
+			out.push(current.join("\n\n"));
+			current = [];
+		}
+		current.push(summary);
+	}
+	if (current.length) out.push(current.join("\n\n"));
+	return out;
+}
+
+// The answer, passed on to `onText` as it arrives
+async function streamAnswer(model: SummaryModel, instructions: string, text: string, { onText, signal }: SummaryCallbacks) {
+	let answer = "";
+	for await (const piece of model.stream(instructions, text)) {
+		signal?.throwIfAborted();
+		// Models open with whitespace the summary shouldn't
+		const out = answer ? piece : piece.trimStart();
+		if (!out) continue;
+		answer += out;
+		onText(out);
+	}
+	return answer.trimEnd();
+}
+
+/**
+ * Summarizes every page, not just as much as fits in one request: each chunk
+ * of pages is summarized, then the summaries are combined, in rounds if they
+ * don't fit in one. Only the last request's answer reaches `onText`, since
+ * it's the summary; the ones before it are working notes.
+ */
+export async function summarizePages(
+	pages: { page: number; text: string }[],
+	model: SummaryModel,
+	callbacks: SummaryCallbacks
+): Promise<string> {
+	const { onProgress, onText, signal } = callbacks;
+	const chunks = chunkPages(pages);
+	if (!chunks.length) {
+		const empty = "This document has no text to summarize.";
+		onText(empty);
+		return empty;
+	}
+	if (chunks.length === 1) {
+		onProgress({ pages: { from: chunks[0].from, to: chunks[0].to }, done: 0, total: 1 });
+		return streamAnswer(model, WHOLE_PROMPT, chunks[0].text, callbacks);
+	}
+
+	let summaries: string[] = [];
+	for (const [i, chunk] of chunks.entries()) {
+		signal?.throwIfAborted();
+		onProgress({ pages: { from: chunk.from, to: chunk.to }, done: i, total: chunks.length });
+		summaries.push(await model.generate(CHUNK_PROMPT, chunk.text));
+	}
+	onProgress({ pages: null, done: chunks.length, total: chunks.length });
+	while (summaries.length > 1 && summaries.join("\n\n").length > CHUNK_LENGTH) {
+		const merged: string[] = [];
+		for (const batch of batches(summaries)) {
+			signal?.throwIfAborted();
+			merged.push(await model.generate(MERGE_PROMPT, batch));
+		}
+		summaries = merged;
+	}
+	signal?.throwIfAborted();
+	return streamAnswer(model, FINAL_PROMPT, summaries.join("\n\n"), callbacks);
+}
+
+/** Whoever is waiting for a summary: in the session, a socket. */
+export interface SummaryListener {
+	send(message: string): void;
+}
+
+// A summary being written, and who's waiting for it
+interface SummaryRun {
+	listeners: Set<SummaryListener>;
+	controller: AbortController;
+	progress?: SummaryProgress;
+	// Written so far
+	text: string;
+}
+
+/**
+ * Writes one summary at a time. Asking while one is being written waits for
+ * that one, starting with what it has so far; it stops once nobody is waiting.
+ */
+export class SummaryRuns {
+	private run: SummaryRun | null = null;
+	private readonly model: SummaryModel;
+
+	constructor(model: SummaryModel) {
+		this.model = model;
+	}
+
+	/**
+	 * Summarizes `pages()` for `listener`, or has it join the summary already
+	 * being written. `pages()` is null when there's no document. Resolves with
+	 * the summary for the request that started it; null for a join, or when
+	 * it was cancelled or failed.
+	 */
+	async request(listener: SummaryListener, pages: () => Promise<{ page: number; text: string }[] | null>): Promise<string | null> {
+		const current = this.run;
+		// A cancelled run may still be finishing its last request to the model
+		if (current && !current.controller.signal.aborted) {
+			current.listeners.add(listener);
+			listener.send(JSON.stringify({ type: "ai-status", status: "thinking", progress: current.progress } satisfies WSMessage));
+			if (current.text) listener.send(JSON.stringify({ type: "ai-chunk", offset: 0, text: current.text } satisfies WSMessage));
+			return null;
+		}
+
+		const run: SummaryRun = { listeners: new Set([listener]), controller: new AbortController(), text: "" };
+		this.run = run;
+		const send = (msg: WSMessage) => {
+			for (const to of run.listeners) {
+				try { to.send(JSON.stringify(msg)); } catch { run.listeners.delete(to); }
+			}
+		};
+		send({ type: "ai-status", status: "thinking" });
+
+		try {
+			const text = await pages();
+			if (!text) {
+				send({ type: "ai-result", text: "Error: No PDF found." });
+				return null;
+			}
+			return await summarizePages(text, this.model, {
+				onProgress: (progress) => {
+					run.progress = progress;
+					send({ type: "ai-status", status: "thinking", progress });
+				},
+				onText: (text) => {
+					send({ type: "ai-chunk", offset: run.text.length, text });
+					run.text += text;
+				},
+				signal: run.controller.signal,
+			});
+		} catch (e) {
+			if (run.controller.signal.aborted) return null;
+			console.error("Summary failed", e);
+			send({ type: "ai-result", text: "Error processing analysis." });
+			return null;
+		} finally {
+			if (this.run === run) this.run = null;
+		}
+	}
+
+	/** Stops sending `listener` the summary, and stops writing it once nobody is waiting. */
+	leave(listener: SummaryListener) {
+		const run = this.run;
+		if (!run?.listeners.delete(listener)) return;
+		if (!run.listeners.size) run.controller.abort();
+	}
+}